@@ -43,6 +43,28 @@ class AsyncQueue {
   }
 }
 
+/**
+ * 退避配置
+ */
+interface IBackoffOption {
+  /**
+   * 基础延迟（毫秒）
+   */
+  delay: number;
+  /**
+   * 退避策略，默认 exponential
+   */
+  backoff?: 'fixed' | 'linear' | 'exponential';
+  /**
+   * 最大延迟（毫秒），默认不限制
+   */
+  maxDelay?: number;
+  /**
+   * 随机抖动，true 为全抖动，数字为抖动比例（0-1），默认 false
+   */
+  jitter?: boolean | number;
+}
+
 /**
  * 异步工具对象
  */
@@ -104,6 +126,31 @@ const asyncUtils = {
     throw lastError!;
   },
 
+  /**
+   * 计算退避等待时间
+   * @param attempt 已经尝试的次数，从1开始
+   * @param option 退避配置
+   * @returns 等待的毫秒数
+   */
+  backoffDelay(attempt: number, option: IBackoffOption): number {
+    const { backoff = 'exponential', maxDelay = Infinity, jitter = false } = option;
+    let delay = option.delay;
+    if (backoff === 'linear') {
+      delay = option.delay * attempt;
+    } else if (backoff === 'exponential') {
+      delay = option.delay * 2 ** (attempt - 1);
+    }
+    delay = Math.min(delay, maxDelay);
+    if (jitter === true) {
+      return Math.round(Math.random() * delay);
+    }
+    if (typeof jitter === 'number' && jitter > 0) {
+      const range = delay * Math.min(jitter, 1);
+      return Math.round(delay - range + Math.random() * range * 2);
+    }
+    return delay;
+  },
+
   /**
    * 并发控制
    * @param tasks 任务数组
@@ -218,4 +265,5 @@ const asyncUtils = {
 };
 
 export default asyncUtils;
-export { AsyncQueue };
\ No newline at end of file
+export { AsyncQueue };
+export type { IBackoffOption };
\ No newline at end of file
@@ -266,8 +266,8 @@ const cryptoUtils = {
   },
 
   /**
-   * 生成字符串的 MD5 哈希值
-   * @param {string} input - 需要进行 MD5 加密的输入字符串
+   * 生成字符串或二进制数据的 MD5 哈希值
+   * @param {string | ArrayBuffer | Uint8Array} input - 需要进行 MD5 加密的字符串或二进制数据
    * @param {string} [salt] - 可选的盐值，用于增强安全性
    * @returns {string} 返回 MD5 哈希值的十六进制字符串
    * @example
@@ -279,13 +279,39 @@ const cryptoUtils = {
    * // 带盐值的 MD5
    * const hash2 = cryptoUtils.md5('password', 'mysalt');
    * console.log(hash2); // "a1b2c3d4e5f6..."
+   *
+   * // 文件分片的 MD5
+   * const hash3 = cryptoUtils.md5(await blob.slice(0, 1024).arrayBuffer());
    * ```
    */
-  md5(input: string, salt?: string): string {
-    const data = salt ? input + salt : input;
+  md5(input: string | ArrayBuffer | Uint8Array, salt?: string): string {
+    if (typeof input === 'string') {
+      const data = salt ? input + salt : input;
+      return CryptoJS.MD5(data).toString();
+    }
+    const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+    // crypto-js 的 WordArray 可以直接由 Uint8Array 创建
+    const data = CryptoJS.lib.WordArray.create(bytes as any);
+    if (salt) {
+      data.concat(CryptoJS.enc.Utf8.parse(salt));
+    }
     return CryptoJS.MD5(data).toString();
   },
 
+  /**
+   * SHA-256 哈希
+   * @param {string} input - 需要计算哈希的字符串，按 UTF-8 编码
+   * @returns {string} 返回 SHA-256 哈希值的十六进制字符串
+   * @example
+   * ```typescript
+   * const hash = cryptoUtils.sha256('hello world');
+   * console.log(hash); // "b94d27b9934d3e08a52e52d7da7dabfac484efe37a5380ee9088f7ace2efcde9"
+   * ```
+   */
+  sha256(input: string): string {
+    return CryptoJS.SHA256(input).toString();
+  },
+
   /**
    * 生成简短的 UUID（8位）
    * @returns {string} 返回一个8位的短 UUID 字符串
@@ -81,6 +81,26 @@ export const buildPageConfig = (data?: ITablePage<any>) => ({
     `${Number(total).toLocaleString('en-US')} 条数据中的第${range[0]}-${range[1]}条 `
 });
 
+/**
+ * 把后台返回的分页数据转换成标准的分页数据，缺少的字段使用默认值
+ * @param data - 后台传递的分页数据，列表可以是 records 或者 list
+ * @returns 分页数据
+ */
+export const buildTablePage = <T = any>(data?: Partial<ITablePage<T>> | null): ITablePage<T> => {
+  const records = data?.records || data?.list || [];
+  const size = Number(data?.size) || 0;
+  const total = Number(data?.total) || 0;
+  return {
+    ...data,
+    records,
+    list: records,
+    size,
+    current: Number(data?.current) || 0,
+    total,
+    pages: Number(data?.pages) || (size > 0 ? Math.ceil(total / size) : 0),
+  };
+};
+
 /**
  * 默认的表格数据
  */
@@ -99,6 +119,7 @@ export const defaultTableData: ITablePage<any> = {
 const pageUtils = {
   isLastPageData,
   buildPageConfig,
+  buildTablePage,
   defaultTableData
 };
 
@@ -20,6 +20,10 @@ export { default as urlUtils } from './browser/urlUtils';
 
 // 请求工具函数
 export { default as request } from './request';
+export * from './request';
+
+// 实时通信工具函数
+export * from './socket';
 
 // UniApp 工具函数
 export * from './uniapp';
@@ -1,48 +1,221 @@
-import cryptoUtils from "../../core/cryptoUtils";
+import cryptoUtils from '../../core/cryptoUtils';
+import type { IRequestLogger } from '../logger';
 
 type IReqQueueInit = {
   maxQueueLength?: number;
-  cacheMethod?: (v: Record<string, any>) => void;
+  cacheMethod?: (v: Record<string, IReqRecord>) => void;
+  /**
+   * 请求日志，传了之后每次更新前先脱敏，请求结束后输出
+   */
+  logger?: Pick<IRequestLogger, 'redact' | 'write'>;
 };
 
+/**
+ * 请求信息
+ */
+export interface IReqRecordRequest {
+  /**
+   * 完整的请求地址，GET 请求包含查询参数
+   */
+  url: string;
+  /**
+   * 请求方法，小写
+   */
+  method: string;
+  /**
+   * 请求头
+   */
+  headers: Record<string, string>;
+  /**
+   * 请求体
+   */
+  body?: any;
+}
+
+/**
+ * 响应信息
+ */
+export interface IReqRecordResponse {
+  /**
+   * http 状态码
+   */
+  status: number;
+  /**
+   * 状态描述
+   */
+  statusText: string;
+  /**
+   * 响应头，key 为小写
+   */
+  headers: Record<string, string>;
+  /**
+   * 响应数据，下载文件时没有
+   */
+  data?: any;
+  /**
+   * 收到响应的时间
+   */
+  receivedAt: number;
+}
+
+/**
+ * 异常信息
+ */
+export interface IReqRecordError {
+  name: string;
+  message: string;
+  /**
+   * 异常类型，参考 RequestError
+   */
+  type?: string;
+  code?: string | number;
+  status?: number;
+}
+
+/**
+ * 一次请求的日志
+ */
+export interface IReqRecord {
+  /**
+   * 请求的 reqUuid
+   */
+  id: string;
+  /**
+   * 调用 binRequest 的时间
+   */
+  startedAt: number;
+  /**
+   * 最后一次发出请求的时间
+   */
+  sentAt?: number;
+  /**
+   * 请求结束的时间
+   */
+  endedAt?: number;
+  /**
+   * 总耗时（毫秒）
+   */
+  elapsed?: number;
+  request: IReqRecordRequest;
+  response?: IReqRecordResponse;
+  error?: IReqRecordError;
+  /**
+   * 重试记录
+   */
+  retries: { attempt: number; delay: number; error?: IReqRecordError }[];
+  /**
+   * 通过 add 添加的其他数据
+   */
+  events: { time: number; data: any }[];
+}
+
+/**
+ * 把各个环境的响应头统一成小写 key 的对象
+ * @param headers axios、fetch、uni 的响应头
+ */
+export const normalizeHeaders = (headers: any): Record<string, string> => {
+  const result: Record<string, string> = {};
+  if (!headers) {
+    return result;
+  }
+  if (typeof headers.forEach === 'function' && typeof headers.get === 'function') {
+    // fetch 的 Headers
+    headers.forEach((value: string, key: string) => {
+      result[key.toLowerCase()] = value;
+    });
+    return result;
+  }
+  Object.keys(headers).forEach(key => {
+    const value = headers[key];
+    if (value !== undefined && value !== null && typeof value !== 'function' && typeof value !== 'object') {
+      result[key.toLowerCase()] = String(value);
+    }
+  });
+  return result;
+};
+
+/**
+ * 只保留异常中可以序列化的信息
+ * @param error 异常
+ */
+const toRecordError = (error: any): IReqRecordError => ({
+  name: error?.name || 'Error',
+  message: error?.message || error?.msg || String(error),
+  type: error?.type,
+  code: error?.code,
+  status: error?.status || error?.response?.status,
+});
+
 // 请求队列，最多存储30个请求，超过30个请求，最早的请求将被删除
 export default class ReqQueue {
   private static instance: ReqQueue;
 
-  private static reqQueue: Record<string, any> = {};
+  private reqQueue: Record<string, IReqRecord> = {};
 
-  private static maxQueueLength = 30;
+  private maxQueueLength = 30;
 
-  private static cacheMethod: (v: Record<string, any>) => void = () => { };
+  private cacheMethod: (v: Record<string, IReqRecord>) => void = () => { };
 
-  constructor(p: IReqQueueInit) {
-    if (!ReqQueue.instance) {
-      ReqQueue.instance = this;
-      ReqQueue.maxQueueLength = p.maxQueueLength || 30;
-      ReqQueue.cacheMethod = p.cacheMethod || (() => { });
-    }
-    return ReqQueue.instance;
+  private logger?: IReqQueueInit['logger'];
+
+  /**
+   * 创建一个独立的日志队列，需要全局共享的队列请使用 ReqQueue.init
+   * @param p 初始化配置
+   */
+  constructor(p: IReqQueueInit = {}) {
+    this.configure(p);
   }
 
+  /**
+   * 初始化全局队列，已经初始化过的会更新传入的配置
+   * @param p 初始化配置
+   */
   static init(p: IReqQueueInit) {
-    return this.getInstance(p);
+    const created = !this.instance;
+    const instance = this.getInstance(p);
+    if (!created) {
+      instance.configure(p);
+    }
+    return instance;
   }
 
-  static getInstance(p: IReqQueueInit) {
+  static getInstance(p: IReqQueueInit = {}) {
     if (!this.instance) {
-      if (window) {
-        window.ReqQueue = this.reqQueue;
+      this.instance = new ReqQueue(p);
+      if (typeof window !== 'undefined') {
+        window.ReqQueue = this.instance.reqQueue as any;
       }
-      return (this.instance = new ReqQueue(p));
     }
     return this.instance;
   }
 
+  /**
+   * 根据请求配置获取日志队列，配置了 logQueue 的使用自己的队列，否则使用全局队列
+   * @param opt 请求配置
+   */
+  static from(opt: {
+    logQueue?: ReqQueue;
+    logger?: { queue: ReqQueue };
+    cacheMethod?: IReqQueueInit['cacheMethod'];
+    maxCacheLog?: number;
+  }) {
+    if (opt.logger) {
+      return opt.logger.queue;
+    }
+    if (opt.logQueue) {
+      return opt.logQueue;
+    }
+    return this.init({
+      cacheMethod: opt.cacheMethod,
+      maxQueueLength: opt.maxCacheLog,
+    });
+  }
+
   /**
    * 获取下日志队列
    */
   static getReqQueue() {
-    return this.reqQueue;
+    return this.getInstance().getQueue();
   }
 
   /**
@@ -51,20 +224,205 @@ export default class ReqQueue {
    * @param key
    */
   static async addReqQueue(data: any, key?: string) {
-    if (!key) {
-      key = await cryptoUtils.uuid();
+    return this.getInstance().add(data, key);
+  }
+
+  /**
+   * 更新配置，只更新传入的项
+   * @param p 配置
+   */
+  configure(p: IReqQueueInit) {
+    this.maxQueueLength = p.maxQueueLength || this.maxQueueLength;
+    this.cacheMethod = p.cacheMethod || this.cacheMethod;
+    this.logger = p.logger || this.logger;
+  }
+
+  /**
+   * 获取当前实例的日志队列
+   */
+  getQueue() {
+    return this.reqQueue;
+  }
+
+  /**
+   * 按请求开始的时间获取所有日志
+   */
+  getRecords() {
+    return Object.values(this.reqQueue).sort((a, b) => a.startedAt - b.startedAt);
+  }
+
+  /**
+   * 清空当前实例的日志
+   */
+  clear() {
+    Object.keys(this.reqQueue).forEach(key => {
+      delete this.reqQueue[key];
+    });
+    this.cacheMethod(this.reqQueue);
+  }
+
+  /**
+   * 获取一条日志，没有的话新建一条，超过最大数量时删除最早的
+   * @param key reqUuid
+   */
+  private ensure(key: string) {
+    if (!this.reqQueue[key]) {
+      const keys = Object.keys(this.reqQueue);
+      if (keys.length >= this.maxQueueLength) {
+        // 移除keys里面的第一个
+        delete this.reqQueue[keys[0]];
+      }
+      this.reqQueue[key] = {
+        id: key,
+        startedAt: new Date().getTime(),
+        request: { url: '', method: 'get', headers: {} },
+        retries: [],
+        events: [],
+      };
     }
-    const keys = Object.keys(this.reqQueue);
-    if (keys.length >= this.maxQueueLength) {
-      // 移除keys里面的第一个
-      delete this.reqQueue[keys[0]];
+    return this.reqQueue[key];
+  }
+
+  /**
+   * 更新一条日志并通知存储
+   * @param key reqUuid
+   * @param update 更新方法
+   */
+  private update(key: string | undefined, update: (record: IReqRecord) => void) {
+    if (!key) {
+      return;
     }
-    // 获取下当前的时间戳
-    const now = new Date().getTime();
-    if (!this.reqQueue[key!]) {
-      this.reqQueue[key!] = {};
+    const record = this.ensure(key);
+    update(record);
+    if (this.logger) {
+      // 脱敏后再保存
+      this.reqQueue[key] = this.logger.redact(record);
     }
-    this.reqQueue[key!][now] = data;
     this.cacheMethod(this.reqQueue);
   }
-}
\ No newline at end of file
+
+  /**
+   * 记录请求开始
+   * @param key reqUuid
+   * @param url 请求地址
+   * @param opt 请求配置
+   */
+  start(key: string | undefined, url: string, opt: { method?: string; headers?: any; params?: any } = {}) {
+    this.update(key, record => {
+      record.startedAt = new Date().getTime();
+      record.request = {
+        url,
+        method: (opt.method || 'post').toLowerCase(),
+        headers: normalizeHeaders(opt.headers),
+        body: opt.params,
+      };
+    });
+  }
+
+  /**
+   * 记录实际发出的请求，重试时会覆盖上一次
+   * @param key reqUuid
+   * @param opt 处理后的请求配置
+   */
+  send(key: string | undefined, opt: { url?: string; method?: string; headers?: any; data?: any; body?: any }) {
+    this.update(key, record => {
+      record.sentAt = new Date().getTime();
+      record.request = {
+        url: opt.url || record.request.url,
+        method: (opt.method || record.request.method).toLowerCase(),
+        headers: normalizeHeaders(opt.headers),
+        body: opt.body ?? opt.data,
+      };
+      record.response = undefined;
+      record.error = undefined;
+    });
+  }
+
+  /**
+   * 记录 http 响应
+   * @param key reqUuid
+   * @param response axios、fetch、uni 的响应
+   */
+  response(key: string | undefined, response: any) {
+    this.update(key, record => {
+      record.response = {
+        status: response?.status ?? response?.statusCode ?? 0,
+        statusText: response?.statusText || '',
+        headers: normalizeHeaders(response?.headers || response?.header),
+        data: response?.data,
+        receivedAt: new Date().getTime(),
+      };
+    });
+  }
+
+  /**
+   * 记录解析后的响应数据
+   * @param key reqUuid
+   * @param data 响应数据
+   */
+  data(key: string | undefined, data: any) {
+    this.update(key, record => {
+      if (record.response) {
+        record.response.data = data;
+      } else {
+        // 拦截器直接返回的数据、fetch 等没有记录响应的情况
+        record.response = { status: 200, statusText: '', headers: {}, data, receivedAt: new Date().getTime() };
+      }
+    });
+  }
+
+  /**
+   * 记录请求结束，有 logger 时输出日志
+   * @param key reqUuid
+   */
+  end(key: string | undefined) {
+    this.update(key, record => {
+      record.endedAt = new Date().getTime();
+      record.elapsed = record.endedAt - record.startedAt;
+    });
+    if (key && this.logger && this.reqQueue[key]) {
+      this.logger.write(this.reqQueue[key]);
+    }
+  }
+
+  /**
+   * 记录异常，请求结束
+   * @param key reqUuid
+   * @param error 异常
+   */
+  error(key: string | undefined, error: any) {
+    this.update(key, record => {
+      record.error = toRecordError(error);
+    });
+    this.end(key);
+  }
+
+  /**
+   * 记录重试
+   * @param key reqUuid
+   * @param info 重试信息
+   */
+  retry(key: string | undefined, info: { attempt: number; delay: number; error?: any }) {
+    this.update(key, record => {
+      record.retries.push({
+        attempt: info.attempt,
+        delay: info.delay,
+        error: info.error ? toRecordError(info.error) : undefined,
+      });
+    });
+  }
+
+  /**
+   * 往当前实例添加一条其他数据
+   * @param data
+   * @param key
+   */
+  async add(data: any, key?: string) {
+    if (!key) {
+      key = await cryptoUtils.uuid();
+    }
+    this.update(key, record => {
+      record.events.push({ time: new Date().getTime(), data });
+    });
+  }
+}
@@ -0,0 +1,106 @@
+import binRequest, { createAuth, globalInterceptors, MemoryTokenStorage } from '..';
+import type { IRequestOption } from '..';
+
+type Route = (init: RequestInit) => any;
+
+describe('createAuth', () => {
+  const originalFetch = global.fetch;
+  const storage = new MemoryTokenStorage();
+  const routes: Record<string, Route> = {};
+  const calls: string[] = [];
+  let refreshCount = 0;
+
+  const reply = (body: any, status = 200) => new Response(JSON.stringify(body), { status });
+  const later = (ms: number, value: any) => new Promise(resolve => setTimeout(() => resolve(value), ms));
+
+  const auth = createAuth({
+    storage,
+    refreshToken: async (refreshToken, _error, option) => {
+      refreshCount++;
+      return binRequest('http://localhost/refresh', {
+        ...option,
+        method: 'get',
+        reqEnv: 'fetch',
+        params: { refreshToken },
+      });
+    },
+  });
+
+  const request = (url: string, option: IRequestOption = {}) =>
+    binRequest(`http://localhost${url}`, {
+      method: 'get',
+      reqEnv: 'fetch',
+      ...option,
+    });
+
+  const headerOf = (init: RequestInit) => (init.headers as Record<string, string>)?.Authorization;
+
+  // 注册成全局拦截器，刷新 token 的请求也会经过拦截器
+  let removeInterceptor: () => void;
+  beforeAll(() => {
+    removeInterceptor = globalInterceptors.use(auth.interceptor);
+    global.fetch = jest.fn(async (url: string, init: RequestInit) => {
+      const path = new URL(url).pathname;
+      calls.push(path);
+      return routes[path](init);
+    }) as any;
+  });
+  afterAll(() => {
+    removeInterceptor();
+    global.fetch = originalFetch;
+  });
+
+  beforeEach(async () => {
+    refreshCount = 0;
+    calls.length = 0;
+    Object.keys(routes).forEach(key => delete routes[key]);
+    await auth.setToken('old', 'refresh');
+    routes['/user'] = init => (headerOf(init) === 'new' ? reply({ code: 0, result: '/user' }) : reply({}, 401));
+  });
+
+  it('自动带上 token', async () => {
+    routes['/echo'] = init => reply({ code: 0, result: headerOf(init) });
+    expect(await request('/echo')).toBe('old');
+  });
+
+  it('同时失败的请求只刷新一次，刷新后重新发起', async () => {
+    routes['/refresh'] = () => later(20, reply({ code: 0, result: { token: 'new', refreshToken: 'refresh2' } }));
+    const results = await Promise.all([request('/user'), request('/user'), request('/user')]);
+    expect(results).toEqual(['/user', '/user', '/user']);
+    expect(refreshCount).toBe(1);
+    expect(await storage.getRefreshToken()).toBe('refresh2');
+    expect(calls.filter(path => path === '/refresh')).toHaveLength(1);
+  });
+
+  it('刷新期间发起的请求等刷新结束后带上新的 token', async () => {
+    routes['/refresh'] = () => later(50, reply({ code: 0, result: 'new' }));
+    const first = request('/user');
+    await new Promise(resolve => setTimeout(resolve, 10));
+    const second = request('/user');
+    await expect(Promise.all([first, second])).resolves.toEqual(['/user', '/user']);
+    expect(refreshCount).toBe(1);
+    expect(calls.filter(path => path === '/user')).toHaveLength(3);
+  });
+
+  it('刷新 token 的请求经过拦截器时不会等待自己', async () => {
+    routes['/refresh'] = init => reply({ code: 0, result: headerOf(init) ? 'leaked' : 'new' });
+    await expect(auth.refresh()).resolves.toBe('new');
+    expect(await request('/user')).toBe('/user');
+  });
+
+  it('重新发起的请求仍然 401 时不再刷新', async () => {
+    routes['/refresh'] = () => reply({ code: 0, result: 'other' });
+    await expect(request('/user')).rejects.toMatchObject({ status: 401 });
+    expect(refreshCount).toBe(1);
+  });
+
+  it('刷新失败时清空 token 并抛出原来的异常', async () => {
+    const expired = jest.fn();
+    const off = auth.events.on('authExpired', expired);
+    routes['/refresh'] = () => reply({}, 500);
+    await expect(request('/user')).rejects.toMatchObject({ status: 401 });
+    expect(expired).toHaveBeenCalledTimes(1);
+    expect(await storage.getToken()).toBeUndefined();
+    off();
+  });
+});
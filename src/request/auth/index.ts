@@ -0,0 +1,361 @@
+import { Emitter } from '../emitter';
+import { IInterceptorContext, IRequestInterceptor } from '../interceptors';
+import { IRequestOption } from '../typings';
+
+/**
+ * token 存储，方法可以是同步的也可以是异步的
+ */
+export interface ITokenStorage {
+  getToken(): string | null | undefined | Promise<string | null | undefined>;
+  setToken(token: string): void | Promise<void>;
+  getRefreshToken(): string | null | undefined | Promise<string | null | undefined>;
+  setRefreshToken(token: string): void | Promise<void>;
+  clear(): void | Promise<void>;
+}
+
+type ITokenKeys = {
+  /**
+   * token 的 key，默认 jwtToken
+   */
+  tokenKey?: string;
+  /**
+   * 刷新 token 的 key，默认 refreshToken
+   */
+  refreshTokenKey?: string;
+};
+
+/**
+ * 内存中的 token 存储
+ */
+export class MemoryTokenStorage implements ITokenStorage {
+  private token?: string;
+
+  private refreshToken?: string;
+
+  getToken() {
+    return this.token;
+  }
+
+  setToken(token: string) {
+    this.token = token;
+  }
+
+  getRefreshToken() {
+    return this.refreshToken;
+  }
+
+  setRefreshToken(token: string) {
+    this.refreshToken = token;
+  }
+
+  clear() {
+    this.token = undefined;
+    this.refreshToken = undefined;
+  }
+}
+
+/**
+ * localStorage/sessionStorage 中的 token 存储
+ * <br />
+ * 默认和 requestErrorIntercept 一样使用 jwtToken，读取时 sessionStorage 没有再读 localStorage
+ */
+export class WebTokenStorage implements ITokenStorage {
+  private storage: Storage;
+
+  private tokenKey: string;
+
+  private refreshTokenKey: string;
+
+  constructor(p: ITokenKeys & { storage?: Storage } = {}) {
+    this.storage = p.storage || sessionStorage;
+    this.tokenKey = p.tokenKey || 'jwtToken';
+    this.refreshTokenKey = p.refreshTokenKey || 'refreshToken';
+  }
+
+  private read(key: string) {
+    const value = this.storage.getItem(key);
+    if (value || typeof localStorage === 'undefined' || this.storage === localStorage) {
+      return value;
+    }
+    return localStorage.getItem(key);
+  }
+
+  getToken() {
+    return this.read(this.tokenKey);
+  }
+
+  setToken(token: string) {
+    this.storage.setItem(this.tokenKey, token);
+  }
+
+  getRefreshToken() {
+    return this.read(this.refreshTokenKey);
+  }
+
+  setRefreshToken(token: string) {
+    this.storage.setItem(this.refreshTokenKey, token);
+  }
+
+  clear() {
+    this.storage.removeItem(this.tokenKey);
+    this.storage.removeItem(this.refreshTokenKey);
+  }
+}
+
+/**
+ * uni-app 本地存储中的 token 存储
+ */
+export class UniTokenStorage implements ITokenStorage {
+  private tokenKey: string;
+
+  private refreshTokenKey: string;
+
+  constructor(p: ITokenKeys = {}) {
+    this.tokenKey = p.tokenKey || 'jwtToken';
+    this.refreshTokenKey = p.refreshTokenKey || 'refreshToken';
+  }
+
+  getToken() {
+    return uni.getStorageSync(this.tokenKey) || undefined;
+  }
+
+  setToken(token: string) {
+    uni.setStorageSync(this.tokenKey, token);
+  }
+
+  getRefreshToken() {
+    return uni.getStorageSync(this.refreshTokenKey) || undefined;
+  }
+
+  setRefreshToken(token: string) {
+    uni.setStorageSync(this.refreshTokenKey, token);
+  }
+
+  clear() {
+    uni.removeStorageSync(this.tokenKey);
+    uni.removeStorageSync(this.refreshTokenKey);
+  }
+}
+
+/**
+ * 根据当前环境创建 token 存储，依次使用 sessionStorage、uni 本地存储、内存
+ */
+export const createTokenStorage = (): ITokenStorage => {
+  if (typeof sessionStorage !== 'undefined') {
+    return new WebTokenStorage();
+  }
+  if (typeof uni !== 'undefined' && typeof uni.getStorageSync !== 'undefined') {
+    return new UniTokenStorage();
+  }
+  return new MemoryTokenStorage();
+};
+
+/**
+ * 刷新 token 的结果，返回字符串表示只有 token
+ */
+export type IRefreshResult = string | { token: string; refreshToken?: string };
+
+/**
+ * 认证的事件
+ */
+export type IAuthEvents = {
+  /**
+   * 刷新 token 成功
+   */
+  tokenRefreshed: { token: string };
+  /**
+   * 刷新 token 失败，需要重新登录
+   */
+  authExpired: { error: any; option?: IRequestOption };
+};
+
+/**
+ * 认证配置
+ */
+export interface IAuthOption {
+  /**
+   * token 存储，默认按环境创建
+   */
+  storage?: ITokenStorage;
+  /**
+   * 刷新 token，同一时间只会执行一次
+   * <br />
+   * 刷新的请求需要带上 option（skipAuth），否则拦截器会等待这次刷新结束，刷新永远不会完成
+   * @param refreshToken 存储中的刷新 token
+   * @param error 触发刷新的异常，主动调用 refresh 时没有
+   * @param option 刷新请求需要合并的配置
+   * @example
+   * refreshToken: (token, error, option) => request('/auth/refresh', { ...option, params: { token } })
+   */
+  refreshToken: (
+    refreshToken: string | null | undefined,
+    error: any,
+    option: IRequestOption,
+  ) => Promise<IRefreshResult>;
+  /**
+   * 是否是 token 失效的异常，默认 http 状态码或者业务码为 401
+   */
+  isAuthError?: (error: any) => boolean;
+  /**
+   * token 放在哪个请求头，默认 Authorization
+   */
+  headerName?: string;
+  /**
+   * 设置到请求头前的格式化，比如加上 Bearer 前缀，默认原样设置
+   */
+  formatToken?: (token: string) => string;
+  /**
+   * 哪些请求需要带上 token，默认全部
+   */
+  shouldAuthorize?: (opt: IRequestOption) => boolean;
+  /**
+   * 刷新 token 失败时执行，一般用来跳转登录
+   */
+  onAuthExpired?: (error: any, option?: IRequestOption) => void;
+}
+
+/**
+ * 认证
+ */
+export interface IAuth {
+  /**
+   * token 存储
+   */
+  readonly storage: ITokenStorage;
+  /**
+   * 认证的事件
+   */
+  readonly events: Emitter<IAuthEvents>;
+  /**
+   * 请求拦截器，注册到 globalInterceptors 或者请求客户端
+   */
+  readonly interceptor: IRequestInterceptor;
+  /**
+   * 主动刷新 token，正在刷新时复用同一次刷新
+   */
+  refresh: () => Promise<string>;
+  /**
+   * 登录后保存 token
+   */
+  setToken: (token: string, refreshToken?: string) => Promise<void>;
+  /**
+   * 退出登录，清空 token
+   */
+  logout: () => Promise<void>;
+}
+
+/**
+ * 默认的 token 失效判断
+ * @param error 异常
+ */
+const defaultIsAuthError = (error: any) => error?.status === 401 || Number(error?.code) === 401;
+
+/**
+ * 创建认证，自动带上 token，401 时刷新 token 并重新发起请求
+ * <br />
+ * 同时失败的请求只会刷新一次，刷新期间发起的请求会等刷新结束再发出
+ * @param option 认证配置
+ */
+export const createAuth = (option: IAuthOption): IAuth => {
+  const storage = option.storage || createTokenStorage();
+  const events = new Emitter<IAuthEvents>();
+  const headerName = option.headerName || 'Authorization';
+  const formatToken = option.formatToken || ((token: string) => token);
+  const isAuthError = option.isAuthError || defaultIsAuthError;
+  let refreshing: Promise<string> | undefined;
+
+  const setToken = async (token: string, refreshToken?: string) => {
+    await storage.setToken(token);
+    if (refreshToken) {
+      await storage.setRefreshToken(refreshToken);
+    }
+  };
+
+  const logout = async () => {
+    await storage.clear();
+  };
+
+  const refresh = (error?: any, opt?: IRequestOption) => {
+    if (refreshing) {
+      return refreshing;
+    }
+    refreshing = (async () => {
+      try {
+        const result = await option.refreshToken(await storage.getRefreshToken(), error, { skipAuth: true });
+        const next = typeof result === 'string' ? { token: result } : result;
+        if (!next?.token) {
+          throw error || new Error('刷新 token 失败');
+        }
+        await setToken(next.token, next.refreshToken);
+        events.emit('tokenRefreshed', { token: next.token });
+        return next.token;
+      } catch (e) {
+        await logout();
+        events.emit('authExpired', { error: e, option: opt });
+        if (option.onAuthExpired) {
+          option.onAuthExpired(e, opt);
+        }
+        throw e;
+      } finally {
+        refreshing = undefined;
+      }
+    })();
+    return refreshing;
+  };
+
+  const interceptor: IRequestInterceptor = {
+    name: 'auth',
+    onRequest: async (opt: IRequestOption, ctx: IInterceptorContext) => {
+      // 刷新 token 的请求不能等待自己
+      if (ctx.option.skipAuth || (option.shouldAuthorize && !option.shouldAuthorize(opt))) {
+        return;
+      }
+      // 调用方自己传了 token 就不处理
+      if (ctx.option.headers?.[headerName]) {
+        return;
+      }
+      if (refreshing) {
+        // 正在刷新 token，等刷新结束再发出，刷新失败也照常发出
+        await refreshing.catch(() => undefined);
+      }
+      const token = await storage.getToken();
+      if (token) {
+        opt.headers = { ...opt.headers, [headerName]: formatToken(token) };
+      }
+    },
+    onError: async (error: any, opt: IRequestOption, ctx: IInterceptorContext) => {
+      if (
+        !isAuthError(error) ||
+        ctx.option.skipAuth ||
+        ctx.option.authReplayed ||
+        ctx.option.headers?.[headerName]
+      ) {
+        return undefined;
+      }
+      if (option.shouldAuthorize && !option.shouldAuthorize(opt)) {
+        return undefined;
+      }
+      const token = await storage.getToken();
+      const sent = opt.headers?.[headerName];
+      // 请求发出后 token 已经被其他请求刷新过了，直接重新发起
+      if (!token || !sent || sent === formatToken(token)) {
+        try {
+          await refresh(error, ctx.option);
+        } catch (e) {
+          // 刷新失败时抛出原来的异常
+          throw error;
+        }
+      }
+      return ctx.replay({ authReplayed: true });
+    },
+  };
+
+  return {
+    storage,
+    events,
+    interceptor,
+    refresh: () => refresh(),
+    setToken,
+    logout,
+  };
+};
@@ -0,0 +1,150 @@
+import {
+  BusinessError,
+  createBatchClient,
+  isBusinessError,
+  isCanceledError,
+  isHttpError,
+  MockAdapter,
+  mockReply,
+  RequestError,
+} from '..';
+import type { IBatchEnvelope, IBatchOption } from '..';
+
+describe('createBatchClient', () => {
+  const mock = new MockAdapter();
+  // 每次批量请求的请求体
+  let bodies: any[][] = [];
+
+  const createClient = (option: IBatchOption = {}) =>
+    createBatchClient('/api/rpc', { reqEnv: 'mock', mockAdapter: mock, ...option });
+
+  beforeEach(() => {
+    bodies = [];
+    mock.reset();
+    // 倒序返回结果，按 id 对应到每次调用
+    mock.onPost('/api/rpc', req => {
+      bodies.push(req.data);
+      return req.data
+        .filter((item: any) => item.id !== undefined)
+        .map((item: any) =>
+          item.method === 'fail'
+            ? { jsonrpc: '2.0', id: item.id, error: { code: -32000, message: '余额不足', data: { balance: 0 } } }
+            : { jsonrpc: '2.0', id: item.id, result: { method: item.method, params: item.params } },
+        )
+        .reverse();
+    });
+  });
+
+  it('同一轮事件循环中的调用合并成一次 JSON-RPC 请求，按 id 分发结果', async () => {
+    const rpc = createClient();
+    const results = await Promise.all([rpc.call('user.get', { id: 1 }), rpc.call('role.list'), rpc.call('user.get', [2])]);
+    expect(results).toEqual([
+      { method: 'user.get', params: { id: 1 } },
+      { method: 'role.list' },
+      { method: 'user.get', params: [2] },
+    ]);
+    expect(bodies).toEqual([
+      [
+        { jsonrpc: '2.0', method: 'user.get', params: { id: 1 }, id: 1 },
+        { jsonrpc: '2.0', method: 'role.list', id: 2 },
+        { jsonrpc: '2.0', method: 'user.get', params: [2], id: 3 },
+      ],
+    ]);
+    // id 一直递增
+    await rpc.call('next');
+    expect(bodies[1][0].id).toBe(4);
+  });
+
+  it('超过 maxBatchSize 时拆分成多个请求', async () => {
+    const rpc = createClient({ maxBatchSize: 2 });
+    const methods = ['a', 'b', 'c', 'd', 'e'];
+    const results = await Promise.all(methods.map(method => rpc.call(method)));
+    expect(results.map(item => item.method)).toEqual(methods);
+    expect(bodies.map(body => body.map(item => item.id))).toEqual([[1, 2], [3, 4], [5]]);
+  });
+
+  it('单次调用的错误转换成 BusinessError，不影响其他调用', async () => {
+    const rpc = createClient();
+    const [ok, failed] = await Promise.allSettled([rpc.call('ok'), rpc.call('fail'), rpc.call('other')]);
+    expect(ok).toEqual({ status: 'fulfilled', value: { method: 'ok' } });
+    expect(failed.status).toBe('rejected');
+    const error = (failed as PromiseRejectedResult).reason;
+    expect(error).toBeInstanceOf(BusinessError);
+    expect(error).toMatchObject({ message: '余额不足', code: -32000, url: '/api/rpc', balance: 0 });
+    expect(bodies).toHaveLength(1);
+  });
+
+  it('缺少响应的调用抛出 RequestError', async () => {
+    mock.onPost('/api/rpc', req => [{ id: req.data[0].id, result: 'first' }]);
+    const rpc = createClient();
+    const [first, second] = await Promise.allSettled([rpc.call('a'), rpc.call('b')]);
+    expect(first).toEqual({ status: 'fulfilled', value: 'first' });
+    const error = (second as PromiseRejectedResult).reason;
+    expect(error).toBeInstanceOf(RequestError);
+    expect(error.message).toContain('b');
+  });
+
+  it('整个批量请求失败时所有调用收到同一个异常', async () => {
+    mock.onPost('/api/rpc', { jsonrpc: '2.0', id: null, error: { code: -32600, message: '无效的请求' } });
+    const rpc = createClient();
+    const errors = await Promise.all([rpc.call('a').catch(e => e), rpc.call('b').catch(e => e)]);
+    errors.forEach(error => expect(isBusinessError(error) && error.code).toBe(-32600));
+
+    mock.onPost('/api/rpc', mockReply({ status: 502 }));
+    const [a, b] = await Promise.all([rpc.call('a').catch(e => e), rpc.call('b').catch(e => e)]);
+    expect(isHttpError(a)).toBe(true);
+    expect(a).toBe(b);
+  });
+
+  it('通知不带 id，请求发出后返回 undefined', async () => {
+    const rpc = createClient();
+    const [result] = await Promise.all([rpc.notify('log', { level: 'info' }), rpc.call('a')]);
+    expect(result).toBeUndefined();
+    expect(bodies[0]).toEqual([
+      { jsonrpc: '2.0', method: 'log', params: { level: 'info' } },
+      { jsonrpc: '2.0', method: 'a', id: 1 },
+    ]);
+  });
+
+  it('发出前取消的调用从批量请求中移除', async () => {
+    const rpc = createClient();
+    const controller = new AbortController();
+    const canceled = rpc.call('canceled', undefined, { signal: controller.signal });
+    const kept = rpc.call('kept');
+    controller.abort();
+    expect(isCanceledError(await canceled.catch(e => e))).toBe(true);
+    expect(await kept).toEqual({ method: 'kept' });
+    expect(bodies[0].map(item => item.method)).toEqual(['kept']);
+
+    const aborted = new AbortController();
+    aborted.abort();
+    expect(isCanceledError(await rpc.call('x', undefined, { signal: aborted.signal }).catch(e => e))).toBe(true);
+    expect(bodies).toHaveLength(1);
+  });
+
+  it('wait 时收集一段时间内的调用，flush 立即发出', async () => {
+    const rpc = createClient({ wait: 20 });
+    const first = rpc.call('a');
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const second = rpc.call('b');
+    await Promise.all([first, second]);
+    expect(bodies).toHaveLength(1);
+
+    const third = rpc.call('c');
+    await rpc.flush();
+    expect(await third).toEqual({ method: 'c' });
+    expect(bodies).toHaveLength(2);
+  });
+
+  it('支持自定义批量请求的结构', async () => {
+    const envelope: IBatchEnvelope = {
+      encode: calls => ({ requests: calls.map(call => ({ key: call.id, action: call.method })) }),
+      decode: body => body.responses.map((item: any) => ({ id: item.key, result: item.value })),
+    };
+    mock.onPost('/api/rpc', req => ({
+      responses: req.data.requests.map((item: any) => ({ key: item.key, value: item.action.toUpperCase() })),
+    }));
+    const rpc = createClient({ envelope });
+    expect(await Promise.all([rpc.call('a'), rpc.call('b')])).toEqual(['A', 'B']);
+  });
+});
@@ -0,0 +1,245 @@
+import binRequest from '../binRequest';
+import { createCanceledError } from '../cancel';
+import { BusinessError, RequestError } from '../errors';
+import { IRequestOption } from '../typings';
+
+/**
+ * 批量请求中的一次调用
+ */
+export interface IBatchCall {
+  /**
+   * 调用的方法
+   */
+  method: string;
+  /**
+   * 调用的参数
+   */
+  params?: any;
+  /**
+   * 调用的标识，通知没有
+   */
+  id?: number;
+}
+
+/**
+ * 一次调用的结果
+ */
+export interface IBatchItemResult {
+  id?: number | string | null;
+  result?: any;
+  error?: { code?: number | string; message?: string; data?: any };
+}
+
+/**
+ * 批量请求的结构，可以自定义成后台的格式
+ */
+export interface IBatchEnvelope {
+  /**
+   * 把调用转换成请求体
+   */
+  encode: (calls: IBatchCall[]) => any;
+  /**
+   * 把响应拆分成每次调用的结果
+   */
+  decode: (body: any, calls: IBatchCall[]) => IBatchItemResult[];
+}
+
+/**
+ * JSON-RPC 2.0 的批量请求
+ */
+export const jsonRpcEnvelope: IBatchEnvelope = {
+  encode: calls =>
+    calls.map(call => ({
+      jsonrpc: '2.0',
+      method: call.method,
+      ...(call.params !== undefined ? { params: call.params } : {}),
+      ...(call.id !== undefined ? { id: call.id } : {}),
+    })),
+  decode: (body, calls) => {
+    if (Array.isArray(body)) {
+      return body;
+    }
+    // 整个批量请求失败时后台只返回一个 id 为 null 的错误
+    if (body?.error && (body.id === null || body.id === undefined)) {
+      return calls.map(call => ({ id: call.id, error: body.error }));
+    }
+    return body ? [body] : [];
+  },
+};
+
+/**
+ * 批量请求配置，其余配置会传给合并后的请求
+ */
+export interface IBatchOption extends IRequestOption {
+  /**
+   * 每批最多多少次调用，超过后立即发出，默认20
+   */
+  maxBatchSize?: number;
+  /**
+   * 收集调用的时间（毫秒），默认0，只合并同一轮事件循环中的调用
+   */
+  wait?: number;
+  /**
+   * 批量请求的结构，默认 JSON-RPC 2.0
+   */
+  envelope?: IBatchEnvelope;
+}
+
+/**
+ * 单次调用的配置
+ */
+export interface IBatchCallOption {
+  /**
+   * 取消调用，还没有发出时从批量请求中移除
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * 批量请求客户端
+ */
+export interface IBatchClient {
+  /**
+   * 调用方法，同一批的调用合并成一次请求
+   */
+  call: <T = any>(method: string, params?: any, option?: IBatchCallOption) => Promise<T>;
+  /**
+   * 发送通知，不需要返回值，请求发出后结束
+   */
+  notify: (method: string, params?: any) => Promise<void>;
+  /**
+   * 立即发出收集到的调用
+   */
+  flush: () => Promise<void>;
+}
+
+type IPendingCall = IBatchCall & {
+  resolve: (value: any) => void;
+  reject: (error: any) => void;
+  cleanup: () => void;
+};
+
+/**
+ * 创建批量请求客户端，把短时间内的多次调用合并成一次 binRequest，再把结果分发回每次调用
+ * <br />
+ * 单次调用的错误会转换成 BusinessError，整个请求失败时所有调用都收到同一个异常
+ * @param url 批量请求的地址
+ * @param option 批量请求配置
+ * @example
+ * const rpc = createBatchClient('/api/rpc');
+ * const [user, roles] = await Promise.all([rpc.call('user.get', { id: 1 }), rpc.call('role.list')]);
+ */
+export const createBatchClient = (url: string, option: IBatchOption = {}): IBatchClient => {
+  const { maxBatchSize = 20, wait = 0, envelope = jsonRpcEnvelope, ...requestOption } = option;
+  let pending: IPendingCall[] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let scheduled = false;
+  let nextId = 1;
+
+  const send = async (calls: IPendingCall[]) => {
+    if (calls.length === 0) {
+      return;
+    }
+    calls.forEach(call => call.cleanup());
+    let results: IBatchItemResult[];
+    try {
+      const body = await binRequest(url, {
+        ...requestOption,
+        method: 'post',
+        manner: 'json',
+        params: envelope.encode(calls.map(({ method, params, id }) => ({ method, params, id }))),
+        // 批量请求的响应不是业务结构，交给 envelope 解析
+        protocol: { success: () => true, dataPath: '' },
+      });
+      results = envelope.decode(body, calls);
+    } catch (e) {
+      calls.forEach(call => call.reject(e));
+      return;
+    }
+    const resultMap = new Map<string, IBatchItemResult>();
+    results.forEach(item => {
+      if (item && item.id !== undefined && item.id !== null) {
+        resultMap.set(String(item.id), item);
+      }
+    });
+    calls.forEach(call => {
+      if (call.id === undefined) {
+        call.resolve(undefined);
+        return;
+      }
+      const item = resultMap.get(String(call.id));
+      if (!item) {
+        call.reject(new RequestError(`批量请求缺少 ${call.method} 的响应`, { url, method: 'post' }));
+      } else if (item.error) {
+        call.reject(
+          new BusinessError(item.error.message || '请求失败', {
+            code: item.error.code,
+            url,
+            method: 'post',
+            data: item.error.data,
+          }),
+        );
+      } else {
+        call.resolve(item.result);
+      }
+    });
+  };
+
+  const flush = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = undefined;
+    }
+    scheduled = false;
+    const calls = pending;
+    pending = [];
+    const batches: IPendingCall[][] = [];
+    for (let i = 0; i < calls.length; i += maxBatchSize) {
+      batches.push(calls.slice(i, i + maxBatchSize));
+    }
+    return Promise.all(batches.map(send)).then(() => undefined);
+  };
+
+  const schedule = () => {
+    if (pending.length >= maxBatchSize) {
+      flush();
+      return;
+    }
+    if (scheduled) {
+      return;
+    }
+    scheduled = true;
+    if (wait > 0) {
+      timer = setTimeout(flush, wait);
+    } else {
+      Promise.resolve().then(flush);
+    }
+  };
+
+  const enqueue = (call: IBatchCall, signal?: AbortSignal) =>
+    new Promise<any>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(createCanceledError(url));
+        return;
+      }
+      const onAbort = () => {
+        pending = pending.filter(item => item !== pendingCall);
+        reject(createCanceledError(url));
+      };
+      const pendingCall: IPendingCall = {
+        ...call,
+        resolve,
+        reject,
+        cleanup: () => signal?.removeEventListener('abort', onAbort),
+      };
+      signal?.addEventListener('abort', onAbort);
+      pending.push(pendingCall);
+      schedule();
+    });
+
+  return {
+    call: (method, params, callOption = {}) => enqueue({ method, params, id: nextId++ }, callOption.signal),
+    notify: (method, params) => enqueue({ method, params }),
+    flush,
+  };
+};
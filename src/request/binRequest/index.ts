@@ -0,0 +1,438 @@
+import { ICacheData, ICallBack, IErrorHandler, IRequestOption } from '../typings';
+import {
+  buildCacheKey,
+  buildFetchInit,
+  generateFetchRequest,
+  getRequestUtils,
+  joinBaseURL,
+  requestErrorIntercept,
+  responseErrorIntercept,
+} from '../httpUtils';
+import ReqQueue from '../ReqQueue';
+import { sendWithRetry } from '../retry';
+import { buildDedupeKey, dedupeRequest } from '../dedupe';
+import { resolveCacheStore } from '../cacheStore';
+import { isStale, revalidateInBackground } from '../swr';
+import { createCanceledError, isAbortError, isCancelError, linkAbortSignal, registerCancel } from '../cancel';
+import {
+  getInterceptors,
+  IInterceptorContext,
+  ISyntheticResponse,
+  runErrorInterceptors,
+  runRequestInterceptors,
+  runResponseInterceptors,
+} from '../interceptors';
+import { readNdjson } from '../stream';
+import { HttpError, TimeoutError, toRequestError } from '../errors';
+import { createMetricTracker } from '../metrics';
+import { acquireRateLimit } from '../rateLimit';
+import cryptoUtils from '../../core/cryptoUtils';
+
+/**
+ * 状态码检测
+ * @param response 返回值
+ * @param opt 请求配置
+ * @return {*}
+ */
+export const checkStatus = async (response: any, opt: IRequestOption) => {
+  if (opt.cacheLog && !opt.isFile) {
+    // 存储下日志
+    ReqQueue.from(opt).response(opt.reqUuid, response);
+  }
+  if (response.status >= 200 && response.status < 300) {
+    // 如果是浏览器，并且没有指定fetch，就返回data
+    if (opt.reqEnv !== 'fetch' && opt.reqEnv !== 'rn') {
+      return response.data;
+    }
+    // fetch 下载文件时返回 blob
+    return opt.isFile ? response.blob() : response.json();
+  }
+  // 请求异常
+  return Promise.reject(
+    new HttpError(response.status, {
+      message: response.data?.msg,
+      url: response.url || opt.url,
+      method: opt.method,
+      reqUuid: opt.reqUuid,
+      response,
+      data: response.data,
+    }),
+  );
+};
+
+const binRequest = async (
+  url: string,
+  option: IRequestOption = {},
+  errorHandler?: IErrorHandler,
+  callback?: ICallBack,
+): Promise<any> => {
+  // 相同的请求共用一个进行中的请求
+  if (option.dedupe && option.reqType !== 'sse' && option.reqType !== 'ndjson' && url.length > 0) {
+    const dedupeKey = buildDedupeKey(joinBaseURL(option.baseURL, url), option);
+    // 调用方的 signal 和 tag 由 dedupeRequest 处理，所有调用方都取消后才中断请求
+    return dedupeRequest(
+      dedupeKey,
+      signal => binRequest(url, { ...option, dedupe: false, signal, tag: undefined }, errorHandler, callback),
+      { signal: option.signal, tag: option.tag, url },
+    );
+  }
+  // 判断是否开启了日志
+  if (option.logger) {
+    option.cacheLog = true;
+  }
+  if (option.cacheLog) {
+    option.reqUuid = await cryptoUtils.uuid();
+    // 存储下日志
+    ReqQueue.from(option).start(option.reqUuid, joinBaseURL(option.baseURL, url), option);
+  }
+  // 地址拦截
+  if (url.length === 0) {
+    return Promise.reject(new Error('无效的请求地址'));
+  }
+  const rawUrl = url;
+  const startTime = Date.now();
+  url = joinBaseURL(option.baseURL, url);
+  const metric = createMetricTracker(url, option, startTime);
+  // 如果开启了缓存
+  if (option.cacheData || option.swr) {
+    option.cacheData = true;
+    const cacheKey = buildCacheKey(url, option.params);
+    option.cacheKey = cacheKey;
+    // 拿到缓存的数据
+    const cacheStore = resolveCacheStore(option.cacheStore);
+    const cacheData: ICacheData | undefined = option.forceRefresh ? undefined : await cacheStore.get(cacheKey);
+    // 判断是否有效
+    if (cacheData && new Date().getTime() < cacheData.expires) {
+      // 有效
+      metric.finish({ data: cacheData.data, cacheHit: true });
+      return cacheData.data;
+    }
+    if (cacheData && option.swr && isStale(cacheData)) {
+      // 过期了但是还在可以使用的时间内，先返回旧数据，再在后台刷新
+      // 刷新按 cacheKey 共用，不跟随当前调用方取消
+      const refreshOption: IRequestOption & { cancelToken?: unknown } = {
+        ...option,
+        signal: undefined,
+        tag: undefined,
+        cancelToken: undefined,
+        forceRefresh: true,
+        cacheLog: false,
+        priority: option.priority ?? 'low',
+      };
+      revalidateInBackground(cacheKey, option, () => binRequest(rawUrl, refreshOption, undefined, callback));
+      metric.finish({ data: cacheData.data, cacheHit: true });
+      return cacheData.data;
+    }
+    if (cacheData) {
+      // 过期的直接删掉
+      await cacheStore.remove(cacheKey);
+    }
+  }
+  const requestUtil: any = getRequestUtils(option);
+  // 判断是否外部接口
+  if (option.isExternal) {
+    const release = await acquireRateLimit(url, option, option.signal);
+    metric.send(option);
+    return requestUtil(url, option as any)
+      .then((resJson: any) => {
+        metric.receive(resJson);
+        metric.finish({ data: resJson });
+        if (callback) {
+          return callback(resJson);
+        }
+        return resJson;
+      })
+      .catch((e: any) => {
+        metric.finish({ error: e });
+        return Promise.reject(e);
+      })
+      .finally(release);
+  }
+  // 检查参数
+  let newOptions = requestErrorIntercept(url, option);
+  const interceptors = getInterceptors(option);
+  const context: IInterceptorContext = {
+    url,
+    option,
+    // 重新发起的请求失败时交给当前请求处理，避免 errorHandler 执行两次
+    replay: override => binRequest(rawUrl, { ...option, ...override }, undefined, callback),
+  };
+  // 调用方传入的 signal 和按标签取消都会中断请求
+  const cancelController = typeof AbortController !== 'undefined' ? new AbortController() : undefined;
+  const disposeCancel: (() => void)[] = [];
+  if (cancelController) {
+    disposeCancel.push(linkAbortSignal(option.signal, cancelController));
+    disposeCancel.push(registerCancel(option.tag, cancelController));
+  }
+  const dispose = () => disposeCancel.forEach(item => item());
+
+  /**
+   * 异常处理
+   * @param e 异常
+   */
+  const handleError = async (error: any) => {
+    dispose();
+    // 统一转换成请求异常，补充请求信息
+    let e: any = toRequestError(error, {
+      url,
+      method: newOptions.method,
+      reqUuid: option.reqUuid,
+      elapsed: Date.now() - startTime,
+    });
+    if (isCancelError(e)) {
+      // 主动取消的请求不走异常处理方法
+      if (option.cacheLog) {
+        ReqQueue.from(option).error(option.reqUuid, e);
+      }
+      metric.finish({ error: e });
+      return Promise.reject(e);
+    }
+    // 异常拦截器可以恢复请求
+    const intercepted = await runErrorInterceptors(interceptors, e, newOptions, context);
+    if (intercepted.recovered) {
+      if (option.cacheLog) {
+        ReqQueue.from(option).end(option.reqUuid);
+      }
+      metric.finish({ data: intercepted.value });
+      return intercepted.value;
+    }
+    e = intercepted.error;
+    if (option.cacheLog) {
+      // 存储下日志
+      ReqQueue.from(option).error(option.reqUuid, e);
+    }
+    metric.finish({ error: e });
+    if (errorHandler) {
+      errorHandler(e, newOptions);
+      if (!newOptions.errorContinue) {
+        return Promise.reject(e);
+      }
+      return { code: 0 };
+    }
+    return Promise.reject(e);
+  };
+
+  // 请求拦截器
+  let synthetic: ISyntheticResponse | undefined;
+  try {
+    const intercepted = await runRequestInterceptors(interceptors, newOptions, context);
+    newOptions = intercepted.option;
+    synthetic = intercepted.synthetic;
+  } catch (e) {
+    return handleError(e);
+  }
+  if (option.reqType === 'sse') {
+    dispose();
+    if (synthetic) {
+      metric.finish({ data: synthetic.data });
+      return synthetic.data;
+    }
+    try {
+      const fetchObj = {
+        method: newOptions.method,
+        headers: newOptions.headers,
+        body: JSON.stringify(newOptions.data),
+        signal: option.signal,
+      };
+      const originalFetch = generateFetchRequest();
+      metric.send(newOptions);
+      const response = await originalFetch(newOptions.url!, fetchObj as any);
+      metric.receive(response);
+      // 流式响应的指标记录到收到响应为止
+      metric.finish({});
+      const decoder = new TextDecoder('utf-8');
+      const encoder = new TextEncoder();
+      const reader = response.body?.getReader();
+      if (reader) {
+        const readableStream = new ReadableStream({
+          async start(controller) {
+            function push() {
+              reader!.read().then(({ done, value }: any) => {
+                if (done) {
+                  controller.close();
+                  return;
+                }
+                const chunk = decoder.decode(value, { stream: true });
+                controller.enqueue(encoder.encode(chunk));
+                push();
+              }).catch((err: any) => controller.error(err));
+            }
+            push();
+          },
+        });
+        return new Response(readableStream);
+      }
+      return Error('无效的reader');
+    } catch (e) {
+      metric.finish({ error: e });
+      // 抛出异常
+      return Promise.reject(e);
+    }
+  }
+  if (option.reqType === 'ndjson') {
+    if (synthetic) {
+      dispose();
+      metric.finish({ data: synthetic.data });
+      return synthetic.data;
+    }
+    let release: (() => void) | undefined;
+    const releaseLimit = () => {
+      release?.();
+      release = undefined;
+    };
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let timedOut = false;
+    try {
+      release = await acquireRateLimit(url, newOptions, cancelController?.signal);
+      // 超时只计算到收到响应，读取流的时间不限制
+      const controller = cancelController && new AbortController();
+      if (controller) {
+        linkAbortSignal(cancelController!.signal, controller);
+        timer = setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, newOptions.timeout);
+      }
+      if (option.cacheLog) {
+        ReqQueue.from(option).send(option.reqUuid, newOptions);
+      }
+      metric.send(newOptions);
+      const originalFetch = generateFetchRequest();
+      const response: Response = await originalFetch(newOptions.url!, buildFetchInit(newOptions, controller?.signal));
+      clearTimeout(timer);
+      // 限流只计算到收到响应，不读取的流不会一直占用并发数
+      releaseLimit();
+      metric.receive(response);
+      if (option.cacheLog) {
+        ReqQueue.from(option).response(option.reqUuid, response);
+      }
+      if (response.status < 200 || response.status >= 300) {
+        return handleError(
+          new HttpError(response.status, {
+            url: response.url || url,
+            method: newOptions.method,
+            reqUuid: option.reqUuid,
+            response,
+          }),
+        );
+      }
+      // 不读取时不占用取消的注册，开始读取后再注册，读取结束或者中途退出时释放
+      dispose();
+      return (async function* () {
+        const relink = cancelController
+          ? [linkAbortSignal(option.signal, cancelController), registerCancel(option.tag, cancelController)]
+          : [];
+        try {
+          if (cancelController?.signal.aborted) {
+            throw createCanceledError(url);
+          }
+          yield* readNdjson(response);
+          if (option.cacheLog) {
+            ReqQueue.from(option).end(option.reqUuid);
+          }
+          metric.finish({});
+        } catch (e) {
+          const error = cancelController?.signal.aborted ? createCanceledError(url) : e;
+          if (option.cacheLog) {
+            ReqQueue.from(option).error(option.reqUuid, error);
+          }
+          metric.finish({ error });
+          throw error;
+        } finally {
+          relink.forEach(item => item());
+        }
+      })();
+    } catch (e) {
+      clearTimeout(timer);
+      releaseLimit();
+      if (cancelController?.signal.aborted) {
+        return handleError(createCanceledError(url));
+      }
+      return handleError(timedOut && isAbortError(e) ? new TimeoutError({ url, cause: e }) : e);
+    }
+  }
+  /**
+   * 发送一次请求
+   */
+  const sendOnce = async (): Promise<{ resJson: any; res?: any }> => {
+    if (!cancelController) {
+      const release = await acquireRateLimit(url, newOptions);
+      try {
+        metric.send(newOptions);
+        const res = await requestUtil(newOptions.url!, newOptions as any);
+        metric.receive(res);
+        return { resJson: await checkStatus(res, newOptions), res };
+      } finally {
+        release();
+      }
+    }
+    if (cancelController.signal.aborted) {
+      throw createCanceledError(url);
+    }
+    // 限流排队的时间不计入超时
+    const release = await acquireRateLimit(url, newOptions, cancelController.signal);
+    // 每次请求单独计算超时，和取消的 signal 合并
+    const controller = new AbortController();
+    const unlink = linkAbortSignal(cancelController.signal, controller);
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, newOptions.timeout);
+    newOptions.signal = controller.signal;
+    if (option.cacheLog) {
+      ReqQueue.from(option).send(option.reqUuid, newOptions);
+    }
+    metric.send(newOptions);
+    try {
+      const res = await requestUtil(newOptions.url!, newOptions as any);
+      metric.receive(res);
+      // 先对请求状态码进行检查
+      return { resJson: await checkStatus(res, newOptions), res };
+    } catch (e: any) {
+      if (cancelController.signal.aborted) {
+        throw createCanceledError(url);
+      }
+      if (timedOut && isAbortError(e)) {
+        throw new TimeoutError({ url, cause: e });
+      }
+      throw e;
+    } finally {
+      clearTimeout(timer);
+      unlink();
+      release();
+    }
+  };
+  const sendRequest: Promise<{ resJson: any; res?: any }> = synthetic
+    ? Promise.resolve({ resJson: synthetic.data })
+    : sendWithRetry(
+      sendOnce,
+      newOptions,
+      info => {
+        if (option.cacheLog) {
+          // 每次重试都记录到同一个 reqUuid 下
+          ReqQueue.from(option).retry(option.reqUuid, info);
+        }
+      },
+      cancelController?.signal,
+    );
+  return (
+    sendRequest
+      // 响应拦截器
+      .then(({ resJson, res }) => runResponseInterceptors(interceptors, resJson, newOptions, res))
+      // 检查响应数据
+      .then((resJson: any) => responseErrorIntercept(resJson, newOptions, url, callback))
+      // 返回值处理
+      .then((data: any) => {
+        dispose();
+        if (option.cacheLog) {
+          ReqQueue.from(option).end(option.reqUuid);
+        }
+        metric.finish({ data });
+        return newOptions.resProcess ? newOptions.resProcess(data) : data;
+      })
+      .catch(handleError)
+  );
+};
+
+export default binRequest;
@@ -0,0 +1,140 @@
+import { clearCache, invalidateCache, MemoryCacheStore, WebStorageCacheStore } from '..';
+import type { ICacheData } from '..';
+
+/**
+ * 内存实现的 Storage
+ */
+class FakeStorage implements Storage {
+  private items = new Map<string, string>();
+
+  get length() {
+    return this.items.size;
+  }
+
+  key(index: number) {
+    return [...this.items.keys()][index] ?? null;
+  }
+
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+
+  clear() {
+    this.items.clear();
+  }
+}
+
+const entry = (data: any): ICacheData => ({ expires: 0, data });
+
+describe('MemoryCacheStore', () => {
+  it('超过 maxEntries 时淘汰最久没有使用的', () => {
+    const store = new MemoryCacheStore({ maxEntries: 2 });
+    store.set('a', entry(1));
+    store.set('b', entry(2));
+    // 读取后 a 变成最近使用的
+    expect(store.get('a')).toEqual(entry(1));
+    store.set('c', entry(3));
+    expect(store.keys()).toEqual(['a', 'c']);
+    expect(store.get('b')).toBeUndefined();
+    // 覆盖已有的 key 不会淘汰其他数据
+    store.set('a', entry(4));
+    expect(store.keys()).toEqual(['c', 'a']);
+  });
+
+  it('超过 maxBytes 时按字节淘汰，单条超过限制时不缓存', () => {
+    const size = JSON.stringify(entry('xxxx')).length * 2;
+    const store = new MemoryCacheStore({ maxBytes: size * 2 });
+    store.set('a', entry('xxxx'));
+    store.set('b', entry('yyyy'));
+    expect(store.keys()).toEqual(['a', 'b']);
+    store.set('c', entry('zzzz'));
+    expect(store.keys()).toEqual(['b', 'c']);
+    // 删除后释放占用的字节
+    store.remove('b');
+    store.set('d', entry('dddd'));
+    expect(store.keys()).toEqual(['c', 'd']);
+
+    store.set('big', entry('x'.repeat(size)));
+    expect(store.get('big')).toBeUndefined();
+    expect(store.keys()).toEqual(['c', 'd']);
+    store.clear();
+    expect(store.keys()).toEqual([]);
+  });
+});
+
+describe('WebStorageCacheStore', () => {
+  it('key 加上前缀，clear 只清除自己前缀的数据', () => {
+    const storage = new FakeStorage();
+    storage.setItem('other', 'keep');
+    const store = new WebStorageCacheStore(storage);
+    const custom = new WebStorageCacheStore(storage, 'custom:');
+    store.set('a', entry(1));
+    custom.set('a', entry(2));
+    expect(storage.getItem('binCache:a')).toBe(JSON.stringify(entry(1)));
+    expect(store.get('a')).toEqual(entry(1));
+    expect(custom.get('a')).toEqual(entry(2));
+    expect(store.keys()).toEqual(['a']);
+
+    store.clear();
+    expect(store.get('a')).toBeUndefined();
+    expect(custom.keys()).toEqual(['a']);
+    expect(storage.getItem('other')).toBe('keep');
+  });
+
+  it('无法解析的数据返回 undefined，存储空间满了时不缓存', () => {
+    const storage = new FakeStorage();
+    const store = new WebStorageCacheStore(storage);
+    storage.setItem('binCache:broken', '{');
+    expect(store.get('broken')).toBeUndefined();
+    jest.spyOn(storage, 'setItem').mockImplementation(() => {
+      throw new Error('QuotaExceededError');
+    });
+    expect(() => store.set('a', entry(1))).not.toThrow();
+    expect(store.get('a')).toBeUndefined();
+  });
+});
+
+describe('invalidateCache', () => {
+  const keys = ['/api/user{"id":1}', '/api/user{"id":2}', '/api/order{"id":1}'];
+
+  const createStore = () => {
+    const store = new MemoryCacheStore();
+    keys.forEach(key => store.set(key, entry(key)));
+    return store;
+  };
+
+  it('按字符串包含、正则、方法删除匹配的缓存', async () => {
+    const store = createStore();
+    await invalidateCache('/api/user', store);
+    expect(store.keys()).toEqual(['/api/order{"id":1}']);
+
+    const regexpStore = createStore();
+    await invalidateCache(/"id":1\}$/, regexpStore);
+    expect(regexpStore.keys()).toEqual(['/api/user{"id":2}']);
+
+    const fnStore = createStore();
+    await invalidateCache(key => key.startsWith('/api/order'), fnStore);
+    expect(fnStore.keys()).toEqual(['/api/user{"id":1}', '/api/user{"id":2}']);
+  });
+
+  it('只处理传入的存储，clearCache 清空存储', async () => {
+    const store = createStore();
+    const web = new WebStorageCacheStore(new FakeStorage());
+    keys.forEach(key => web.set(key, entry(key)));
+    await invalidateCache('/api/order', web);
+    expect(web.keys()).toEqual(['/api/user{"id":1}', '/api/user{"id":2}']);
+    expect(store.keys()).toEqual(keys);
+
+    await clearCache(web);
+    expect(web.keys()).toEqual([]);
+    expect(store.keys()).toEqual(keys);
+  });
+});
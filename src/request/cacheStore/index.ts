@@ -0,0 +1,278 @@
+import { ICacheData } from '../typings';
+
+/**
+ * 缓存存储，方法可以是同步的也可以是异步的
+ */
+export interface ICacheStore {
+  get(key: string): ICacheData | undefined | Promise<ICacheData | undefined>;
+  set(key: string, value: ICacheData): void | Promise<void>;
+  remove(key: string): void | Promise<void>;
+  keys(): string[] | Promise<string[]>;
+  clear(): void | Promise<void>;
+}
+
+/**
+ * 内置的缓存存储类型
+ */
+export type ICacheStoreType = 'memory' | 'local' | 'session' | 'uni';
+
+/**
+ * 匹配缓存key的规则
+ */
+export type ICachePattern = string | RegExp | ((key: string) => boolean);
+
+type IMemoryCacheStoreInit = {
+  /**
+   * 最多缓存多少条，默认100
+   */
+  maxEntries?: number;
+  /**
+   * 最多占用多少字节，按 JSON 字符串长度估算，默认不限制
+   */
+  maxBytes?: number;
+};
+
+/**
+ * 内存缓存，超过限制时淘汰最久没有使用的数据
+ */
+export class MemoryCacheStore implements ICacheStore {
+  private cache = new Map<string, { value: ICacheData; size: number }>();
+
+  private bytes = 0;
+
+  private maxEntries: number;
+
+  private maxBytes: number;
+
+  constructor(p: IMemoryCacheStoreInit = {}) {
+    this.maxEntries = p.maxEntries || 100;
+    this.maxBytes = p.maxBytes || Infinity;
+  }
+
+  get(key: string) {
+    const item = this.cache.get(key);
+    if (!item) {
+      return undefined;
+    }
+    // 重新插入，保证最近使用的在最后面
+    this.cache.delete(key);
+    this.cache.set(key, item);
+    return item.value;
+  }
+
+  set(key: string, value: ICacheData) {
+    this.remove(key);
+    const size = (JSON.stringify(value) || '').length * 2;
+    if (size > this.maxBytes) {
+      return;
+    }
+    this.cache.set(key, { value, size });
+    this.bytes += size;
+    // 淘汰最久没有使用的
+    while (this.cache.size > this.maxEntries || this.bytes > this.maxBytes) {
+      const oldest = this.cache.keys().next().value;
+      if (typeof oldest === 'undefined') {
+        break;
+      }
+      this.remove(oldest);
+    }
+  }
+
+  remove(key: string) {
+    const item = this.cache.get(key);
+    if (item) {
+      this.bytes -= item.size;
+      this.cache.delete(key);
+    }
+  }
+
+  keys() {
+    return [...this.cache.keys()];
+  }
+
+  clear() {
+    this.cache.clear();
+    this.bytes = 0;
+  }
+}
+
+/**
+ * localStorage/sessionStorage 缓存，key 会加上前缀，避免影响其他数据
+ */
+export class WebStorageCacheStore implements ICacheStore {
+  constructor(private storage: Storage, private prefix = 'binCache:') { }
+
+  get(key: string) {
+    const value = this.storage.getItem(this.prefix + key);
+    if (!value) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(value) as ICacheData;
+    } catch (e) {
+      return undefined;
+    }
+  }
+
+  set(key: string, value: ICacheData) {
+    try {
+      this.storage.setItem(this.prefix + key, JSON.stringify(value));
+    } catch (e) {
+      // 存储空间满了就不缓存了
+    }
+  }
+
+  remove(key: string) {
+    this.storage.removeItem(this.prefix + key);
+  }
+
+  keys() {
+    const keys: string[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (key && key.startsWith(this.prefix)) {
+        keys.push(key.slice(this.prefix.length));
+      }
+    }
+    return keys;
+  }
+
+  clear() {
+    this.keys().forEach(key => this.remove(key));
+  }
+}
+
+/**
+ * uni-app 本地存储缓存
+ */
+export class UniStorageCacheStore implements ICacheStore {
+  constructor(private prefix = 'binCache:') { }
+
+  get(key: string) {
+    const value = uni.getStorageSync(this.prefix + key);
+    return value ? (value as ICacheData) : undefined;
+  }
+
+  set(key: string, value: ICacheData) {
+    return new Promise<void>(resolve => {
+      uni.setStorage({
+        key: this.prefix + key,
+        data: value,
+        complete: () => resolve(),
+      });
+    });
+  }
+
+  remove(key: string) {
+    uni.removeStorageSync(this.prefix + key);
+  }
+
+  keys() {
+    return uni
+      .getStorageInfoSync()
+      .keys.filter(key => key.startsWith(this.prefix))
+      .map(key => key.slice(this.prefix.length));
+  }
+
+  clear() {
+    this.keys().forEach(key => this.remove(key));
+  }
+}
+
+// 内置的缓存存储，按需创建
+const builtinStores: Partial<Record<ICacheStoreType, ICacheStore>> = {};
+
+/**
+ * 获取内置的缓存存储，当前环境不支持时返回 undefined
+ * @param type 存储类型
+ */
+export const getBuiltinCacheStore = (type: ICacheStoreType): ICacheStore | undefined => {
+  if (builtinStores[type]) {
+    return builtinStores[type];
+  }
+  let store: ICacheStore | undefined;
+  if (type === 'memory') {
+    store = new MemoryCacheStore();
+  } else if (type === 'local' && typeof localStorage !== 'undefined') {
+    store = new WebStorageCacheStore(localStorage);
+  } else if (type === 'session' && typeof sessionStorage !== 'undefined') {
+    store = new WebStorageCacheStore(sessionStorage);
+  } else if (type === 'uni' && typeof uni !== 'undefined' && typeof uni.getStorageSync !== 'undefined') {
+    store = new UniStorageCacheStore();
+  }
+  builtinStores[type] = store;
+  return store;
+};
+
+/**
+ * 获取请求使用的缓存存储
+ * <br />
+ * 不传时依次使用 sessionStorage、uni 本地存储、内存
+ * @param cacheStore 缓存存储或者内置的存储类型
+ */
+export const resolveCacheStore = (cacheStore?: ICacheStore | ICacheStoreType): ICacheStore => {
+  if (cacheStore && typeof cacheStore === 'object') {
+    return cacheStore;
+  }
+  if (cacheStore) {
+    return getBuiltinCacheStore(cacheStore) || getBuiltinCacheStore('memory')!;
+  }
+  return (
+    getBuiltinCacheStore('session') ||
+    getBuiltinCacheStore('uni') ||
+    getBuiltinCacheStore('memory')!
+  );
+};
+
+/**
+ * 判断 key 是否匹配
+ * @param key 缓存的key
+ * @param pattern 匹配规则，字符串为包含关系
+ */
+const matchPattern = (key: string, pattern: ICachePattern) => {
+  if (typeof pattern === 'function') {
+    return pattern(key);
+  }
+  if (pattern instanceof RegExp) {
+    return pattern.test(key);
+  }
+  return key.includes(pattern);
+};
+
+/**
+ * 获取需要处理的缓存存储，不传则是当前环境支持的所有内置存储
+ * @param cacheStore 缓存存储
+ */
+const getTargetStores = (cacheStore?: ICacheStore | ICacheStoreType) => {
+  if (cacheStore) {
+    return [resolveCacheStore(cacheStore)];
+  }
+  const types: ICacheStoreType[] = ['memory', 'local', 'session', 'uni'];
+  return types.map(getBuiltinCacheStore).filter(Boolean) as ICacheStore[];
+};
+
+/**
+ * 删除匹配的缓存，缓存的key是请求地址加上参数，修改数据后可以用来清除相关的查询缓存
+ * @param pattern 匹配规则
+ * @param cacheStore 缓存存储，不传则处理所有内置存储
+ */
+export const invalidateCache = async (pattern: ICachePattern, cacheStore?: ICacheStore | ICacheStoreType) => {
+  for (const store of getTargetStores(cacheStore)) {
+    const keys = await store.keys();
+    for (const key of keys) {
+      if (matchPattern(key, pattern)) {
+        await store.remove(key);
+      }
+    }
+  }
+};
+
+/**
+ * 清空缓存
+ * @param cacheStore 缓存存储，不传则清空所有内置存储
+ */
+export const clearCache = async (cacheStore?: ICacheStore | ICacheStoreType) => {
+  for (const store of getTargetStores(cacheStore)) {
+    await store.clear();
+  }
+};
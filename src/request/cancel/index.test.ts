@@ -0,0 +1,112 @@
+import binRequest, { abortAll, createCancelToken, getInflightCount, isCancelError } from '..';
+import type { IRequestOption } from '..';
+
+describe('cancel', () => {
+  const originalFetch = global.fetch;
+  const fetchMock = jest.fn();
+  const request = (option: IRequestOption = {}) =>
+    binRequest('http://localhost/cancel', { method: 'get', reqEnv: 'fetch', ...option });
+
+  // 100ms 后返回，中断时和原生 fetch 一样抛出 AbortError
+  const delayedReply = (_url: string, init: RequestInit) =>
+    new Promise((resolve, reject) => {
+      const timer = setTimeout(() => resolve(new Response(JSON.stringify({ code: 0, result: 'ok' }))), 100);
+      init.signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new DOMException('The operation was aborted.', 'AbortError'));
+      });
+    });
+
+  beforeAll(() => {
+    global.fetch = fetchMock;
+  });
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    fetchMock.mockImplementation(delayedReply);
+  });
+
+  it('通过 signal 取消请求', async () => {
+    const token = createCancelToken();
+    const promise = request({ signal: token.signal });
+    setTimeout(() => token.cancel(), 10);
+    const error = await promise.catch(e => e);
+    expect(isCancelError(error)).toBe(true);
+    expect(error.url).toContain('/cancel');
+  });
+
+  it('signal 已经中断时不发出请求', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(request({ signal: controller.signal })).rejects.toMatchObject({ code: 'ERR_CANCELED' });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('按标签取消请求', async () => {
+    const page = request({ tag: 'page' });
+    const list = request({ tag: ['page', 'list'] });
+    const other = request({ tag: 'other' });
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(abortAll('page')).toBe(2);
+    await expect(page).rejects.toMatchObject({ code: 'ERR_CANCELED' });
+    await expect(list).rejects.toMatchObject({ code: 'ERR_CANCELED' });
+    await expect(other).resolves.toBe('ok');
+  });
+
+  it('请求结束后移除标签的登记', async () => {
+    await request({ tag: 'done' });
+    expect(abortAll('done')).toBe(0);
+  });
+
+  it('不传标签时取消所有带标签的请求', async () => {
+    const tagged = request({ tag: 'a' });
+    const untagged = request();
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(abortAll()).toBe(1);
+    await expect(tagged).rejects.toMatchObject({ code: 'ERR_CANCELED' });
+    await expect(untagged).resolves.toBe('ok');
+  });
+
+  it('等待重试期间取消立即结束', async () => {
+    fetchMock.mockImplementation(async () => new Response('{}', { status: 503 }));
+    const controller = new AbortController();
+    const start = Date.now();
+    const promise = request({ signal: controller.signal, retry: { delay: 5000, jitter: false } });
+    setTimeout(() => controller.abort(), 20);
+    await expect(promise).rejects.toMatchObject({ code: 'ERR_CANCELED' });
+    expect(Date.now() - start).toBeLessThan(1000);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('合并的请求中一个调用方取消不影响其他调用方', async () => {
+    const controller = new AbortController();
+    const canceled = request({ dedupe: true, signal: controller.signal });
+    const tagged = request({ dedupe: true, tag: 'dedupe' });
+    const other = request({ dedupe: true });
+    controller.abort();
+    abortAll('dedupe');
+    await expect(canceled).rejects.toMatchObject({ code: 'ERR_CANCELED' });
+    await expect(tagged).rejects.toMatchObject({ code: 'ERR_CANCELED' });
+    await expect(other).resolves.toBe('ok');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('合并的请求所有调用方都取消后中断请求', async () => {
+    const first = new AbortController();
+    const second = new AbortController();
+    const promises = [
+      request({ dedupe: true, signal: first.signal }),
+      request({ dedupe: true, signal: second.signal }),
+    ];
+    first.abort();
+    expect(getInflightCount()).toBe(1);
+    second.abort();
+    expect(getInflightCount()).toBe(0);
+    await expect(promises[0]).rejects.toMatchObject({ code: 'ERR_CANCELED' });
+    await expect(promises[1]).rejects.toMatchObject({ code: 'ERR_CANCELED' });
+    await expect(request({ dedupe: true })).resolves.toBe('ok');
+  });
+});
@@ -0,0 +1,138 @@
+import { CanceledError } from '../errors';
+
+/**
+ * 取消令牌
+ */
+export interface ICancelToken {
+  /**
+   * 传给请求配置的 signal
+   */
+  signal: AbortSignal;
+  /**
+   * 取消请求
+   */
+  cancel: (reason?: any) => void;
+}
+
+// 按标签分组的请求
+const taggedControllers = new Map<string, Set<AbortController>>();
+
+/**
+ * 创建取消令牌
+ */
+export const createCancelToken = (): ICancelToken => {
+  const controller = new AbortController();
+  return {
+    signal: controller.signal,
+    cancel: reason => controller.abort(reason),
+  };
+};
+
+/**
+ * 外部的 signal 中断时同时中断 controller
+ * @param signal 外部的 signal
+ * @param controller 需要跟着中断的 controller
+ * @returns 取消关联的方法
+ */
+export const linkAbortSignal = (signal: AbortSignal | undefined, controller: AbortController) => {
+  if (!signal) {
+    return () => { };
+  }
+  if (signal.aborted) {
+    controller.abort(signal.reason);
+    return () => { };
+  }
+  const onAbort = () => controller.abort(signal.reason);
+  signal.addEventListener('abort', onAbort);
+  return () => signal.removeEventListener('abort', onAbort);
+};
+
+/**
+ * 按标签登记请求，方便统一取消
+ * @param tag 标签
+ * @param controller 请求的 controller
+ * @returns 移除登记的方法
+ */
+export const registerCancel = (tag: string | string[] | undefined, controller: AbortController) => {
+  const tags = Array.isArray(tag) ? tag : tag ? [tag] : [];
+  tags.forEach(item => {
+    if (!taggedControllers.has(item)) {
+      taggedControllers.set(item, new Set());
+    }
+    taggedControllers.get(item)!.add(controller);
+  });
+  return () => {
+    tags.forEach(item => {
+      const controllers = taggedControllers.get(item);
+      if (controllers) {
+        controllers.delete(controller);
+        if (controllers.size === 0) {
+          taggedControllers.delete(item);
+        }
+      }
+    });
+  };
+};
+
+/**
+ * 取消指定标签下所有进行中的请求，不传标签则取消所有带标签的请求
+ * @param tag 标签
+ * @returns 取消的请求数量
+ */
+export const abortAll = (tag?: string) => {
+  const controllers = new Set<AbortController>();
+  taggedControllers.forEach((items, key) => {
+    if (typeof tag === 'undefined' || key === tag) {
+      items.forEach(item => controllers.add(item));
+    }
+  });
+  controllers.forEach(controller => controller.abort());
+  return controllers.size;
+};
+
+/**
+ * 生成请求被取消的异常
+ * @param url 请求地址
+ */
+export const createCanceledError = (url?: string) => new CanceledError({ url });
+
+/**
+ * 可以中断的等待，中断时抛出取消异常
+ * @param ms 毫秒
+ * @param signal 中断等待
+ * @param url 请求地址
+ */
+export const sleepWithSignal = (ms: number, signal?: AbortSignal, url?: string) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createCanceledError(url));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createCanceledError(url));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort);
+  });
+
+/**
+ * 是否是请求被取消的异常
+ * @param error 异常
+ */
+export const isCancelError = (error: any) => !!error && error.code === 'ERR_CANCELED' && error.canceled === true;
+
+/**
+ * 是否是中断请求导致的异常，兼容 axios、fetch 和 uni
+ * @param error 异常
+ */
+export const isAbortError = (error: any) =>
+  !!error &&
+  (error.name === 'AbortError' ||
+    error.name === 'CanceledError' ||
+    error.code === 'ERR_CANCELED' ||
+    error.code === 20 ||
+    /abort/i.test(error.errMsg || ''));
@@ -0,0 +1,90 @@
+import { chunkUpload, isCanceledError, MockAdapter, mockReply } from '..';
+import type { IChunkUploadOption, IProgressEvent } from '..';
+import cryptoUtils from '../../core/cryptoUtils';
+
+describe('chunkUpload', () => {
+  const mock = new MockAdapter();
+  const file = new Blob(['abcdefghij']);
+  // 每个分片请求的表单字段
+  let uploads: Record<string, any>[] = [];
+
+  const upload = (option: IChunkUploadOption = {}) =>
+    chunkUpload('/api/chunk', file, { reqEnv: 'mock', mockAdapter: mock, chunkSize: 4, ...option });
+
+  beforeEach(() => {
+    uploads = [];
+    mock.reset();
+    mock.onPost('/api/chunk', async req => {
+      const fields: Record<string, any> = {};
+      for (const [key, value] of req.data as FormData) {
+        fields[key] = typeof value === 'string' ? value : await value.text();
+      }
+      uploads.push(fields);
+      return { code: 0, result: Number(fields.index) };
+    });
+  });
+
+  it('按 chunkSize 切片，每个分片带上序号、位置和 MD5', async () => {
+    const events: IProgressEvent[] = [];
+    const complete = jest.fn(() => 'merged');
+    const result = await upload({ onProgress: e => events.push(e), complete });
+    expect(result).toEqual({ offset: 0, chunks: [0, 1, 2], result: 'merged' });
+    expect(uploads.map(item => [item.index, item.start, item.end, item.file])).toEqual([
+      ['0', '0', '4', 'abcd'],
+      ['1', '4', '8', 'efgh'],
+      ['2', '8', '10', 'ij'],
+    ]);
+    uploads.forEach(item => {
+      expect(item).toMatchObject({ chunkCount: '3', total: '10' });
+      expect(item.md5).toBe(cryptoUtils.md5(new TextEncoder().encode(item.file).buffer));
+    });
+    expect(complete).toHaveBeenCalledWith(expect.objectContaining({ size: 10, chunkSize: 4, chunkCount: 3 }));
+    expect(events[0]).toEqual({ loaded: 0, total: 10, progress: 0 });
+    expect(events[events.length - 1]).toEqual({ loaded: 10, total: 10, progress: 1 });
+  });
+
+  it('同时上传的分片数不超过 concurrency', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    mock.onPost('/api/chunk', async () => {
+      running += 1;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      running -= 1;
+      return { code: 0, result: 'ok' };
+    });
+    const result = await upload({ chunkSize: 2, concurrency: 2 });
+    expect(result.chunks).toHaveLength(5);
+    expect(maxRunning).toBe(2);
+  });
+
+  it('从 getUploadedOffset 返回的位置续传，第一片只上传剩下的部分', async () => {
+    const getUploadedOffset = jest.fn(async () => 6);
+    const events: IProgressEvent[] = [];
+    const result = await upload({ getUploadedOffset, onProgress: e => events.push(e) });
+    expect(getUploadedOffset).toHaveBeenCalledWith(expect.objectContaining({ file, chunkCount: 3 }));
+    expect(result).toEqual({ offset: 6, chunks: [undefined, 1, 2], result: undefined });
+    expect(uploads.map(item => [item.index, item.start, item.end, item.file])).toEqual([
+      ['1', '6', '8', 'gh'],
+      ['2', '8', '10', 'ij'],
+    ]);
+    expect(events[0]).toMatchObject({ loaded: 6, total: 10 });
+  });
+
+  it('一个分片失败时中断其他分片', async () => {
+    mock.onPost('/api/chunk', req => {
+      if ((req.data as FormData).get('index') === '0') {
+        return mockReply({ status: 500 });
+      }
+      return mockReply({ data: { code: 0, result: 'ok' }, delay: 1000 });
+    });
+    const onChunkUploaded = jest.fn();
+    await expect(upload({ onChunkUploaded })).rejects.toMatchObject({ status: 500 });
+    expect(onChunkUploaded).not.toHaveBeenCalled();
+
+    const controller = new AbortController();
+    const pending = upload({ signal: controller.signal }).catch(e => e);
+    controller.abort();
+    expect(isCanceledError(await pending)).toBe(true);
+  });
+});
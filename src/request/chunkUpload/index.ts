@@ -0,0 +1,258 @@
+import binRequest from '../binRequest';
+import { createCanceledError, linkAbortSignal } from '../cancel';
+import { createProgressEvent, IProgressHandler } from '../progress';
+import { IRequestOption } from '../typings';
+import cryptoUtils from '../../core/cryptoUtils';
+
+/**
+ * 文件分片
+ */
+export interface IUploadChunk {
+  /**
+   * 分片序号，从0开始，按整个文件计算
+   */
+  index: number;
+  /**
+   * 分片在文件中的起始位置
+   */
+  start: number;
+  /**
+   * 分片在文件中的结束位置（不包含）
+   */
+  end: number;
+  /**
+   * 分片大小
+   */
+  size: number;
+  /**
+   * 分片内容的 MD5
+   */
+  md5: string;
+  /**
+   * 分片内容
+   */
+  blob: Blob;
+}
+
+/**
+ * 分片上传的文件信息
+ */
+export interface IChunkUploadInfo {
+  /**
+   * 上传的文件
+   */
+  file: Blob;
+  /**
+   * 文件名，file 是 File 时自动获取
+   */
+  fileName?: string;
+  /**
+   * 文件大小
+   */
+  size: number;
+  /**
+   * 分片大小
+   */
+  chunkSize: number;
+  /**
+   * 分片总数
+   */
+  chunkCount: number;
+}
+
+/**
+ * 分片上传配置，其余配置会传给每个分片的请求
+ */
+export interface IChunkUploadOption extends IRequestOption {
+  /**
+   * 分片大小（字节），默认2MB
+   */
+  chunkSize?: number;
+  /**
+   * 同时上传的分片数，默认3
+   */
+  concurrency?: number;
+  /**
+   * 获取服务端已经接收的字节数，用来断点续传，从该位置开始上传
+   */
+  getUploadedOffset?: (info: IChunkUploadInfo) => number | Promise<number>;
+  /**
+   * 每个分片额外的表单字段，默认传 index、start、end、chunkCount、total、md5 和 fileName
+   */
+  chunkFields?: (chunk: IUploadChunk, info: IChunkUploadInfo) => Record<string, any>;
+  /**
+   * 整个文件的上传进度
+   */
+  onProgress?: IProgressHandler;
+  /**
+   * 单个分片上传成功后执行
+   */
+  onChunkUploaded?: (chunk: IUploadChunk, result: any) => void;
+  /**
+   * 所有分片上传完成后执行，一般用来通知服务端合并分片，返回值作为最终结果
+   */
+  complete?: (info: IChunkUploadInfo) => any;
+}
+
+/**
+ * 分片上传的结果
+ */
+export interface IChunkUploadResult<T = any> {
+  /**
+   * 续传时跳过的字节数
+   */
+  offset: number;
+  /**
+   * 每个分片的请求结果，按分片顺序，跳过的分片为 undefined
+   */
+  chunks: any[];
+  /**
+   * complete 的返回值
+   */
+  result?: T;
+}
+
+/**
+ * 读取分片内容
+ * @param blob 分片
+ */
+const readBlob = (blob: Blob): Promise<ArrayBuffer> => {
+  if (typeof blob.arrayBuffer === 'function') {
+    return blob.arrayBuffer();
+  }
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+};
+
+/**
+ * 分片上传文件，支持并发和断点续传
+ * <br />
+ * 每个分片都是一次 manner: 'file' 的请求，需要支持 Blob 的环境
+ * @param url 上传分片的地址
+ * @param file 文件
+ * @param option 上传配置
+ */
+export const chunkUpload = async <T = any>(
+  url: string,
+  file: Blob,
+  option: IChunkUploadOption = {},
+): Promise<IChunkUploadResult<T>> => {
+  const {
+    chunkSize = 2 * 1024 * 1024,
+    concurrency = 3,
+    getUploadedOffset,
+    chunkFields,
+    onProgress,
+    onChunkUploaded,
+    complete,
+    ...requestOption
+  } = option;
+  const info: IChunkUploadInfo = {
+    file,
+    fileName: (file as File).name,
+    size: file.size,
+    chunkSize,
+    chunkCount: Math.max(1, Math.ceil(file.size / chunkSize)),
+  };
+  const offset = Math.min(Math.max(Number(getUploadedOffset ? await getUploadedOffset(info) : 0) || 0, 0), file.size);
+  // 从续传的位置开始切片，第一片可能不完整
+  const ranges: { index: number; start: number; end: number }[] = [];
+  for (let index = Math.floor(offset / chunkSize); index < info.chunkCount; index++) {
+    const start = Math.max(index * chunkSize, offset);
+    const end = Math.min((index + 1) * chunkSize, file.size);
+    if (end > start || file.size === 0) {
+      ranges.push({ index, start, end });
+    }
+  }
+  // 一个分片失败时中断其他分片
+  const controller = new AbortController();
+  const unlink = linkAbortSignal(option.signal, controller);
+  const chunks: any[] = [];
+  const loadedMap = new Map<number, number>();
+  let uploaded = 0;
+  const emitProgress = () => {
+    if (!onProgress) {
+      return;
+    }
+    let loading = 0;
+    loadedMap.forEach(value => {
+      loading += value;
+    });
+    onProgress(createProgressEvent(offset + uploaded + loading, file.size));
+  };
+
+  const uploadChunk = async (range: (typeof ranges)[number]) => {
+    const blob = file.slice(range.start, range.end);
+    const chunk: IUploadChunk = {
+      ...range,
+      size: range.end - range.start,
+      md5: cryptoUtils.md5(await readBlob(blob)),
+      blob,
+    };
+    const fields = chunkFields
+      ? chunkFields(chunk, info)
+      : {
+        index: chunk.index,
+        start: chunk.start,
+        end: chunk.end,
+        chunkCount: info.chunkCount,
+        total: info.size,
+        md5: chunk.md5,
+        fileName: info.fileName,
+      };
+    const result = await binRequest(url, {
+      method: 'post',
+      ...requestOption,
+      manner: 'file',
+      params: blob,
+      formData: { ...requestOption.formData, ...fields },
+      signal: controller.signal,
+      onUploadProgress: e => {
+        // 按分片大小换算，忽略表单本身的字节
+        loadedMap.set(chunk.index, e.progress !== undefined ? e.progress * chunk.size : Math.min(e.loaded, chunk.size));
+        emitProgress();
+      },
+    });
+    loadedMap.delete(chunk.index);
+    uploaded += chunk.size;
+    chunks[chunk.index] = result;
+    emitProgress();
+    if (onChunkUploaded) {
+      onChunkUploaded(chunk, result);
+    }
+  };
+
+  let next = 0;
+  const worker = async () => {
+    while (next < ranges.length && !controller.signal.aborted) {
+      const range = ranges[next];
+      next += 1;
+      await uploadChunk(range);
+    }
+  };
+  try {
+    emitProgress();
+    await Promise.all(
+      Array.from({ length: Math.min(Math.max(concurrency, 1), ranges.length) }, () =>
+        worker().catch(e => {
+          controller.abort();
+          throw e;
+        }),
+      ),
+    );
+    if (controller.signal.aborted) {
+      throw createCanceledError(url);
+    }
+  } finally {
+    unlink();
+  }
+  return {
+    offset,
+    chunks,
+    result: complete ? await complete(info) : undefined,
+  };
+};
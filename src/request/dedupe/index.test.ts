@@ -0,0 +1,46 @@
+import binRequest, { getInflightCount } from '..';
+import type { IRequestOption } from '..';
+
+describe('dedupe', () => {
+  const originalFetch = global.fetch;
+  const fetchMock = jest.fn();
+  const request = (option: IRequestOption = {}) =>
+    binRequest('http://localhost/dedupe', { method: 'get', reqEnv: 'fetch', dedupe: true, ...option });
+
+  beforeAll(() => {
+    global.fetch = fetchMock;
+  });
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    fetchMock.mockImplementation(
+      (url: string) =>
+        new Promise(resolve => {
+          const result = new URL(url).searchParams.get('id') || 'all';
+          setTimeout(() => resolve(new Response(JSON.stringify({ code: 0, result }))), 30);
+        }),
+    );
+  });
+
+  it('相同的请求同时发起时只发出一次', async () => {
+    const results = await Promise.all([request(), request(), request()]);
+    expect(results).toEqual(['all', 'all', 'all']);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(getInflightCount()).toBe(0);
+  });
+
+  it('参数不同的请求分别发出', async () => {
+    const results = await Promise.all([request({ params: { id: '1' } }), request({ params: { id: '2' } })]);
+    expect(results).toEqual(['1', '2']);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('请求结束后再次发起会重新请求', async () => {
+    await request();
+    await request();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
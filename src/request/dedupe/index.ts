@@ -0,0 +1,125 @@
+import { createCanceledError, linkAbortSignal, registerCancel } from '../cancel';
+import { defOption } from '../httpCode';
+import { buildCacheKey } from '../httpUtils';
+import { IRequestOption } from '../typings';
+
+/**
+ * 进行中的去重请求
+ */
+interface IInflightRequest {
+  promise: Promise<any>;
+  // 中断共用的请求
+  controller: AbortController;
+  // 还在等待结果的调用方数量
+  subscribers: number;
+}
+
+/**
+ * 调用方自己的取消配置
+ */
+export interface IDedupeCancel {
+  /**
+   * 取消本次调用的 signal
+   */
+  signal?: AbortSignal;
+  /**
+   * 本次调用的标签，abortAll(tag) 时取消
+   */
+  tag?: string | string[];
+  /**
+   * 请求地址，用于生成取消的异常
+   */
+  url?: string;
+}
+
+// 正在进行中的请求
+const inflightRequests = new Map<string, IInflightRequest>();
+
+/**
+ * 生成去重的key，和缓存的key使用相同的内容，再加上请求方法
+ * @param url 请求地址
+ * @param option 请求配置
+ */
+export const buildDedupeKey = (url: string, option: IRequestOption) => {
+  const method = (option.method || defOption.method || 'get').toLowerCase();
+  return `${method}:${buildCacheKey(url, option.params)}`;
+};
+
+/**
+ * 移除进行中的请求，已经被新的请求替换时不处理
+ * @param key 去重的key
+ * @param inflight 进行中的请求
+ */
+const removeInflight = (key: string, inflight: IInflightRequest) => {
+  if (inflightRequests.get(key) === inflight) {
+    inflightRequests.delete(key);
+  }
+};
+
+/**
+ * 相同key的请求共用同一个进行中的Promise，请求结束后移除
+ * <br />
+ * 调用方取消时只有自己的 Promise 会拒绝，所有调用方都取消后才中断共用的请求
+ * @param key 去重的key
+ * @param request 发起请求的方法，参数是中断共用请求的 signal
+ * @param cancel 本次调用的取消配置
+ */
+export const dedupeRequest = <T>(
+  key: string,
+  request: (signal: AbortSignal) => Promise<T>,
+  cancel: IDedupeCancel = {},
+): Promise<T> => {
+  let inflight = inflightRequests.get(key);
+  if (!inflight) {
+    const controller = new AbortController();
+    const created: IInflightRequest = { controller, subscribers: 0, promise: Promise.resolve() };
+    created.promise = request(controller.signal).finally(() => removeInflight(key, created));
+    inflightRequests.set(key, created);
+    inflight = created;
+  }
+  const current = inflight;
+  current.subscribers++;
+  // 不能取消的调用方会一直等到请求结束
+  if (!cancel.signal && !cancel.tag) {
+    return current.promise;
+  }
+  return new Promise<T>((resolve, reject) => {
+    const controller = new AbortController();
+    const unlink = linkAbortSignal(cancel.signal, controller);
+    const unregister = registerCancel(cancel.tag, controller);
+    const cleanup = () => {
+      unlink();
+      unregister();
+      controller.signal.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      cleanup();
+      current.subscribers--;
+      if (current.subscribers === 0) {
+        removeInflight(key, current);
+        current.controller.abort();
+      }
+      reject(createCanceledError(cancel.url));
+    };
+    if (controller.signal.aborted) {
+      onAbort();
+      return;
+    }
+    controller.signal.addEventListener('abort', onAbort);
+    current.promise.then(
+      data => {
+        cleanup();
+        resolve(data);
+      },
+      error => {
+        cleanup();
+        reject(error);
+      },
+    );
+  });
+};
+
+/**
+ * 当前进行中的去重请求数量
+ */
+export const getInflightCount = () => inflightRequests.size;
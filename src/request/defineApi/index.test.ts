@@ -0,0 +1,48 @@
+import { interpolatePath, RequestError } from '..';
+
+describe('interpolatePath', () => {
+  it('替换 :id 和 {id} 形式的路径参数，剩下的参数保留', () => {
+    expect(interpolatePath('/user/:id/orders/{orderId}', { id: 1, orderId: 'a1', page: 2 })).toEqual({
+      url: '/user/1/orders/a1',
+      params: { page: 2 },
+    });
+  });
+
+  it('不修改传入的参数', () => {
+    const params = { id: 1, name: 'x' };
+    interpolatePath('/user/:id', params);
+    expect(params).toEqual({ id: 1, name: 'x' });
+  });
+
+  it('编码路径参数', () => {
+    expect(interpolatePath('/file/:name', { name: 'a b/c?.txt' }).url).toBe('/file/a%20b%2Fc%3F.txt');
+    expect(interpolatePath('/tag/{tag}', { tag: '报表' }).url).toBe('/tag/%E6%8A%A5%E8%A1%A8');
+  });
+
+  it('协议和端口中的冒号不是路径参数', () => {
+    expect(interpolatePath('http://localhost:8080/user/:id', { id: 0 })).toEqual({
+      url: 'http://localhost:8080/user/0',
+      params: {},
+    });
+  });
+
+  it('没有路径参数时原样返回', () => {
+    expect(interpolatePath('/user', { id: 1 })).toEqual({ url: '/user', params: { id: 1 } });
+    expect(interpolatePath('/user')).toEqual({ url: '/user', params: undefined });
+    expect(interpolatePath('/user', [1, 2])).toEqual({ url: '/user', params: [1, 2] });
+  });
+
+  it('缺少路径参数时抛出 RequestError', () => {
+    [undefined, { id: null }, { id: '' }, { other: 1 }].forEach(params => {
+      let error: any;
+      try {
+        interpolatePath('/user/:id', params);
+      } catch (e) {
+        error = e;
+      }
+      expect(error).toBeInstanceOf(RequestError);
+      expect(error.message).toContain('id');
+      expect(error.url).toBe('/user/:id');
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import binRequest from '../binRequest';
+import { RequestError } from '../errors';
+import type { IRequestClient } from '../requestClient';
+import { ICallBack, IErrorHandler, IRequestOption } from '../typings';
+import { buildTablePage, ITablePage } from '../../core/pageUtils';
+
+/**
+ * 响应数据校验，可以是返回 boolean 的方法，也可以是带 parse 方法的 schema（比如 zod）
+ */
+export type IApiValidator<T> = ((data: any) => boolean | void) | { parse: (data: any) => T };
+
+/**
+ * 接口定义，其余配置作为接口的默认配置
+ */
+export interface IApiDefinition<TResult = any> extends IRequestOption {
+  /**
+   * 请求地址，支持 /user/:id 和 /user/{id} 形式的路径参数
+   */
+  url: string;
+  /**
+   * 是否是分页接口，是的话返回 ITablePage
+   */
+  paged?: boolean;
+  /**
+   * 校验响应数据，校验失败时抛出 RequestError，分页接口校验的是转换后的 ITablePage
+   */
+  validate?: IApiValidator<TResult>;
+  /**
+   * 使用请求客户端发起请求，不传则使用 binRequest
+   */
+  client?: IRequestClient;
+  /**
+   * 异常处理方法
+   */
+  errorHandler?: IErrorHandler;
+  /**
+   * 自定义回调，同 binRequest
+   */
+  callback?: ICallBack;
+}
+
+/**
+ * 定义好的接口
+ */
+export interface IApi<TParams, TResult> {
+  /**
+   * 调用接口
+   * @param params 请求参数，路径参数会从中取出
+   * @param option 本次请求的配置，覆盖默认配置
+   */
+  (params?: TParams, option?: IRequestOption): Promise<TResult>;
+  /**
+   * 接口定义
+   */
+  readonly definition: IApiDefinition;
+  /**
+   * 生成请求地址
+   * @param params 请求参数
+   */
+  buildUrl: (params?: TParams) => string;
+}
+
+// 路径参数：:id 或者 {id}
+const PATH_PARAM_REG = /:([A-Za-z_$][\w$]*)|\{([A-Za-z_$][\w$]*)\}/g;
+
+/**
+ * 替换地址中的路径参数
+ * @param url 请求地址
+ * @param params 请求参数
+ * @returns 替换后的地址和剩余的参数
+ */
+export const interpolatePath = (url: string, params?: any) => {
+  const rest = params && typeof params === 'object' && !Array.isArray(params) ? { ...params } : params;
+  // 协议和端口中的冒号不是路径参数
+  const match = /^([a-z][a-z\d+\-.]*:\/\/[^/]*)?(.*)$/i.exec(url)!;
+  const path = match[2].replace(PATH_PARAM_REG, (_, colon: string, brace: string) => {
+    const key = colon || brace;
+    const value = rest?.[key];
+    if (value === undefined || value === null || value === '') {
+      throw new RequestError(`缺少路径参数：${key}`, { url });
+    }
+    delete rest[key];
+    return encodeURIComponent(String(value));
+  });
+  return { url: (match[1] || '') + path, params: rest };
+};
+
+/**
+ * 校验响应数据
+ * @param data 响应数据
+ * @param validate 校验方法
+ * @param url 请求地址
+ */
+const validateData = <T>(data: any, validate: IApiValidator<T>, url: string): T => {
+  try {
+    if (typeof validate === 'function') {
+      if (validate(data) === false) {
+        throw new Error('校验未通过');
+      }
+      return data;
+    }
+    return validate.parse(data);
+  } catch (e) {
+    throw new RequestError('响应数据校验失败', { url, data, cause: e });
+  }
+};
+
+/**
+ * 定义类型安全的接口
+ * <br />
+ * 分页接口（paged: true）返回 ITablePage，其余配置会作为默认配置
+ * @param definition 接口定义
+ * @example
+ * const getUser = defineApi<{ id: number }, IUser>({ url: '/user/:id', method: 'get' });
+ * const user = await getUser({ id: 1 });
+ */
+export function defineApi<TParams = void, TResult = any>(
+  definition: IApiDefinition<ITablePage<TResult>> & { paged: true }
+): IApi<TParams, ITablePage<TResult>>;
+export function defineApi<TParams = void, TResult = any>(
+  definition: IApiDefinition<TResult>
+): IApi<TParams, TResult>;
+export function defineApi(definition: IApiDefinition) {
+  const { url, paged, validate, client, errorHandler, callback, ...defaults } = definition;
+
+  const api = async (params?: any, option?: IRequestOption) => {
+    const path = interpolatePath(url, params);
+    const reqOption: IRequestOption = {
+      metricName: url,
+      ...defaults,
+      ...option,
+      headers: { ...defaults.headers, ...option?.headers },
+      params: path.params,
+    };
+    let data = client
+      ? await client.request(path.url, reqOption, errorHandler, callback)
+      : await binRequest(path.url, reqOption, errorHandler, callback);
+    if (paged && !callback) {
+      data = buildTablePage(data);
+    }
+    return validate ? validateData(data, validate, path.url) : data;
+  };
+
+  return Object.assign(api, {
+    definition,
+    buildUrl: (params?: any) => interpolatePath(url, params).url,
+  });
+}
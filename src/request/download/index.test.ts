@@ -0,0 +1,90 @@
+import { download, isCanceledError, parseContentDisposition } from '..';
+
+describe('parseContentDisposition', () => {
+  it('解析 RFC 5987 的 filename*', () => {
+    expect(parseContentDisposition('attachment; filename*=UTF-8\'\'%E6%8A%A5%E8%A1%A8.xlsx')).toBe('报表.xlsx');
+    expect(parseContentDisposition('attachment; filename*=utf-8\'zh-CN\'a%20b.txt')).toBe('a b.txt');
+    expect(parseContentDisposition('attachment; filename*=ISO-8859-1\'\'caf%E9.txt')).toBe('café.txt');
+  });
+
+  it('filename* 优先于 filename', () => {
+    const header = 'attachment; filename="report.xlsx"; filename*=UTF-8\'\'%E6%8A%A5%E8%A1%A8.xlsx';
+    expect(parseContentDisposition(header)).toBe('报表.xlsx');
+  });
+
+  it('解析带引号的文件名', () => {
+    expect(parseContentDisposition('attachment; filename="my report; final.pdf"')).toBe('my report; final.pdf');
+    expect(parseContentDisposition('attachment; filename="say \\"hi\\".txt"')).toBe('say "hi".txt');
+  });
+
+  it('解析不带引号的文件名', () => {
+    expect(parseContentDisposition('attachment; filename=report.pdf; size=100')).toBe('report.pdf');
+    expect(parseContentDisposition('inline;filename=a.png')).toBe('a.png');
+  });
+
+  it('filename 中编码过的文件名会被解码', () => {
+    expect(parseContentDisposition('attachment; filename=%E6%8A%A5%E8%A1%A8.xlsx')).toBe('报表.xlsx');
+    expect(parseContentDisposition('attachment; filename="100%.txt"')).toBe('100%.txt');
+  });
+
+  it('filename* 无法解码时回退到 filename', () => {
+    expect(parseContentDisposition('attachment; filename*=UTF-8\'\'%E6%8A; filename=fallback.txt')).toBe('fallback.txt');
+    expect(parseContentDisposition('attachment; filename*=broken; filename="fallback.txt"')).toBe('fallback.txt');
+  });
+
+  it('没有文件名时返回 undefined', () => {
+    expect(parseContentDisposition(undefined)).toBeUndefined();
+    expect(parseContentDisposition(null)).toBeUndefined();
+    expect(parseContentDisposition('attachment')).toBeUndefined();
+    expect(parseContentDisposition('attachment; filename=""')).toBeUndefined();
+  });
+});
+
+describe('download uni', () => {
+  const abort = jest.fn();
+  // 每次下载的回调
+  let calls: any[] = [];
+
+  beforeAll(() => {
+    (global as any).uni = {
+      downloadFile: (option: any) => {
+        calls.push(option);
+        return { abort, onProgressUpdate: () => undefined };
+      },
+    };
+  });
+  afterAll(() => {
+    delete (global as any).uni;
+  });
+  beforeEach(() => {
+    calls = [];
+    abort.mockReset();
+  });
+
+  it('下载结束后移除 signal 的监听，之后取消不会中断已完成的任务', async () => {
+    const controller = new AbortController();
+    const removeListener = jest.spyOn(controller.signal, 'removeEventListener');
+    const option = { reqEnv: 'uni' as const, save: false, signal: controller.signal };
+
+    const done = download('http://localhost/a.txt', option);
+    calls[0].success({ tempFilePath: 'tmp/a.txt', statusCode: 200 });
+    expect(await done).toEqual({ fileName: 'a.txt', filePath: 'tmp/a.txt' });
+
+    const failed = download('http://localhost/b.txt', option).catch(e => e);
+    calls[1].fail({ errMsg: 'downloadFile:fail' });
+    await failed;
+
+    expect(removeListener).toHaveBeenCalledTimes(2);
+    controller.abort();
+    expect(abort).not.toHaveBeenCalled();
+  });
+
+  it('取消时中断下载任务', async () => {
+    const controller = new AbortController();
+    const pending = download('http://localhost/a.txt', { reqEnv: 'uni', signal: controller.signal }).catch(e => e);
+    controller.abort();
+    expect(abort).toHaveBeenCalledTimes(1);
+    calls[0].fail({ errMsg: 'downloadFile:fail abort' });
+    expect(isCanceledError(await pending)).toBe(true);
+  });
+});
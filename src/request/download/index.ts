@@ -0,0 +1,323 @@
+import binRequest from '../binRequest';
+import { BusinessError, CanceledError, HttpError, NetworkError, toRequestError } from '../errors';
+import { codeMessage } from '../httpCode';
+import { getResponseHeader, joinBaseURL, requestErrorIntercept } from '../httpUtils';
+import { IResponseProtocol, parseResponse } from '../protocol';
+import { IErrorHandler, IRequestOption } from '../typings';
+
+/**
+ * 下载配置
+ */
+export interface IDownloadOption extends IRequestOption {
+  /**
+   * 保存的文件名，不传则依次使用 Content-Disposition、地址中的文件名
+   */
+  fileName?: string;
+  /**
+   * 是否保存文件，默认 true，false 时只返回文件内容
+   */
+  save?: boolean;
+  /**
+   * Node 环境保存的路径，可以是文件路径或者目录，传了之后写入该路径
+   */
+  savePath?: string;
+}
+
+/**
+ * 下载结果
+ */
+export interface IDownloadResult {
+  /**
+   * 文件名
+   */
+  fileName: string;
+  /**
+   * 文件内容，uni 环境没有
+   */
+  blob?: Blob;
+  /**
+   * 文件保存的路径，uni 为保存后的路径（不保存时为临时路径），Node 为写入的路径
+   */
+  filePath?: string;
+  /**
+   * 文件类型
+   */
+  contentType?: string;
+}
+
+/**
+ * 按 RFC 5987 解码 filename* 的值
+ * @param value 编码后的值
+ * @param charset 字符集
+ */
+const decodeExtValue = (value: string, charset: string) => {
+  if (/^utf-?8$/i.test(charset)) {
+    return decodeURIComponent(value);
+  }
+  // ISO-8859-1 等单字节字符集
+  return value.replace(/%([0-9a-f]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+};
+
+/**
+ * 解析 Content-Disposition 中的文件名，优先使用 filename*
+ * @param header Content-Disposition 的值
+ * @example
+ * parseContentDisposition("attachment; filename*=UTF-8''%E6%8A%A5%E8%A1%A8.xlsx"); // 报表.xlsx
+ */
+export const parseContentDisposition = (header?: string | null) => {
+  if (!header) {
+    return undefined;
+  }
+  const extended = /filename\*\s*=\s*([^;]+)/i.exec(header);
+  if (extended) {
+    const match = /^([\w!#$%&+^`{}~-]+)'[^']*'(.*)$/.exec(extended[1].trim().replace(/^"(.*)"$/, '$1'));
+    if (match) {
+      try {
+        return decodeExtValue(match[2], match[1]);
+      } catch (e) {
+        // 解码失败时使用 filename
+      }
+    }
+  }
+  const plain = /(?:^|;)\s*filename\s*=\s*("(?:[^"\\]|\\.)*"|[^;]*)/i.exec(header);
+  if (!plain) {
+    return undefined;
+  }
+  let fileName = plain[1].trim();
+  if (fileName.startsWith('"')) {
+    fileName = fileName.slice(1, -1).replace(/\\(.)/g, '$1');
+  }
+  // 有些后台直接把编码后的文件名放在 filename 中
+  if (/%[0-9a-f]{2}/i.test(fileName)) {
+    try {
+      fileName = decodeURIComponent(fileName);
+    } catch (e) {
+      // 不是编码后的文件名
+    }
+  }
+  return fileName || undefined;
+};
+
+/**
+ * 从地址中获取文件名
+ * @param url 请求地址
+ */
+const getUrlFileName = (url: string) => {
+  const name = url.split(/[?#]/)[0].split('/').pop();
+  try {
+    return name ? decodeURIComponent(name) : undefined;
+  } catch (e) {
+    return name;
+  }
+};
+
+/**
+ * 后台出错时返回的 json 会被当成文件下载，这里转换成标准的异常
+ * @param blob 下载的文件
+ * @param url 请求地址
+ */
+const parseBlobError = async (
+  blob: Blob,
+  url: string,
+  protocol?: IResponseProtocol,
+): Promise<BusinessError | undefined> => {
+  if (!/json|text\/plain/i.test(blob.type || '') || blob.size > 1024 * 1024) {
+    return undefined;
+  }
+  try {
+    const text = typeof blob.text === 'function' ? await blob.text() : await new Response(blob).text();
+    const data = JSON.parse(text);
+    if (!data || typeof data !== 'object') {
+      return undefined;
+    }
+    const parsed = parseResponse(data, protocol);
+    // 没有业务码的 json 当成普通文件
+    if (parsed.success || (typeof parsed.code === 'undefined' && typeof parsed.message === 'undefined')) {
+      return undefined;
+    }
+    const status = parsed.code || data.status;
+    return new BusinessError(parsed.message || (codeMessage as any)[status] || '下载失败', { code: status, url, data });
+  } catch (e) {
+    return undefined;
+  }
+};
+
+/**
+ * 浏览器中通过 a 标签保存文件
+ * @param blob 文件内容
+ * @param fileName 文件名
+ */
+const saveInBrowser = (blob: Blob, fileName: string) => {
+  const href = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = href;
+  link.download = fileName;
+  link.style.display = 'none';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // 延迟释放，避免部分浏览器还没开始下载
+  setTimeout(() => URL.revokeObjectURL(href), 1000);
+};
+
+/**
+ * Node 中写入文件
+ * @param blob 文件内容
+ * @param fileName 文件名
+ * @param savePath 文件路径或者目录
+ */
+const saveInNode = async (blob: Blob, fileName: string, savePath: string) => {
+  // 模块名用变量，避免被打包进浏览器的产物
+  const fsName = 'fs/promises';
+  const pathName = 'path';
+  const fs = await import(fsName);
+  const path = await import(pathName);
+  let filePath = savePath;
+  const isDirectory =
+    /[\\/]$/.test(savePath) ||
+    (await fs
+      .stat(savePath)
+      .then((stat: any) => stat.isDirectory())
+      .catch(() => false));
+  if (isDirectory) {
+    filePath = path.join(savePath, fileName.replace(/[\\/]/g, '_'));
+  }
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, new Uint8Array(await blob.arrayBuffer()));
+  return filePath;
+};
+
+/**
+ * uni 中使用 downloadFile 下载，保存时使用 saveFile
+ * @param url 请求地址，已经拼接了 baseURL
+ * @param option 下载配置
+ */
+const downloadInUni = (url: string, option: IDownloadOption): Promise<IDownloadResult> => {
+  const newOptions = requestErrorIntercept(url, option);
+  const fileName = option.fileName || getUrlFileName(url) || 'download';
+  return new Promise((resolve, reject) => {
+    const onAbort = () => task.abort();
+    // 下载结束后移除监听，避免复用的 signal 一直持有下载任务
+    const unlink = () => option.signal?.removeEventListener?.('abort', onAbort);
+    const task = uni.downloadFile({
+      url: newOptions.url!,
+      header: newOptions.headers as Record<string, string>,
+      timeout: newOptions.timeout,
+      success: ({ tempFilePath, statusCode }) => {
+        unlink();
+        if (statusCode < 200 || statusCode >= 300) {
+          reject(new HttpError(statusCode, { url, method: 'get' }));
+          return;
+        }
+        if (option.save === false) {
+          resolve({ fileName, filePath: tempFilePath });
+          return;
+        }
+        uni.saveFile({
+          tempFilePath,
+          success: ({ savedFilePath }) => resolve({ fileName, filePath: savedFilePath }),
+          fail: reject,
+        });
+      },
+      fail: error => {
+        unlink();
+        reject(
+          option.signal?.aborted
+            ? new CanceledError({ url, cause: error })
+            : new NetworkError({ url, method: 'get', cause: error }),
+        );
+      },
+    });
+    if (option.onDownloadProgress) {
+      task.onProgressUpdate(e => {
+        option.onDownloadProgress!({
+          loaded: e.totalBytesWritten,
+          total: e.totalBytesExpectedToWrite,
+          progress: e.progress / 100,
+        });
+      });
+    }
+    option.signal?.addEventListener?.('abort', onAbort);
+  });
+};
+
+/**
+ * 下载文件并保存
+ * <br />
+ * 浏览器使用 a 标签保存，uni 使用 downloadFile + saveFile，Node 传入 savePath 时写入文件
+ * <br />
+ * 后台返回 json 错误时会转换成标准的异常，走 errorHandler
+ * @param url 请求地址
+ * @param option 下载配置，默认使用 get 请求
+ * @param errorHandler 异常处理方法
+ */
+export const download = async (
+  url: string,
+  option: IDownloadOption = {},
+  errorHandler?: IErrorHandler,
+): Promise<IDownloadResult> => {
+  const { fileName, save = true, savePath, ...requestOption } = option;
+  const method = requestOption.method || 'get';
+  if (
+    requestOption.reqEnv === 'uni' ||
+    (!requestOption.reqEnv && typeof window === 'undefined' && typeof uni !== 'undefined' && !!uni.downloadFile)
+  ) {
+    return downloadInUni(joinBaseURL(requestOption.baseURL, url), { ...option, method }).catch(e => {
+      // 保存文件失败时是 uni 的原始异常
+      const error = toRequestError(e, { url, method });
+      if (errorHandler) {
+        errorHandler(error, option);
+      }
+      return Promise.reject(error);
+    });
+  }
+  let response: any;
+  const data = await binRequest(
+    url,
+    {
+      ...requestOption,
+      // Node 中使用 fetch
+      reqEnv: requestOption.reqEnv || (savePath && typeof window === 'undefined' ? 'fetch' : undefined),
+      method,
+      isFile: true,
+      cacheData: false,
+      interceptors: [
+        ...(requestOption.interceptors || []),
+        {
+          name: 'download',
+          onResponse: async (body, opt, res) => {
+            response = res;
+            if (typeof Blob !== 'undefined' && body instanceof Blob) {
+              const error = await parseBlobError(body, opt.url || url, opt.protocol);
+              if (error) {
+                throw error;
+              }
+            }
+            return body;
+          },
+        },
+      ],
+    },
+    errorHandler,
+  );
+  // errorContinue 时拿到的不是文件
+  const blob: Blob | undefined = typeof Blob !== 'undefined' && data instanceof Blob ? data : undefined;
+  const result: IDownloadResult = {
+    fileName:
+      fileName ||
+      parseContentDisposition(getResponseHeader(response, 'content-disposition')) ||
+      getUrlFileName(url) ||
+      'download',
+    blob,
+    contentType: blob?.type || getResponseHeader(response, 'content-type') || undefined,
+  };
+  if (!save || !blob) {
+    return result;
+  }
+  if (savePath) {
+    result.filePath = await saveInNode(blob, result.fileName, savePath);
+  } else if (typeof document !== 'undefined') {
+    saveInBrowser(blob, result.fileName);
+  }
+  return result;
+};
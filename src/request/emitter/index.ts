@@ -0,0 +1,92 @@
+type IListener<T> = (payload: T) => void;
+
+/**
+ * 简单的事件订阅
+ */
+export class Emitter<T extends Record<string, any>> {
+  private listeners: { [K in keyof T]?: IListener<T[K]>[] } = {};
+
+  /**
+   * 监听方法抛出异常时调用，不传则异步抛出，交给全局的错误处理
+   */
+  private onListenerError?: (error: any, event: keyof T) => void;
+
+  constructor(p: { onListenerError?: (error: any, event: keyof T) => void } = {}) {
+    this.onListenerError = p.onListenerError;
+  }
+
+  /**
+   * 订阅事件
+   * @param event 事件名
+   * @param listener 监听方法
+   * @returns 取消订阅的方法
+   */
+  on<K extends keyof T>(event: K, listener: IListener<T[K]>) {
+    this.listeners[event] = [...(this.listeners[event] || []), listener];
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * 订阅一次事件
+   * @param event 事件名
+   * @param listener 监听方法
+   */
+  once<K extends keyof T>(event: K, listener: IListener<T[K]>) {
+    const off = this.on(event, payload => {
+      off();
+      listener(payload);
+    });
+    return off;
+  }
+
+  /**
+   * 取消订阅，不传监听方法则取消该事件的所有订阅
+   * @param event 事件名
+   * @param listener 监听方法
+   */
+  off<K extends keyof T>(event: K, listener?: IListener<T[K]>) {
+    if (!listener) {
+      delete this.listeners[event];
+      return;
+    }
+    this.listeners[event] = (this.listeners[event] || []).filter(item => item !== listener);
+  }
+
+  /**
+   * 获取事件的订阅数量
+   * @param event 事件名
+   */
+  listenerCount<K extends keyof T>(event: K) {
+    return (this.listeners[event] || []).length;
+  }
+
+  /**
+   * 触发事件，监听方法的异常不会影响其他监听方法
+   * @param event 事件名
+   * @param payload 事件数据
+   */
+  emit<K extends keyof T>(event: K, payload: T[K]) {
+    (this.listeners[event] || []).forEach(listener => {
+      try {
+        listener(payload);
+      } catch (e) {
+        this.reportError(e, event);
+      }
+    });
+  }
+
+  /**
+   * 处理监听方法的异常
+   * @param error 异常
+   * @param event 事件名
+   */
+  private reportError(error: any, event: keyof T) {
+    if (this.onListenerError) {
+      this.onListenerError(error, event);
+      return;
+    }
+    setTimeout(() => {
+      throw error;
+    });
+  }
+}
@@ -0,0 +1,126 @@
+import {
+  BusinessError,
+  CanceledError,
+  HttpError,
+  isBusinessError,
+  isCanceledError,
+  isHttpError,
+  isNetworkError,
+  isNetworkFailure,
+  isRequestError,
+  isTimeoutError,
+  NetworkError,
+  RequestError,
+  TimeoutError,
+  toRequestError,
+} from '..';
+
+describe('RequestError', () => {
+  it('类型守卫只匹配对应的异常', () => {
+    const errors = [
+      new HttpError(404),
+      new BusinessError('失败', { code: 1 }),
+      new TimeoutError(),
+      new NetworkError(),
+      new CanceledError(),
+    ];
+    const guards = [isHttpError, isBusinessError, isTimeoutError, isNetworkError, isCanceledError];
+    guards.forEach((guard, index) => {
+      expect(errors.map(error => guard(error))).toEqual(errors.map((_, i) => i === index));
+    });
+    errors.forEach(error => {
+      expect(isRequestError(error)).toBe(true);
+      expect(error).toBeInstanceOf(Error);
+    });
+    expect(isRequestError(new Error('x'))).toBe(false);
+    expect(isHttpError({ type: 'http', status: 500 })).toBe(false);
+  });
+
+  it('异常带上类型、业务码和请求信息', () => {
+    const error = new HttpError(500, { url: '/api', method: 'get', reqUuid: 'id' });
+    expect(error).toMatchObject({ type: 'http', status: 500, code: 500, url: '/api', method: 'get', reqUuid: 'id' });
+    expect(error.msg).toBe(error.message);
+    expect(new TimeoutError()).toMatchObject({ type: 'timeout', code: 20 });
+    expect(new NetworkError()).toMatchObject({ type: 'network', code: 'transitional' });
+    expect(new CanceledError()).toMatchObject({ type: 'canceled', code: 'ERR_CANCELED', canceled: true });
+  });
+
+  it('业务异常复制后台返回的字段', () => {
+    const error = new BusinessError('余额不足', { code: 1001, data: { code: 1001, balance: 0, message: 'x' } });
+    expect(error).toMatchObject({ type: 'business', code: 1001, status: 1001, balance: 0 });
+    expect(error.message).toBe('余额不足');
+  });
+
+  it('toJSON 包含 message', () => {
+    expect(JSON.parse(JSON.stringify(new HttpError(502, { url: '/api' })))).toMatchObject({
+      name: 'HttpError',
+      type: 'http',
+      status: 502,
+      url: '/api',
+      message: expect.any(String),
+    });
+  });
+});
+
+describe('toRequestError', () => {
+  it('已经是请求异常的只补充缺少的信息', () => {
+    const error = new HttpError(500, { url: '/a' });
+    const converted = toRequestError(error, { url: '/b', method: 'post', elapsed: 10 });
+    expect(converted).toBe(error);
+    expect(converted).toMatchObject({ url: '/a', method: 'post', elapsed: 10 });
+  });
+
+  it('转换取消和超时的异常', () => {
+    expect(toRequestError({ code: 'ERR_CANCELED' })).toBeInstanceOf(CanceledError);
+    expect(toRequestError({ name: 'CanceledError' })).toBeInstanceOf(CanceledError);
+    expect(toRequestError({ code: 'ECONNABORTED' })).toBeInstanceOf(TimeoutError);
+    expect(toRequestError({ code: 'ETIMEDOUT' })).toBeInstanceOf(TimeoutError);
+  });
+
+  it('转换 axios 的 http 异常', () => {
+    const axiosError = { message: 'Request failed', response: { status: 403, data: { msg: '没有权限' } } };
+    const error = toRequestError(axiosError, { url: '/api' });
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error).toMatchObject({ status: 403, message: '没有权限', url: '/api', data: { msg: '没有权限' } });
+    expect(error.cause).toBe(axiosError);
+  });
+
+  it('转换各环境的网络异常', () => {
+    [
+      // Chrome
+      'Failed to fetch',
+      // React Native
+      'Network request failed',
+      // Node（undici）
+      'fetch failed',
+      // Firefox
+      'NetworkError when attempting to fetch resource.',
+      // Safari
+      'Load failed',
+    ].forEach(message => {
+      const error = toRequestError(new TypeError(message));
+      expect(error).toBeInstanceOf(NetworkError);
+      expect(isNetworkError(error)).toBe(true);
+      expect(isNetworkFailure(new TypeError(message))).toBe(true);
+    });
+    expect(toRequestError({ message: 'Network Error' })).toBeInstanceOf(NetworkError);
+    expect(toRequestError({ code: 'ERR_NETWORK' })).toBeInstanceOf(NetworkError);
+  });
+
+  it('其他 TypeError 和中断不是网络异常', () => {
+    expect(isNetworkFailure(new TypeError('Cannot read properties of undefined'))).toBe(false);
+    const abort = new Error('Failed to fetch');
+    abort.name = 'AbortError';
+    expect(isNetworkFailure(abort)).toBe(false);
+    expect(isNetworkFailure(undefined)).toBe(false);
+    expect(toRequestError(new TypeError('x is not a function'))).not.toBeInstanceOf(NetworkError);
+  });
+
+  it('其他异常转换成 RequestError', () => {
+    const error = toRequestError({ msg: '出错了', status: 418, code: 'E1' });
+    expect(error.constructor).toBe(RequestError);
+    expect(error).toMatchObject({ type: 'unknown', message: '出错了', status: 418, code: 'E1' });
+    expect(toRequestError('失败').message).toBe('失败');
+    expect(toRequestError(undefined).message).toBe('请求失败');
+  });
+});
@@ -0,0 +1,327 @@
+import { codeMessage } from '../httpCode';
+
+/**
+ * 请求异常的类型
+ */
+export type IRequestErrorType = 'http' | 'business' | 'timeout' | 'network' | 'canceled' | 'unknown';
+
+/**
+ * 创建请求异常的参数
+ */
+export interface IRequestErrorInit {
+  /**
+   * http 状态码
+   */
+  status?: number;
+  /**
+   * 业务码，超时为 20，网络异常为 transitional，取消为 ERR_CANCELED
+   */
+  code?: number | string;
+  /**
+   * 请求地址
+   */
+  url?: string;
+  /**
+   * 请求方法
+   */
+  method?: string;
+  /**
+   * 请求的唯一标识
+   */
+  reqUuid?: string;
+  /**
+   * 请求耗时（毫秒）
+   */
+  elapsed?: number;
+  /**
+   * 原始的异常
+   */
+  cause?: any;
+  /**
+   * 原始的响应
+   */
+  response?: any;
+  /**
+   * 后台返回的数据
+   */
+  data?: any;
+}
+
+/**
+ * 请求异常的基类
+ */
+export class RequestError extends Error {
+  /**
+   * 异常类型
+   */
+  type: IRequestErrorType = 'unknown';
+
+  /**
+   * 提示信息，和 message 相同
+   */
+  msg: string;
+
+  /**
+   * @deprecated 拼写错误，使用 msg
+   */
+  meg: string;
+
+  /**
+   * http 状态码
+   */
+  status?: number;
+
+  /**
+   * 状态码或者业务码的说明
+   */
+  statusText?: string;
+
+  /**
+   * 业务码，超时为 20，网络异常为 transitional，取消为 ERR_CANCELED
+   */
+  code?: number | string;
+
+  /**
+   * 请求地址
+   */
+  url?: string;
+
+  /**
+   * 请求方法
+   */
+  method?: string;
+
+  /**
+   * 请求的唯一标识
+   */
+  reqUuid?: string;
+
+  /**
+   * 请求耗时（毫秒）
+   */
+  elapsed?: number;
+
+  /**
+   * 原始的异常
+   */
+  cause?: any;
+
+  /**
+   * 原始的响应
+   */
+  response?: any;
+
+  /**
+   * 后台返回的数据
+   */
+  data?: any;
+
+  constructor(message: string, init: IRequestErrorInit = {}) {
+    super(message);
+    this.name = 'RequestError';
+    this.msg = message;
+    this.meg = message;
+    (Object.keys(init) as (keyof IRequestErrorInit)[]).forEach(key => {
+      if (typeof init[key] !== 'undefined') {
+        (this as any)[key] = init[key];
+      }
+    });
+  }
+
+  /**
+   * 记录日志时使用，Error 自带的 message 不会被 JSON.stringify
+   */
+  toJSON() {
+    return {
+      name: this.name,
+      type: this.type,
+      message: this.message,
+      msg: this.msg,
+      status: this.status,
+      statusText: this.statusText,
+      code: this.code,
+      url: this.url,
+      method: this.method,
+      reqUuid: this.reqUuid,
+      elapsed: this.elapsed,
+      data: this.data,
+    };
+  }
+}
+
+/**
+ * http 状态码异常
+ */
+export class HttpError extends RequestError {
+  type: IRequestErrorType = 'http';
+
+  status: number;
+
+  constructor(status: number, { message, ...init }: IRequestErrorInit & { message?: string } = {}) {
+    super(message || codeMessage[status] || `请求失败：${status}`, { code: status, ...init });
+    this.name = 'HttpError';
+    this.status = status;
+    this.statusText = codeMessage[status];
+  }
+}
+
+/**
+ * 业务异常，http 请求成功但是后台返回失败
+ * <br />
+ * 后台返回的字段会复制到异常上，兼容之前直接读取返回字段的写法
+ */
+export class BusinessError extends RequestError {
+  type: IRequestErrorType = 'business';
+
+  constructor(message: string, init: IRequestErrorInit = {}) {
+    super(message, init);
+    if (init.data && typeof init.data === 'object') {
+      Object.keys(init.data).forEach(key => {
+        if (!(key in this)) {
+          (this as any)[key] = init.data[key];
+        }
+      });
+    }
+    this.name = 'BusinessError';
+    this.status = init.status ?? (typeof init.code === 'number' ? init.code : undefined);
+    this.statusText = message;
+  }
+}
+
+/**
+ * 请求超时
+ */
+export class TimeoutError extends RequestError {
+  type: IRequestErrorType = 'timeout';
+
+  constructor(init: IRequestErrorInit = {}) {
+    super(codeMessage[20], { ...init, code: 20 });
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * 网络异常
+ */
+export class NetworkError extends RequestError {
+  type: IRequestErrorType = 'network';
+
+  constructor(init: IRequestErrorInit = {}) {
+    super(codeMessage.transitional, { ...init, code: 'transitional' });
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * 请求被取消
+ */
+export class CanceledError extends RequestError {
+  type: IRequestErrorType = 'canceled';
+
+  canceled = true;
+
+  constructor(init: IRequestErrorInit = {}) {
+    super(codeMessage.ERR_CANCELED, { ...init, code: 'ERR_CANCELED' });
+    this.name = 'CanceledError';
+  }
+}
+
+/**
+ * 是否是请求异常
+ * @param error 异常
+ */
+export const isRequestError = (error: any): error is RequestError => error instanceof RequestError;
+
+/**
+ * 是否是 http 状态码异常
+ * @param error 异常
+ */
+export const isHttpError = (error: any): error is HttpError => error instanceof HttpError;
+
+/**
+ * 是否是业务异常
+ * @param error 异常
+ */
+export const isBusinessError = (error: any): error is BusinessError => error instanceof BusinessError;
+
+/**
+ * 是否是超时异常
+ * @param error 异常
+ */
+export const isTimeoutError = (error: any): error is TimeoutError => error instanceof TimeoutError;
+
+/**
+ * 是否是网络异常
+ * @param error 异常
+ */
+export const isNetworkError = (error: any): error is NetworkError => error instanceof NetworkError;
+
+/**
+ * 是否是取消请求的异常
+ * @param error 异常
+ */
+export const isCanceledError = (error: any): error is CanceledError => error instanceof CanceledError;
+
+// 各环境断网时的异常信息：Chrome、React Native、Node（undici）、Firefox、Safari、axios
+const NETWORK_FAILURE_MESSAGES = [
+  'Failed to fetch',
+  'Network request failed',
+  'fetch failed',
+  'NetworkError when attempting to fetch resource.',
+  'Load failed',
+  'Network Error',
+];
+
+/**
+ * 是否是底层请求库抛出的网络失败（断网、连接被拒绝、DNS 失败等），不包括中断请求
+ * @param error 原始异常
+ */
+export const isNetworkFailure = (error: any) => {
+  if (!error || error.name === 'AbortError') {
+    return false;
+  }
+  return (
+    error instanceof NetworkError ||
+    error.code === 'transitional' ||
+    error.code === 'ERR_NETWORK' ||
+    NETWORK_FAILURE_MESSAGES.includes(error.message)
+  );
+};
+
+/**
+ * 把 axios、fetch、uni 等各种异常转换成对应的请求异常，已经是请求异常的只补充缺少的请求信息
+ * @param error 原始异常
+ * @param init 请求信息
+ */
+export const toRequestError = (error: any, init: IRequestErrorInit = {}): RequestError => {
+  if (error instanceof RequestError) {
+    (Object.keys(init) as (keyof IRequestErrorInit)[]).forEach(key => {
+      if (typeof error[key] === 'undefined') {
+        (error as any)[key] = init[key];
+      }
+    });
+    return error;
+  }
+  const info: IRequestErrorInit = { ...init, cause: error };
+  if (error?.code === 'ERR_CANCELED' || error?.name === 'CanceledError') {
+    return new CanceledError(info);
+  }
+  if (error?.code === 'ECONNABORTED' || error?.code === 'ETIMEDOUT' || error?.code === 20) {
+    return new TimeoutError(info);
+  }
+  // axios 的 http 异常
+  const status = error?.response?.status;
+  if (status) {
+    return new HttpError(status, {
+      ...info,
+      message: error.response.data?.msg,
+      response: error.response,
+      data: error.response.data,
+    });
+  }
+  if (isNetworkFailure(error)) {
+    return new NetworkError(info);
+  }
+  const message = error?.msg || error?.message || (typeof error === 'string' ? error : '请求失败');
+  return new RequestError(message, { ...info, status: error?.status, code: error?.code });
+};
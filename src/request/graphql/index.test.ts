@@ -0,0 +1,211 @@
+import { BusinessError, createGraphQLClient, GraphQLCache, graphql, MockAdapter, RequestError } from '..';
+import type { IGraphQLOption } from '..';
+
+describe('graphql', () => {
+  const mock = new MockAdapter();
+  // 每次请求的请求体
+  let bodies: any[] = [];
+
+  const request = (query: string, variables?: Record<string, any>, option: IGraphQLOption = {}) =>
+    graphql(query, variables, { reqEnv: 'mock', mockAdapter: mock, ...option });
+
+  beforeEach(() => {
+    bodies = [];
+    mock.reset();
+  });
+
+  /**
+   * 注册 GraphQL 接口
+   * @param url 地址
+   * @param reply 根据请求体返回响应
+   */
+  const onGraphQL = (url: string, reply: (body: any) => any) => {
+    mock.onPost(url, req => {
+      bodies.push(req.data);
+      return reply(req.data);
+    });
+  };
+
+  it('发送 json 格式的 post 请求，返回 data', async () => {
+    onGraphQL('/graphql', () => ({ data: { user: { name: 'bin' } } }));
+    const data = await request('query($id: ID!) { user(id: $id) { name } }', { id: 1 }, {
+      operationName: 'GetUser',
+      extensions: { trace: true },
+    });
+    expect(data).toEqual({ user: { name: 'bin' } });
+    expect(bodies).toEqual([
+      {
+        query: 'query($id: ID!) { user(id: $id) { name } }',
+        variables: { id: 1 },
+        operationName: 'GetUser',
+        extensions: { trace: true },
+      },
+    ]);
+  });
+
+  it('errors 转换成 BusinessError，可以读取部分返回的 data', async () => {
+    const response = {
+      data: { user: null },
+      errors: [
+        { message: '没有权限', path: ['user'], extensions: { code: 'FORBIDDEN' } },
+        { message: '其他错误' },
+      ],
+    };
+    onGraphQL('/graphql', () => response);
+    const error = await request('{ user { name } }').catch(e => e);
+    expect(error).toBeInstanceOf(BusinessError);
+    expect(error).toMatchObject({ message: '没有权限', code: 'FORBIDDEN', url: '/graphql', method: 'post' });
+    expect(error.data).toEqual(response);
+
+    onGraphQL('/graphql', () => ({ message: 'not graphql' }));
+    const invalid = await request('{ user { name } }').catch(e => e);
+    expect(invalid).toBeInstanceOf(RequestError);
+    expect(invalid.message).toContain('格式不正确');
+  });
+
+  describe('持久化查询', () => {
+    const query = '{ me { name } }';
+
+    it('先只发送 hash，PERSISTED_QUERY_NOT_FOUND 时带上完整的查询重新发送', async () => {
+      onGraphQL('/apq', body =>
+        body.query
+          ? { data: { me: { name: 'bin' } } }
+          : { errors: [{ message: 'PersistedQueryNotFound', extensions: { code: 'PERSISTED_QUERY_NOT_FOUND' } }] },
+      );
+      expect(await request(query, undefined, { url: '/apq', persisted: true })).toEqual({ me: { name: 'bin' } });
+      const [first, second] = bodies;
+      expect(first).toEqual({ extensions: { persistedQuery: { version: 1, sha256Hash: expect.any(String) } } });
+      expect(first.extensions.persistedQuery.sha256Hash).toMatch(/^[\da-f]{64}$/);
+      expect(second).toEqual({ query, extensions: first.extensions });
+
+      // 服务端保存后只发送 hash
+      onGraphQL('/apq', () => ({ data: { me: { name: 'saved' } } }));
+      expect(await request(query, undefined, { url: '/apq', persisted: true })).toEqual({ me: { name: 'saved' } });
+      expect(bodies[2]).toEqual(first);
+    });
+
+    it('PERSISTED_QUERY_NOT_SUPPORTED 时记录地址，之后直接发送完整的查询', async () => {
+      onGraphQL('/no-apq', body =>
+        body.query
+          ? { data: { me: { name: 'bin' } } }
+          : { errors: [{ message: 'PersistedQueryNotSupported' }] },
+      );
+      expect(await request(query, undefined, { url: '/no-apq', persisted: true })).toEqual({ me: { name: 'bin' } });
+      expect(bodies[1]).toEqual({ query });
+      await request(query, undefined, { url: '/no-apq', persisted: true });
+      expect(bodies).toHaveLength(3);
+      expect(bodies[2]).toEqual({ query });
+    });
+  });
+
+  describe('GraphQLCache', () => {
+    const userQuery = 'query($id: ID!) { user(id: $id) { __typename id name email } }';
+    const listQuery = '{ users { __typename id name } }';
+
+    it('按 __typename:id 拆分保存，不同查询共用同一个对象，字段合并', () => {
+      const cache = new GraphQLCache();
+      cache.writeQuery(userQuery, { id: 1 }, { user: { __typename: 'User', id: 1, name: 'bin', email: 'a@b.c' } });
+      cache.writeQuery(listQuery, undefined, {
+        users: [
+          { __typename: 'User', id: 1, name: 'bin2' },
+          { __typename: 'User', id: 2, name: 'other' },
+        ],
+      });
+      expect(cache.readEntity('User:1')).toEqual({ __typename: 'User', id: 1, name: 'bin2', email: 'a@b.c' });
+      // 查询语句的空白不影响缓存
+      expect(cache.readQuery(`  ${userQuery.replace(/ /g, '\n')}`, { id: 1 })).toEqual({
+        user: { __typename: 'User', id: 1, name: 'bin2', email: 'a@b.c' },
+      });
+      expect(cache.readQuery(userQuery, { id: 2 })).toBeUndefined();
+
+      cache.writeEntity('User:2', { name: 'changed' });
+      expect(cache.readQuery(listQuery)).toEqual({
+        users: [
+          { __typename: 'User', id: 1, name: 'bin2', email: 'a@b.c' },
+          { __typename: 'User', id: 2, name: 'changed' },
+        ],
+      });
+    });
+
+    it('evict 后引用了该对象的查询返回 undefined', () => {
+      const cache = new GraphQLCache();
+      cache.writeQuery(listQuery, undefined, {
+        users: [
+          { __typename: 'User', id: 1, name: 'a' },
+          { __typename: 'User', id: 2, name: 'b' },
+        ],
+      });
+      cache.writeQuery(userQuery, { id: 1 }, { user: { __typename: 'User', id: 1, name: 'a', email: 'e' } });
+      expect(cache.evict('User:2')).toBe(true);
+      expect(cache.readQuery(listQuery)).toBeUndefined();
+      expect(cache.readQuery(userQuery, { id: 1 })).toBeDefined();
+      expect(cache.evict('User:2')).toBe(false);
+      cache.clear();
+      expect(cache.readQuery(userQuery, { id: 1 })).toBeUndefined();
+    });
+
+    it('没有 id 的对象保存在查询结果中，支持自定义缓存 key', () => {
+      const cache = new GraphQLCache({ dataIdFromObject: value => value.code && `Dict:${value.code}` });
+      cache.writeQuery('{ dicts { code label } stats { total } }', undefined, {
+        dicts: [{ code: 'a', label: 'A' }],
+        stats: { total: 1 },
+      });
+      expect(cache.readEntity('Dict:a')).toEqual({ code: 'a', label: 'A' });
+      expect(cache.readQuery('{ dicts { code label } stats { total } }')).toEqual({
+        dicts: [{ code: 'a', label: 'A' }],
+        stats: { total: 1 },
+      });
+    });
+  });
+
+  describe('缓存策略', () => {
+    const query = '{ me { __typename id name } }';
+
+    it('cache-first 有缓存时不发请求，network-only 总是请求，cache-only 没有缓存时抛出异常', async () => {
+      let count = 0;
+      onGraphQL('/graphql', () => ({ data: { me: { __typename: 'User', id: 1, name: `v${++count}` } } }));
+      const cache = new GraphQLCache();
+      await expect(request(query, undefined, { cache, fetchPolicy: 'cache-only' })).rejects.toMatchObject({
+        code: 'ERR_GRAPHQL_CACHE_MISS',
+      });
+      expect(await request(query, undefined, { cache })).toEqual({ me: { __typename: 'User', id: 1, name: 'v1' } });
+      expect((await request(query, undefined, { cache })).me.name).toBe('v1');
+      expect((await request(query, undefined, { cache, fetchPolicy: 'network-only' })).me.name).toBe('v2');
+      expect((await request(query, undefined, { cache, fetchPolicy: 'cache-only' })).me.name).toBe('v2');
+      expect((await request(query, undefined, { cache, fetchPolicy: 'no-cache' })).me.name).toBe('v3');
+      expect(cache.readEntity('User:1').name).toBe('v2');
+      expect(bodies).toHaveLength(3);
+    });
+
+    it('开头有注释的 mutation 也按修改处理，总是请求并更新缓存中的对象', async () => {
+      const cache = new GraphQLCache();
+      cache.writeQuery(query, undefined, { me: { __typename: 'User', id: 1, name: 'old' } });
+      onGraphQL('/graphql', body => ({ data: { rename: { __typename: 'User', id: 1, name: body.variables.name } } }));
+      const mutation = '# 修改名字\n  # 第二行注释\nmutation($name: String!) { rename(name: $name) { __typename id name } }';
+      // 相同的变量也不会读取缓存
+      await request(mutation, { name: 'b' }, { cache });
+      await request(mutation, { name: 'b' }, { cache });
+      expect(bodies).toHaveLength(2);
+      expect(cache.readQuery(query)).toEqual({ me: { __typename: 'User', id: 1, name: 'b' } });
+    });
+  });
+
+  it('createGraphQLClient 固定地址，合并请求头，默认带上缓存', async () => {
+    const headers: any[] = [];
+    mock.onPost('/api/graphql', req => {
+      headers.push(req.headers);
+      return { data: { me: { __typename: 'User', id: 1 } } };
+    });
+    const client = createGraphQLClient('/api/graphql', {
+      reqEnv: 'mock',
+      mockAdapter: mock,
+      headers: { 'X-App': 'a' },
+    });
+    await client.request('{ me { __typename id } }', undefined, { headers: { 'X-Trace': '1' } });
+    await client.request('{ me { __typename id } }');
+    expect(headers).toHaveLength(1);
+    expect(headers[0]).toMatchObject({ 'X-App': 'a', 'X-Trace': '1' });
+    expect(client.cache?.readEntity('User:1')).toEqual({ __typename: 'User', id: 1 });
+    expect(createGraphQLClient('/api/graphql', { cache: false }).cache).toBeUndefined();
+  });
+});
@@ -0,0 +1,420 @@
+import binRequest from '../binRequest';
+import { BusinessError, RequestError } from '../errors';
+import { buildCacheKey } from '../httpUtils';
+import { IRequestOption } from '../typings';
+import cryptoUtils from '../../core/cryptoUtils';
+
+/**
+ * GraphQL 返回的错误
+ */
+export interface IGraphQLErrorItem {
+  message: string;
+  locations?: { line: number; column: number }[];
+  path?: (string | number)[];
+  extensions?: { code?: string | number; [key: string]: any };
+}
+
+/**
+ * GraphQL 的响应
+ */
+export interface IGraphQLResponse<T = any> {
+  data?: T | null;
+  errors?: IGraphQLErrorItem[];
+  extensions?: Record<string, any>;
+}
+
+/**
+ * 缓存策略
+ * <br />
+ * cache-first 有缓存时不发请求，network-only 总是发请求并写入缓存，cache-only 只读缓存，no-cache 不读也不写缓存
+ */
+export type IGraphQLFetchPolicy = 'cache-first' | 'network-only' | 'cache-only' | 'no-cache';
+
+/**
+ * GraphQL 请求配置，其余配置会传给 binRequest
+ */
+export interface IGraphQLOption extends IRequestOption {
+  /**
+   * 操作名，文档中有多个操作时必传
+   */
+  operationName?: string;
+  /**
+   * 是否使用持久化查询（Apollo APQ），先只发送 sha256，服务端没有时再发送完整的查询
+   */
+  persisted?: boolean;
+  /**
+   * 规范化缓存，不传则不缓存
+   */
+  cache?: GraphQLCache;
+  /**
+   * 缓存策略，查询默认 cache-first，修改总是发请求并把返回的对象写入缓存
+   */
+  fetchPolicy?: IGraphQLFetchPolicy;
+  /**
+   * 额外的 extensions
+   */
+  extensions?: Record<string, any>;
+}
+
+/**
+ * 缓存中对象的引用
+ */
+type IRef = { __ref: string };
+
+const isRef = (value: any): value is IRef => !!value && typeof value === 'object' && typeof value.__ref === 'string';
+
+const isPlainObject = (value: any) => !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * 默认的缓存 key，有 __typename 和 id（或 _id）的对象使用 `__typename:id`
+ * @param value 返回的对象
+ */
+export const defaultDataIdFromObject = (value: any): string | undefined => {
+  const id = value?.id ?? value?._id;
+  if (!value?.__typename || id === undefined || id === null) {
+    return undefined;
+  }
+  return `${value.__typename}:${id}`;
+};
+
+/**
+ * GraphQL 规范化缓存
+ * <br />
+ * 返回的对象按 `__typename:id` 拆分保存，不同查询返回的同一个对象共用一份数据，修改返回新数据后所有查询读到的都是新数据
+ * <br />
+ * 查询中需要带上 __typename 和 id 字段，没有的对象保存在查询结果中
+ */
+export class GraphQLCache {
+  private entities = new Map<string, Record<string, any>>();
+
+  private results = new Map<string, any>();
+
+  private dataIdFromObject: (value: any) => string | undefined;
+
+  constructor(p: { dataIdFromObject?: (value: any) => string | undefined } = {}) {
+    this.dataIdFromObject = p.dataIdFromObject || defaultDataIdFromObject;
+  }
+
+  /**
+   * 获取对象的缓存 key
+   * @param value 返回的对象
+   */
+  identify(value: any) {
+    return isPlainObject(value) ? this.dataIdFromObject(value) : undefined;
+  }
+
+  /**
+   * 拆分对象，有缓存 key 的对象合并到 entities 中并替换成引用
+   * @param value 返回的数据
+   */
+  private normalize(value: any): any {
+    if (Array.isArray(value)) {
+      return value.map(item => this.normalize(item));
+    }
+    if (!isPlainObject(value)) {
+      return value;
+    }
+    const fields: Record<string, any> = {};
+    Object.keys(value).forEach(key => {
+      fields[key] = this.normalize(value[key]);
+    });
+    const id = this.identify(value);
+    if (!id) {
+      return fields;
+    }
+    // 不同查询选择的字段不同，合并而不是覆盖
+    this.entities.set(id, { ...this.entities.get(id), ...fields });
+    return { __ref: id };
+  }
+
+  /**
+   * 还原引用，引用的对象不存在时返回 undefined
+   * @param value 缓存的数据
+   * @param seen 正在还原的引用，避免循环引用
+   */
+  private denormalize(value: any, seen: string[] = []): { value: any; missing: boolean } {
+    if (Array.isArray(value)) {
+      let missing = false;
+      const list = value.map(item => {
+        const result = this.denormalize(item, seen);
+        missing = missing || result.missing;
+        return result.value;
+      });
+      return { value: list, missing };
+    }
+    if (isRef(value)) {
+      const entity = this.entities.get(value.__ref);
+      if (!entity) {
+        return { value: undefined, missing: true };
+      }
+      if (seen.includes(value.__ref)) {
+        return { value: entity, missing: false };
+      }
+      return this.denormalize(entity, [...seen, value.__ref]);
+    }
+    if (!isPlainObject(value)) {
+      return { value, missing: false };
+    }
+    let missing = false;
+    const fields: Record<string, any> = {};
+    Object.keys(value).forEach(key => {
+      const result = this.denormalize(value[key], seen);
+      missing = missing || result.missing;
+      fields[key] = result.value;
+    });
+    return { value: fields, missing };
+  }
+
+  /**
+   * 生成查询结果的 key
+   * @param query 查询语句
+   * @param variables 变量
+   */
+  private resultKey(query: string, variables?: Record<string, any>) {
+    return buildCacheKey(query.replace(/\s+/g, ' ').trim(), variables || {});
+  }
+
+  /**
+   * 读取查询的缓存，没有或者引用的对象被移除时返回 undefined
+   * @param query 查询语句
+   * @param variables 变量
+   */
+  readQuery<T = any>(query: string, variables?: Record<string, any>): T | undefined {
+    const key = this.resultKey(query, variables);
+    if (!this.results.has(key)) {
+      return undefined;
+    }
+    const { value, missing } = this.denormalize(this.results.get(key));
+    return missing ? undefined : value;
+  }
+
+  /**
+   * 写入查询的结果
+   * @param query 查询语句
+   * @param variables 变量
+   * @param data 查询结果
+   */
+  writeQuery(query: string, variables: Record<string, any> | undefined, data: any) {
+    this.results.set(this.resultKey(query, variables), this.normalize(data));
+  }
+
+  /**
+   * 只把结果中的对象写入缓存，用于修改的结果
+   * @param data 返回的数据
+   */
+  writeData(data: any) {
+    this.normalize(data);
+  }
+
+  /**
+   * 读取缓存的对象
+   * @param id 缓存 key，`__typename:id`
+   */
+  readEntity<T = any>(id: string): T | undefined {
+    return this.entities.has(id) ? this.denormalize({ __ref: id }).value : undefined;
+  }
+
+  /**
+   * 修改缓存的对象，不存在时新建
+   * @param id 缓存 key，`__typename:id`
+   * @param fields 需要修改的字段
+   */
+  writeEntity(id: string, fields: Record<string, any>) {
+    const normalized: Record<string, any> = {};
+    Object.keys(fields).forEach(key => {
+      normalized[key] = this.normalize(fields[key]);
+    });
+    this.entities.set(id, { ...this.entities.get(id), ...normalized });
+  }
+
+  /**
+   * 移除缓存的对象，引用了它的查询会重新请求
+   * @param id 缓存 key，`__typename:id`
+   */
+  evict(id: string) {
+    return this.entities.delete(id);
+  }
+
+  /**
+   * 清空缓存
+   */
+  clear() {
+    this.entities.clear();
+    this.results.clear();
+  }
+}
+
+// 持久化查询的 hash，避免重复计算
+const hashCache = new Map<string, string>();
+
+// 不支持持久化查询的地址
+const unsupportedPersistedUrls = new Set<string>();
+
+/**
+ * 是否是修改操作
+ * @param query 查询语句
+ */
+const isMutation = (query: string) => /^\s*(#[^\n]*\n\s*)*mutation\b/.test(query);
+
+// 持久化查询的错误码和 Apollo 的错误信息
+const PERSISTED_ERRORS = {
+  notFound: ['PERSISTED_QUERY_NOT_FOUND', 'PersistedQueryNotFound'],
+  notSupported: ['PERSISTED_QUERY_NOT_SUPPORTED', 'PersistedQueryNotSupported'],
+};
+
+/**
+ * 是否有持久化查询的错误
+ * @param errors 返回的错误
+ * @param type 错误类型
+ */
+const hasPersistedError = (errors: IGraphQLErrorItem[] | undefined, type: keyof typeof PERSISTED_ERRORS) => {
+  const [code, message] = PERSISTED_ERRORS[type];
+  return !!errors?.some(item => item.extensions?.code === code || item.message === message);
+};
+
+/**
+ * 发起 GraphQL 请求
+ * <br />
+ * 使用 binRequest 发送 json 格式的 post 请求，返回 data，errors 不为空时抛出 BusinessError，
+ * code 为第一个错误的 extensions.code，errors 和部分返回的 data 可以从异常上读取
+ * @param query 查询语句
+ * @param variables 变量
+ * @param option 请求配置，url 为 GraphQL 的地址，默认 /graphql
+ * @example
+ * const { user } = await graphql('query($id: ID!) { user(id: $id) { __typename id name } }', { id: 1 });
+ */
+export const graphql = async <T = any, V extends Record<string, any> = Record<string, any>>(
+  query: string,
+  variables?: V,
+  option: IGraphQLOption = {},
+): Promise<T> => {
+  const {
+    url = '/graphql',
+    operationName,
+    persisted,
+    cache,
+    fetchPolicy = 'cache-first',
+    extensions,
+    ...requestOption
+  } = option;
+  const mutation = isMutation(query);
+  if (cache && !mutation && (fetchPolicy === 'cache-first' || fetchPolicy === 'cache-only')) {
+    const cached = cache.readQuery<T>(query, variables);
+    if (cached !== undefined) {
+      return cached;
+    }
+    if (fetchPolicy === 'cache-only') {
+      throw new RequestError('GraphQL 缓存中没有查询结果', { url, code: 'ERR_GRAPHQL_CACHE_MISS' });
+    }
+  }
+
+  const send = (withQuery: boolean, sha256Hash?: string): Promise<IGraphQLResponse<T>> =>
+    binRequest(url, {
+      ...requestOption,
+      method: 'post',
+      manner: 'json',
+      params: {
+        ...(withQuery ? { query } : {}),
+        ...(variables ? { variables } : {}),
+        ...(operationName ? { operationName } : {}),
+        ...(extensions || sha256Hash
+          ? { extensions: { ...extensions, ...(sha256Hash ? { persistedQuery: { version: 1, sha256Hash } } : {}) } }
+          : {}),
+      },
+      // GraphQL 的响应不是业务结构，原样返回再解析 errors
+      protocol: { success: () => true, dataPath: '' },
+    });
+
+  let body: IGraphQLResponse<T>;
+  if (persisted && !unsupportedPersistedUrls.has(url)) {
+    let sha256Hash = hashCache.get(query);
+    if (!sha256Hash) {
+      sha256Hash = cryptoUtils.sha256(query);
+      hashCache.set(query, sha256Hash);
+    }
+    body = await send(false, sha256Hash);
+    if (hasPersistedError(body?.errors, 'notSupported')) {
+      unsupportedPersistedUrls.add(url);
+      body = await send(true);
+    } else if (hasPersistedError(body?.errors, 'notFound')) {
+      // 服务端没有这个查询，带上完整的查询重新发送，服务端会保存下来
+      body = await send(true, sha256Hash);
+    }
+  } else {
+    body = await send(true);
+  }
+
+  if (!body || typeof body !== 'object' || (!('data' in body) && !body.errors)) {
+    throw new RequestError('GraphQL 响应格式不正确', { url, method: 'post', data: body });
+  }
+  if (body.errors?.length) {
+    const [first] = body.errors;
+    throw new BusinessError(first.message || 'GraphQL 请求失败', {
+      code: first.extensions?.code,
+      url,
+      method: 'post',
+      data: body,
+    });
+  }
+  const data = body.data as T;
+  if (cache && fetchPolicy !== 'no-cache') {
+    if (mutation) {
+      cache.writeData(data);
+    } else {
+      cache.writeQuery(query, variables, data);
+    }
+  }
+  return data;
+};
+
+/**
+ * GraphQL 客户端配置
+ */
+export interface IGraphQLClientOption extends Omit<IGraphQLOption, 'cache'> {
+  /**
+   * 规范化缓存，默认新建一个，false 不缓存
+   */
+  cache?: GraphQLCache | false;
+}
+
+/**
+ * GraphQL 客户端
+ */
+export interface IGraphQLClient {
+  /**
+   * 客户端的缓存
+   */
+  readonly cache?: GraphQLCache;
+  /**
+   * 发起请求，配置会和客户端的配置合并
+   */
+  request: <T = any, V extends Record<string, any> = Record<string, any>>(
+    query: string,
+    variables?: V,
+    option?: IGraphQLOption
+  ) => Promise<T>;
+}
+
+/**
+ * 创建 GraphQL 客户端，固定地址和默认配置，默认带上规范化缓存
+ * @param url GraphQL 的地址
+ * @param option 客户端配置
+ * @example
+ * const client = createGraphQLClient('/graphql', { persisted: true });
+ * const data = await client.request('{ me { __typename id name } }');
+ */
+export const createGraphQLClient = (url: string, option: IGraphQLClientOption = {}): IGraphQLClient => {
+  const { cache: cacheOption, ...defaults } = option;
+  const cache = cacheOption === false ? undefined : cacheOption || new GraphQLCache();
+  return {
+    cache,
+    request: (query, variables, requestOption = {}) =>
+      graphql(query, variables, {
+        ...defaults,
+        url,
+        cache,
+        ...requestOption,
+        headers: { ...defaults.headers, ...requestOption.headers },
+      }),
+  };
+};
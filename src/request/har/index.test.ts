@@ -0,0 +1,100 @@
+import binRequest, { exportHar, isHttpError, isNetworkError, MockAdapter, mockReply, ReqQueue, replayHar } from '..';
+import type { IHar, IRequestOption } from '..';
+
+describe('har', () => {
+  const mock = new MockAdapter();
+  const logQueue = new ReqQueue({ maxQueueLength: 100 });
+
+  const record = (url: string, option: IRequestOption = {}) =>
+    binRequest(url, { method: 'get', reqEnv: 'mock', mockAdapter: mock, cacheLog: true, logQueue, ...option });
+
+  beforeEach(() => {
+    mock.reset();
+    logQueue.clear();
+  });
+
+  it('导出的 HAR 回放后返回相同的响应', async () => {
+    let count = 0;
+    mock.onGet('/api/user', () => ({ code: 0, result: { name: 'bin', count: ++count } }));
+    mock.onPost('/api/save', req => ({ code: 0, result: req.data }));
+    mock.onGet('/api/missing', mockReply({ status: 404, data: { msg: 'not found' } }));
+    mock.onGet('/api/offline', mockReply({ networkError: true }));
+
+    await record('/api/user', { params: { id: 1 } });
+    await record('/api/user', { params: { id: 1 } });
+    await record('/api/save', { method: 'post', data: { a: 1 } });
+    await record('/api/missing').catch(() => undefined);
+    await record('/api/offline').catch(() => undefined);
+
+    const har: IHar = JSON.parse(JSON.stringify(exportHar(logQueue)));
+    expect(har.log.version).toBe('1.2');
+    expect(har.log.entries).toHaveLength(5);
+    expect(har.log.entries[0].request).toMatchObject({ method: 'GET', queryString: [{ name: 'id', value: '1' }] });
+    expect(har.log.entries[2].request.postData).toMatchObject({ text: '{"a":1}' });
+
+    const replay = replayHar(har);
+    const request = (url: string, option: IRequestOption = {}) =>
+      binRequest(url, { method: 'get', reqEnv: 'mock', mockAdapter: replay, ...option });
+    // 相同地址按录制的顺序返回，用完后一直返回最后一次
+    expect(await request('/api/user', { params: { id: 1 } })).toEqual({ name: 'bin', count: 1 });
+    expect(await request('/api/user', { params: { id: 1 } })).toEqual({ name: 'bin', count: 2 });
+    expect(await request('/api/user', { params: { id: 1 } })).toEqual({ name: 'bin', count: 2 });
+    expect(await request('/api/save', { method: 'post', data: { a: 1 } })).toEqual({ a: 1 });
+    await expect(request('/api/missing')).rejects.toMatchObject({ status: 404 });
+    expect(isNetworkError(await request('/api/offline').catch(e => e))).toBe(true);
+  });
+
+  it('没有记录响应的 http 异常按状态码回放', async () => {
+    mock.onGet('/api/busy', mockReply({ status: 503 }));
+    await record('/api/busy').catch(() => undefined);
+    const har = exportHar(logQueue);
+    const [entry] = har.log.entries;
+    expect(entry._error).toMatchObject({ type: 'http', status: 503 });
+    // 自定义 validateStatus 时请求库直接抛出异常，日志中没有响应
+    entry.response = { ...entry.response, status: 0, headers: [], content: { size: 0, mimeType: '' } };
+
+    const replay = replayHar(har);
+    const error = await binRequest('/api/busy', { method: 'get', reqEnv: 'mock', mockAdapter: replay }).catch(e => e);
+    expect(isHttpError(error)).toBe(true);
+    expect(error.status).toBe(503);
+  });
+
+  it('取消的请求不会回放', async () => {
+    mock.onGet('/api/slow', 'ok', { delay: 100 });
+    const controller = new AbortController();
+    const promise = record('/api/slow', { signal: controller.signal });
+    controller.abort();
+    await promise.catch(() => undefined);
+    const replay = replayHar(exportHar(logQueue));
+    const res = await replay.request('/api/slow');
+    expect(res.status).toBe(404);
+  });
+
+  it('默认遮盖认证相关的请求头和参数', async () => {
+    mock.onPost('/api/login', mockReply({ data: { code: 0, result: 'ok' }, headers: { 'set-cookie': 'sid=secret-sid' } }));
+    await record('/api/login?access_token=secret-query&page=1', {
+      method: 'post',
+      headers: { Authorization: 'Bearer secret-bearer', 'X-Csrf-Token': 'secret-csrf', 'X-App': 'a' },
+      data: { name: 'bin', token: 'secret-body' },
+    });
+
+    const text = JSON.stringify(exportHar(logQueue));
+    ['secret-bearer', 'secret-csrf', 'secret-query', 'secret-body', 'secret-sid'].forEach(secret =>
+      expect(text).not.toContain(secret),
+    );
+    const { request, response } = exportHar(logQueue).log.entries[0];
+    expect(request.headers).toEqual(expect.arrayContaining([
+      { name: 'authorization', value: '******' },
+      { name: 'x-app', value: 'a' },
+    ]));
+    expect(request.queryString).toEqual([
+      { name: 'access_token', value: '******' },
+      { name: 'page', value: '1' },
+    ]);
+    expect(JSON.parse(request.postData?.text || '')).toEqual({ name: 'bin', token: '******' });
+    expect(response.headers).toContainEqual({ name: 'set-cookie', value: '******' });
+
+    // 日志队列中保存的是原始数据，可以关闭遮盖
+    expect(JSON.stringify(exportHar(logQueue, { redact: false }))).toContain('secret-bearer');
+  });
+});
@@ -0,0 +1,429 @@
+import { SENSITIVE_HEADERS } from '../httpUtils';
+import { MockAdapter, mockReply } from '../mock';
+import ReqQueue, { IReqRecord, IReqRecordError } from '../ReqQueue';
+
+export interface IHarNameValue {
+  name: string;
+  value: string;
+}
+
+export interface IHarPostData {
+  mimeType: string;
+  text?: string;
+  params?: (IHarNameValue & { fileName?: string; contentType?: string })[];
+}
+
+export interface IHarContent {
+  size: number;
+  mimeType: string;
+  text?: string;
+}
+
+export interface IHarRequest {
+  method: string;
+  url: string;
+  httpVersion: string;
+  cookies: IHarNameValue[];
+  headers: IHarNameValue[];
+  queryString: IHarNameValue[];
+  postData?: IHarPostData;
+  headersSize: number;
+  bodySize: number;
+}
+
+export interface IHarResponse {
+  status: number;
+  statusText: string;
+  httpVersion: string;
+  cookies: IHarNameValue[];
+  headers: IHarNameValue[];
+  content: IHarContent;
+  redirectURL: string;
+  headersSize: number;
+  bodySize: number;
+}
+
+export interface IHarTimings {
+  blocked: number;
+  dns: number;
+  connect: number;
+  send: number;
+  wait: number;
+  receive: number;
+  ssl: number;
+}
+
+/**
+ * HAR 的一条请求，_reqUuid、_error、_retries 为自定义字段
+ */
+export interface IHarEntry {
+  startedDateTime: string;
+  time: number;
+  request: IHarRequest;
+  response: IHarResponse;
+  cache: Record<string, never>;
+  timings: IHarTimings;
+  _reqUuid?: string;
+  _error?: IReqRecordError;
+  _retries?: number;
+}
+
+/**
+ * HAR 1.2 文件
+ */
+export interface IHar {
+  log: {
+    version: string;
+    creator: { name: string; version: string };
+    entries: IHarEntry[];
+  };
+}
+
+/**
+ * 导出配置
+ */
+export interface IHarExportOption {
+  /**
+   * 生成 HAR 的工具信息
+   */
+  creator?: { name: string; version: string };
+  /**
+   * 过滤需要导出的请求
+   */
+  filter?: (record: IReqRecord) => boolean;
+  /**
+   * 是否遮盖认证相关的请求头和参数（Authorization、Cookie、token、csrf），默认 true
+   * <br />
+   * 地址中的参数被遮盖后，回放时带有这些参数的请求不会匹配
+   */
+  redact?: boolean;
+}
+
+/**
+ * 回放配置
+ */
+export interface IHarReplayOption {
+  /**
+   * 注册路由的模拟请求适配器，默认新建一个
+   */
+  adapter?: MockAdapter;
+  /**
+   * 是否按录制时的等待时间延迟响应，默认 false
+   */
+  delay?: boolean;
+  /**
+   * 是否匹配域名，默认 false，只匹配路径和查询参数，方便在其他环境回放
+   */
+  matchOrigin?: boolean;
+}
+
+const JSON_MIME = 'application/json';
+
+const REDACTED = '******';
+
+/**
+ * 对象转换成 HAR 的 name/value 数组
+ * @param data 对象
+ */
+const toNameValues = (data: Record<string, string>): IHarNameValue[] =>
+  Object.keys(data).map(name => ({ name, value: data[name] }));
+
+/**
+ * 获取地址中的查询参数
+ * @param url 请求地址
+ */
+const getQueryString = (url: string): IHarNameValue[] => {
+  const search = url.split('#')[0].split('?').slice(1).join('?');
+  return search
+    .split('&')
+    .filter(Boolean)
+    .map(item => {
+      const [name, ...value] = item.split('=');
+      try {
+        return { name: decodeURIComponent(name), value: decodeURIComponent(value.join('=').replace(/\+/g, ' ')) };
+      } catch (e) {
+        return { name, value: value.join('=') };
+      }
+    });
+};
+
+/**
+ * 序列化请求体
+ * @param body 请求体
+ * @param contentType 请求头中的 Content-Type
+ */
+const toPostData = (body: any, contentType?: string): IHarPostData | undefined => {
+  if (body === undefined || body === null) {
+    return undefined;
+  }
+  if (typeof FormData !== 'undefined' && body instanceof FormData) {
+    const params: NonNullable<IHarPostData['params']> = [];
+    body.forEach((value, name) => {
+      if (typeof value === 'string') {
+        params.push({ name, value });
+      } else {
+        params.push({ name, value: '', fileName: (value as File).name, contentType: value.type });
+      }
+    });
+    return { mimeType: 'multipart/form-data', params };
+  }
+  if (typeof Blob !== 'undefined' && body instanceof Blob) {
+    return { mimeType: body.type || 'application/octet-stream' };
+  }
+  if (typeof body === 'string') {
+    return {
+      mimeType: contentType || (/^[^=&{[]+=/.test(body) ? 'application/x-www-form-urlencoded' : 'text/plain'),
+      text: body,
+    };
+  }
+  return { mimeType: contentType || JSON_MIME, text: JSON.stringify(body) };
+};
+
+/**
+ * 序列化响应数据
+ * @param data 响应数据
+ * @param contentType 响应头中的 Content-Type
+ */
+const toContent = (data: any, contentType?: string): IHarContent => {
+  if (data === undefined) {
+    return { size: 0, mimeType: contentType || '' };
+  }
+  if (typeof Blob !== 'undefined' && data instanceof Blob) {
+    return { size: data.size, mimeType: data.type || contentType || 'application/octet-stream' };
+  }
+  const text = typeof data === 'string' ? data : JSON.stringify(data);
+  return { size: text.length, mimeType: contentType || (typeof data === 'string' ? 'text/plain' : JSON_MIME), text };
+};
+
+/**
+ * 计算两个时间点的间隔，缺少时返回 -1
+ * @param start 开始时间
+ * @param end 结束时间
+ */
+const diff = (start?: number, end?: number) =>
+  typeof start === 'number' && typeof end === 'number' ? Math.max(0, end - start) : -1;
+
+/**
+ * 遮盖请求头或者响应头中的认证信息
+ * @param headers 请求头
+ */
+const redactHeaders = (headers: Record<string, string>) =>
+  Object.keys(headers).reduce<Record<string, string>>((result, name) => {
+    result[name] = SENSITIVE_HEADERS.test(name) ? REDACTED : headers[name];
+    return result;
+  }, {});
+
+/**
+ * 遮盖查询参数、表单中的认证信息
+ * @param text 地址或者表单字符串
+ */
+const redactQuery = (text: string) =>
+  text.replace(/(^|[?&])([^=&?#]+)=([^&#]*)/g, (match, prefix, name, value) => {
+    let key = name;
+    try {
+      key = decodeURIComponent(name);
+    } catch (e) {
+      // 按原样判断
+    }
+    return value && SENSITIVE_HEADERS.test(key) ? `${prefix}${name}=${REDACTED}` : match;
+  });
+
+/**
+ * 遮盖请求体中的认证信息，只处理普通对象和字符串，FormData、Blob 原样返回
+ * @param body 请求体
+ */
+const redactBody = (body: any): any => {
+  if (typeof body === 'string') {
+    if (/^\s*[{[]/.test(body)) {
+      try {
+        return JSON.stringify(redactBody(JSON.parse(body)));
+      } catch (e) {
+        // 不是 json
+      }
+    }
+    return redactQuery(body);
+  }
+  if (Array.isArray(body)) {
+    return body.map(redactBody);
+  }
+  if (!body || typeof body !== 'object' || ![Object.prototype, null].includes(Object.getPrototypeOf(body))) {
+    return body;
+  }
+  return Object.keys(body).reduce<Record<string, any>>((result, key) => {
+    const value = body[key];
+    result[key] = SENSITIVE_HEADERS.test(key) && value !== undefined && value !== null ? REDACTED : redactBody(value);
+    return result;
+  }, {});
+};
+
+/**
+ * 遮盖一条请求日志中的认证信息，返回新的日志
+ * @param record 请求日志
+ */
+const redactRecord = (record: IReqRecord): IReqRecord => ({
+  ...record,
+  request: {
+    ...record.request,
+    url: redactQuery(record.request.url),
+    headers: redactHeaders(record.request.headers),
+    body: redactBody(record.request.body),
+  },
+  response: record.response && { ...record.response, headers: redactHeaders(record.response.headers) },
+});
+
+/**
+ * 把一条请求日志转换成 HAR 的请求
+ * @param record 请求日志
+ */
+export const recordToHarEntry = (record: IReqRecord): IHarEntry => {
+  const { request, response } = record;
+  const sentAt = record.sentAt ?? record.startedAt;
+  const endedAt = record.endedAt ?? response?.receivedAt;
+  const postData = request.method === 'get' ? undefined : toPostData(request.body, request.headers['content-type']);
+  const content = toContent(response?.data, response?.headers['content-type']);
+  const timings: IHarTimings = {
+    blocked: diff(record.startedAt, sentAt),
+    dns: -1,
+    connect: -1,
+    send: 0,
+    wait: diff(sentAt, response?.receivedAt ?? endedAt),
+    receive: diff(response?.receivedAt, endedAt),
+    ssl: -1,
+  };
+  const entry: IHarEntry = {
+    startedDateTime: new Date(record.startedAt).toISOString(),
+    time: [timings.blocked, timings.send, timings.wait, timings.receive].reduce((sum, item) => sum + Math.max(item, 0), 0),
+    request: {
+      method: request.method.toUpperCase(),
+      url: request.url,
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: toNameValues(request.headers),
+      queryString: getQueryString(request.url),
+      postData,
+      headersSize: -1,
+      bodySize: postData?.text?.length ?? (postData ? -1 : 0),
+    },
+    response: {
+      status: response?.status ?? 0,
+      statusText: response?.statusText || '',
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: toNameValues(response?.headers || {}),
+      content,
+      redirectURL: '',
+      headersSize: -1,
+      bodySize: response ? content.size : -1,
+    },
+    cache: {},
+    timings,
+    _reqUuid: record.id,
+  };
+  if (record.error) {
+    entry._error = record.error;
+  }
+  if (record.retries.length > 0) {
+    entry._retries = record.retries.length;
+  }
+  return entry;
+};
+
+/**
+ * 把日志队列导出为 HAR 1.2，可以直接 JSON.stringify 后保存成 .har 文件
+ * <br />
+ * 需要请求开启 cacheLog，默认遮盖认证相关的请求头和参数
+ * @param queue 日志队列，默认全局的 ReqQueue
+ * @param option 导出配置
+ */
+export const exportHar = (queue: ReqQueue = ReqQueue.getInstance(), option: IHarExportOption = {}): IHar => {
+  const records = queue.getRecords().filter(record => !option.filter || option.filter(record));
+  return {
+    log: {
+      version: '1.2',
+      creator: option.creator || { name: '@allahbin/utils', version: '' },
+      entries: records.map(record => recordToHarEntry(option.redact === false ? record : redactRecord(record))),
+    },
+  };
+};
+
+/**
+ * 统一地址格式，去掉 hash 和末尾的 ?，不匹配域名时只保留路径和查询参数
+ * @param url 请求地址
+ * @param matchOrigin 是否匹配域名
+ */
+const normalizeUrl = (url: string, matchOrigin?: boolean) => {
+  const result = url.split('#')[0].replace(/\?$/, '');
+  if (matchOrigin) {
+    return result;
+  }
+  return result.replace(/^([a-z][a-z\d+\-.]*:)?\/\/[^/?]*/i, '') || '/';
+};
+
+/**
+ * 把 HAR 的请求转换成模拟响应
+ * @param entry HAR 的请求
+ * @param delay 是否延迟
+ */
+const toMockReply = (entry: IHarEntry, delay?: boolean) => {
+  const { response } = entry;
+  const wait = delay ? Math.max(entry.timings?.wait ?? entry.time, 0) : 0;
+  if (!response.status && entry._error) {
+    const { type, status } = entry._error;
+    // 自定义 validateStatus 时 http 异常没有记录响应，按异常的状态码回放
+    if (type === 'http' && status) {
+      return mockReply({ status, delay: wait });
+    }
+    return mockReply({ timeout: type === 'timeout', networkError: type !== 'timeout', delay: wait });
+  }
+  let data: any = response.content.text;
+  if (data !== undefined && /json/i.test(response.content.mimeType || '')) {
+    try {
+      data = JSON.parse(data);
+    } catch (e) {
+      // 按原样返回
+    }
+  }
+  const headers: Record<string, string> = {};
+  response.headers.forEach(item => {
+    headers[item.name.toLowerCase()] = item.value;
+  });
+  return mockReply({ status: response.status, data, headers, delay: wait });
+};
+
+/**
+ * 回放 HAR 文件，把其中的请求注册到模拟请求适配器
+ * <br />
+ * 相同方法和地址的请求按录制的顺序依次返回，用完后一直返回最后一次，取消的请求会被忽略
+ * @param har HAR 文件的内容
+ * @param option 回放配置
+ * @returns 注册了路由的适配器，配合 reqEnv: 'mock' 和 mockAdapter 使用
+ * @example
+ * const adapter = replayHar(har);
+ * request('/api/user', { reqEnv: 'mock', mockAdapter: adapter });
+ */
+export const replayHar = (har: IHar | string, option: IHarReplayOption = {}) => {
+  const adapter = option.adapter || new MockAdapter();
+  const { entries } = (typeof har === 'string' ? JSON.parse(har) : har).log as IHar['log'];
+  const groups = new Map<string, IHarEntry[]>();
+  entries
+    .filter(entry => entry._error?.type !== 'canceled')
+    .forEach(entry => {
+      const key = `${entry.request.method.toLowerCase()} ${normalizeUrl(entry.request.url, option.matchOrigin)}`;
+      groups.set(key, [...(groups.get(key) || []), entry]);
+    });
+  groups.forEach((items, key) => {
+    const index = key.indexOf(' ');
+    const url = key.slice(index + 1);
+    let count = 0;
+    adapter.on(
+      key.slice(0, index),
+      target => normalizeUrl(target, option.matchOrigin) === url,
+      () => {
+        const entry = items[Math.min(count, items.length - 1)];
+        count += 1;
+        return toMockReply(entry, option.delay);
+      },
+    );
+  });
+  return adapter;
+};
@@ -23,7 +23,7 @@ export const codeMessage: any = {
   504: '服务响应超时，请稍后再试。',
   transitional: '网络错误，请检查网络。',
   ERR_NETWORK: '网络错误，请检查网络。',
-  ERR_CANCELED: '请求超时，请稍后再试。'
+  ERR_CANCELED: '请求已取消。',
 };
 
 // 默认的配置项
@@ -3,9 +3,15 @@ import { codeMessage, defOption } from './../httpCode';
 import ReqQueue from './../ReqQueue';
 import cookieUtils from '../../browser/cookieUtils';
 import uniRequest from './../uniRequest';
+import { resolveCacheStore } from './../cacheStore';
+import { buildCacheEntry } from './../swr';
 import axios from 'axios';
 import { buildQueryParams } from '../../browser/urlUtils';
 import stringUtils from '../../core/stringUtils';
+import { withFetchProgress } from './../progress';
+import { parseResponse } from './../protocol';
+import { BusinessError } from './../errors';
+import { mockAdapter } from './../mock';
 
 const isExit = (str?: string | number) => {
   if (str === '') {
@@ -50,6 +56,45 @@ const buildParamsNull = (
   return newParams;
 };
 
+/**
+ * 生成上传文件的表单
+ * @param newOptions 请求配置，params 为文件或者文件数组
+ * @param fileField 文件的字段名
+ */
+const buildFormData = (newOptions: IRequestOption, fileField: string) => {
+  const formData = new FormData();
+  if (Array.isArray(newOptions.params)) {
+    newOptions.params.forEach((item: any) => {
+      if (newOptions.reqEnv === 'rn') {
+        formData.append(fileField, {
+          uri: item.uri,
+          type: 'application/octet-stream',
+          name: item.name,
+        } as any);
+        formData.append('fileId', item.fileId);
+      } else {
+        formData.append(fileField, item);
+      }
+    });
+  } else if (newOptions.reqEnv === 'rn') {
+    formData.append(fileField, {
+      uri: newOptions.params.uri,
+      type: 'application/octet-stream',
+      name: newOptions.params.name,
+    } as any);
+    formData.append('fileId', newOptions.params.fileId);
+  } else {
+    formData.append(fileField, newOptions.params);
+    if (newOptions.params?.fileId !== undefined) {
+      formData.append('fileId', newOptions.params.fileId);
+    }
+  }
+  Object.keys(newOptions.formData || {}).forEach(key => {
+    formData.append(key, newOptions.formData![key]);
+  });
+  return formData;
+};
+
 /**
  * 请求拦截
  * @param url 请求地址
@@ -57,16 +102,17 @@ const buildParamsNull = (
  * @return {{options: *, url: *}}
  */
 export const requestErrorIntercept = (url: string, options: IRequestOption) => {
-  // 覆盖默认值
+  // 覆盖默认值，headers 单独拷贝一份，避免修改到默认配置
   const newOptions: IRequestOption = { ...defOption, ...options };
+  newOptions.headers = { ...newOptions.headers };
   const { isFile } = newOptions;
   // 如果是文件，那就是说明要下载文件
   if (isFile) {
     // 设置响应类型
     newOptions.responseType = 'blob';
   }
-  // 如果不是上传文件
-  if (newOptions.manner !== 'file') {
+  // 如果不是上传文件，数组参数（比如批量请求）原样发送
+  if (newOptions.manner !== 'file' && !Array.isArray(newOptions.params)) {
     const noFilterField: any = {};
     if (Array.isArray(newOptions.noFilterField)) {
       newOptions.noFilterField.forEach((item: any) => {
@@ -135,7 +181,15 @@ export const requestErrorIntercept = (url: string, options: IRequestOption) => {
     }
   }
 
-  if (typeof sessionStorage !== 'undefined') {
+  if (newOptions.getToken) {
+    // 使用自定义的token来源
+    if (!newOptions.headers!.Authorization) {
+      const authorization = newOptions.getToken(url);
+      if (authorization) {
+        newOptions.headers!.Authorization = authorization;
+      }
+    }
+  } else if (typeof sessionStorage !== 'undefined') {
     // 获取要添加token的url
     const tokenUrl: string = sessionStorage.getItem('tokenUrl') || '';
     // 请求的地址判断
@@ -197,40 +251,29 @@ export const requestErrorIntercept = (url: string, options: IRequestOption) => {
   }
   // 如果是上传的文件
   if (newOptions.manner === 'file') {
-    // 完整表单
-    const formData = new FormData();
-    if (Array.isArray(newOptions.params)) {
-      newOptions.params.forEach((item: any) => {
-        if (newOptions.reqEnv === 'rn') {
-          formData.append('file', {
-            uri: item.uri,
-            type: 'application/octet-stream',
-            name: item.name
-          } as any);
-          formData.append('fileId', item.fileId);
-        } else {
-          formData.append('file', item);
+    const fileField = newOptions.fileField || 'file';
+    if (newOptions.reqEnv === 'uni' || (typeof FormData === 'undefined' && typeof uni !== 'undefined')) {
+      // uni 使用 uploadFile 上传，只支持单个文件的路径
+      const file = Array.isArray(newOptions.params) ? newOptions.params[0] : newOptions.params;
+      newOptions.params = {
+        filePath: typeof file === 'string' ? file : file?.filePath || file?.path || file?.uri,
+        name: fileField,
+        formData: {
+          ...(file?.fileId !== undefined ? { fileId: file.fileId } : {}),
+          ...newOptions.formData,
         }
-      });
-    } else if (newOptions.reqEnv === 'rn') {
-      formData.append('file', {
-        uri: newOptions.params.uri,
-        type: 'application/octet-stream',
-        name: newOptions.params.name
-      } as any);
-      formData.append('fileId', newOptions.params.fileId);
+      };
+      delete newOptions.data;
     } else {
-      formData.append('file', newOptions.params);
-      formData.append('fileId', newOptions.params.fileId);
+      newOptions.data = buildFormData(newOptions, fileField);
+      newOptions.params = newOptions.data;
+      newOptions.body = newOptions.data;
+      // 设置请求头为：multipart/form-data;charset=utf-8
+      newOptions.headers = {
+        ...newOptions.headers,
+        ...{ 'Content-Type': 'multipart/form-data;charset=utf-8' },
+      };
     }
-    newOptions.params = formData;
-    newOptions.data = formData;
-    newOptions.body = formData;
-    // 设置请求头为：multipart/form-data;charset=utf-8
-    newOptions.headers = {
-      ...newOptions.headers,
-      ...{ 'Content-Type': 'multipart/form-data;charset=utf-8' }
-    };
   }
   delete newOptions.setToken;
   newOptions.url = url;
@@ -265,7 +308,7 @@ export const responseErrorIntercept = (
 ) => {
   if (newOptions.cacheLog && !newOptions.isFile) {
     // 存储下日志
-    ReqQueue.addReqQueue(data, newOptions.reqUuid);
+    ReqQueue.from(newOptions).data(newOptions.reqUuid, data);
   }
   // 判断是否是开发环境
   if (newOptions.showLog && !newOptions.isFile) {
@@ -287,31 +330,34 @@ export const responseErrorIntercept = (
     // 没有返回数据
     data = { code: 504, msg: codeMessage[504] };
   }
+  // 按响应约定解析，默认是 { code: 0, result, msg }
+  const parsed = parseResponse(data, newOptions.protocol);
   // 判断是否文件下载
   if (newOptions.isFile) {
     jsonData = data;
-  } else if (Number(data.code) === 0) {
+  } else if (parsed.success) {
     // 缓存操作
-    if (newOptions.cacheData && newOptions.cacheKey && typeof sessionStorage !== 'undefined') {
-      newOptions.cacheControl = newOptions.cacheControl || 30000;
-      const cacheData: ICacheData = {
-        // 30秒内不会有新请求出去
-        expires: new Date().getTime() + newOptions.cacheControl,
-        data: data.result
-      };
-      sessionStorage.setItem(newOptions.cacheKey, JSON.stringify(cacheData));
+    if (newOptions.cacheData && newOptions.cacheKey) {
+      // 默认30秒内不会有新请求出去
+      const cacheData: ICacheData = buildCacheEntry(newOptions, parsed.data);
+      // 缓存失败不影响请求结果
+      Promise.resolve(resolveCacheStore(newOptions.cacheStore).set(newOptions.cacheKey, cacheData)).catch(
+        () => { },
+      );
     }
-    jsonData = data.result;
+    jsonData = parsed.data;
   } else {
-    const status = data.code || data.status;
-    const errorData = {
-      msg: data.msg || data.errmsg || (codeMessage as any)[status],
-      url,
-      status,
-      code: status,
-      statusText: data.msg
-    };
-    return Promise.reject({ ...data, ...errorData });
+    const status = parsed.code || data.code || data.status;
+    const msg = parsed.message || data.msg || data.errmsg || (codeMessage as any)[status] || '请求失败';
+    return Promise.reject(
+      new BusinessError(msg, {
+        code: status,
+        url,
+        method: newOptions.method,
+        reqUuid: newOptions.reqUuid,
+        data,
+      }),
+    );
   }
   if (newOptions.resNullReplace) {
     stringUtils.replaceEmpty(jsonData, newOptions.resNullReplace);
@@ -342,6 +388,94 @@ export const handleReqListParams = (v: any, sort: any) => {
   return v;
 };
 
+/**
+ * 生成缓存的key
+ * @param url 请求地址
+ * @param params 请求参数
+ */
+export const buildCacheKey = (url: string, params: any) => url + JSON.stringify(params);
+
+/**
+ * 认证相关的请求头和参数名，离线队列不保存，导出 HAR 时遮盖
+ */
+export const SENSITIVE_HEADERS = /^authorization$|^proxy-authorization$|cookie|token|csrf/i;
+
+/**
+ * 拼接基础地址
+ * @param baseURL 基础地址
+ * @param url 请求地址
+ */
+export const joinBaseURL = (baseURL: string | undefined, url: string) => {
+  if (!baseURL || /^([a-z][a-z\d+\-.]*:)?\/\//i.test(url)) {
+    return url;
+  }
+  return `${baseURL.replace(/\/+$/, '')}/${url.replace(/^\/+/, '')}`;
+};
+
+/**
+ * 获取响应头，兼容 axios、fetch 和 uni 的响应
+ * @param response 原始响应
+ * @param name 响应头名称
+ */
+export const getResponseHeader = (response: any, name: string): string | null | undefined => {
+  const headers = response?.headers || response?.header;
+  if (!headers) {
+    return undefined;
+  }
+  if (typeof headers.get === 'function') {
+    return headers.get(name);
+  }
+  const key = Object.keys(headers).find(item => item.toLowerCase() === name.toLowerCase());
+  return key ? headers[key] : undefined;
+};
+
+/**
+ * 创建流式的 utf-8 解码方法，被截断的多字节字符会留到下一次解码
+ * <br />
+ * 没有 TextDecoder 的环境（部分小程序）使用手动解码，不传参数时输出剩余的内容
+ */
+export const createUtf8Decoder = () => {
+  if (typeof TextDecoder !== 'undefined') {
+    const decoder = new TextDecoder('utf-8');
+    return (chunk?: ArrayBuffer | Uint8Array | string) => {
+      if (chunk === undefined) {
+        return decoder.decode();
+      }
+      return typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+    };
+  }
+  let pending: number[] = [];
+  return (chunk?: ArrayBuffer | Uint8Array | string) => {
+    if (chunk === undefined) {
+      // 不完整的字符和 TextDecoder 一样输出替换字符
+      const rest = pending.length ? '\ufffd' : '';
+      pending = [];
+      return rest;
+    }
+    if (typeof chunk === 'string') {
+      return chunk;
+    }
+    const bytes = pending.concat(Array.from(chunk instanceof Uint8Array ? chunk : new Uint8Array(chunk)));
+    let text = '';
+    let i = 0;
+    while (i < bytes.length) {
+      const byte = bytes[i];
+      const length = byte < 0x80 ? 1 : byte >= 0xf0 ? 4 : byte >= 0xe0 ? 3 : byte >= 0xc0 ? 2 : 1;
+      if (i + length > bytes.length) {
+        break;
+      }
+      let code = length === 1 ? byte : byte & (0xff >> (length + 1));
+      for (let j = 1; j < length; j++) {
+        code = (code << 6) | (bytes[i + j] & 0x3f);
+      }
+      text += String.fromCodePoint(code);
+      i += length;
+    }
+    pending = bytes.slice(i);
+    return text;
+  };
+};
+
 // 生成fetch请求
 export const generateFetchRequest = () => {
   let originalFetch: any = undefined;
@@ -354,26 +488,49 @@ export const generateFetchRequest = () => {
   return originalFetch;
 };
 
+/**
+ * 生成原生 fetch 的请求参数
+ * @param opt 处理后的请求配置
+ * @param signal 中断请求
+ */
+export const buildFetchInit = (opt: IRequestOption, signal?: AbortSignal): RequestInit => ({
+  method: opt.method?.toUpperCase(),
+  headers: opt.headers as Record<string, string>,
+  body:
+    opt.body ?? (typeof opt.data === 'undefined' || typeof opt.data === 'string' ? opt.data : JSON.stringify(opt.data)),
+  signal,
+  credentials: opt.withCredentials ? 'include' : 'same-origin',
+});
+
 
 
+// 带上传、下载进度的 fetch
+const getFetchUtil = () => {
+  const originalFetch = generateFetchRequest();
+  return originalFetch ? withFetchProgress(originalFetch) : originalFetch;
+};
+
 export const getRequestUtils = (option: IRequestOption) => {
   let requestUtil: any = axios;
   if (option.reqEnv === 'browser') {
     requestUtil = axios;
   } else if (option.reqEnv === 'rn') {
-    requestUtil = generateFetchRequest();
+    requestUtil = getFetchUtil();
   } else if (option.reqEnv === 'fetch') {
-    requestUtil = generateFetchRequest();
+    requestUtil = getFetchUtil();
   } else if (option.reqEnv === 'uni') {
     // 使用uniRequest
     requestUtil = uniRequest;
+  } else if (option.reqEnv === 'mock') {
+    // 模拟请求
+    requestUtil = (option.mockAdapter || mockAdapter).request;
   } else {
     // 对环境进行判断
     // eslint-disable-next-line no-lonely-if
     if (typeof window !== 'undefined') {
       requestUtil = axios;
     } else if (typeof fetch !== 'undefined') {
-      requestUtil = generateFetchRequest();
+      requestUtil = getFetchUtil();
       // @ts-ignore
     } else if (typeof uni !== 'undefined' && typeof uni.request !== 'undefined') {
       requestUtil = uniRequest;
@@ -0,0 +1,132 @@
+import binRequest, { globalInterceptors, InterceptorManager, isSyntheticResponse, MockAdapter, mockReply, respondWith } from '..';
+import type { IRequestInterceptor, IRequestOption } from '..';
+
+describe('InterceptorManager', () => {
+  const mock = new MockAdapter();
+  // 执行过的拦截器
+  let order: string[] = [];
+
+  const request = (url: string, option: IRequestOption = {}) =>
+    binRequest(url, { method: 'get', reqEnv: 'mock', mockAdapter: mock, ...option });
+
+  /**
+   * 记录执行顺序的拦截器
+   * @param name 名称
+   */
+  const track = (name: string): IRequestInterceptor => ({
+    name,
+    onRequest: () => {
+      order.push(`request:${name}`);
+    },
+    onResponse: () => {
+      order.push(`response:${name}`);
+    },
+  });
+
+  beforeEach(() => {
+    order = [];
+    mock.reset();
+    mock.onGet('/api/user', req => ({ code: 0, result: { name: 'bin', headers: req.headers } }));
+  });
+
+  it('按注册顺序执行，全局拦截器在单次请求的拦截器之前', async () => {
+    const manager = new InterceptorManager([track('a')]);
+    manager.use(track('b'));
+    const removeGlobal = globalInterceptors.use(track('global'));
+    try {
+      await request('/api/user', { interceptors: manager.list() });
+    } finally {
+      removeGlobal();
+    }
+    expect(order).toEqual([
+      'request:global',
+      'request:a',
+      'request:b',
+      'response:global',
+      'response:a',
+      'response:b',
+    ]);
+  });
+
+  it('use 返回的方法移除拦截器，list 返回副本', () => {
+    const manager = new InterceptorManager();
+    const a = track('a');
+    const b = track('b');
+    const ejectA = manager.use(a);
+    manager.use(b);
+    const list = manager.list();
+    ejectA();
+    expect(manager.list()).toEqual([b]);
+    expect(list).toEqual([a, b]);
+    // 重复移除没有影响
+    ejectA();
+    expect(manager.list()).toEqual([b]);
+    manager.clear();
+    expect(manager.list()).toEqual([]);
+  });
+
+  it('onRequest 可以修改配置，onResponse 可以替换数据', async () => {
+    const result = await request('/api/user', {
+      interceptors: [
+        {
+          onRequest: opt => ({ ...opt, headers: { ...opt.headers, 'X-Trace': '1' } }),
+          // 收到的是后台返回的原始数据
+          onResponse: data => ({ ...data, result: { ...data.result, extra: true } }),
+        },
+      ],
+    });
+    expect(result).toMatchObject({ name: 'bin', extra: true, headers: { 'X-Trace': '1' } });
+  });
+
+  it('respondWith 直接返回响应，不再发起请求，后面的 onRequest 不执行', async () => {
+    const synthetic = respondWith({ code: 0, result: 'cached' });
+    expect(isSyntheticResponse(synthetic)).toBe(true);
+    expect(isSyntheticResponse({ data: 1 })).toBe(false);
+    const result = await request('/api/user', {
+      interceptors: [{ onRequest: () => synthetic }, track('after')],
+    });
+    expect(result).toBe('cached');
+    expect(mock.history()).toHaveLength(0);
+    // 直接返回的数据照常走 onResponse
+    expect(order).toEqual(['response:after']);
+  });
+
+  it('onError 返回值时恢复请求，抛出的异常替换原来的异常', async () => {
+    mock.onGet('/api/fail', mockReply({ status: 500 }));
+    const errorHandler = jest.fn();
+    const recovered = await binRequest(
+      '/api/fail',
+      {
+        method: 'get',
+        reqEnv: 'mock',
+        mockAdapter: mock,
+        interceptors: [{ onError: () => undefined }, { onError: error => ({ fallback: error.status }) }],
+      },
+      errorHandler,
+    );
+    expect(recovered).toEqual({ fallback: 500 });
+    expect(errorHandler).not.toHaveBeenCalled();
+
+    const replaced = new Error('替换的异常');
+    const error = await request('/api/fail', {
+      interceptors: [
+        {
+          onError: () => {
+            throw replaced;
+          },
+        },
+        { onError: e => (e === replaced ? undefined : 'not replaced') },
+      ],
+    }).catch(e => e);
+    expect(error).toBe(replaced);
+  });
+
+  it('onError 中可以用 replay 重新发起请求', async () => {
+    let count = 0;
+    mock.onGet('/api/flaky', () => (++count === 1 ? mockReply({ status: 503 }) : { code: 0, result: count }));
+    const result = await request('/api/flaky', {
+      interceptors: [{ onError: (error, _opt, ctx) => (error.status === 503 ? ctx.replay() : undefined) }],
+    });
+    expect(result).toBe(2);
+  });
+});
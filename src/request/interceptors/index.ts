@@ -0,0 +1,216 @@
+import { IRequestOption } from '../typings';
+
+const SYNTHETIC_FLAG = '__binSyntheticResponse';
+
+/**
+ * 拦截器直接返回的响应，返回后不再发起真实请求
+ */
+export interface ISyntheticResponse {
+  [SYNTHETIC_FLAG]: true;
+  /**
+   * 响应数据，等同于后台返回的数据，会继续走 onResponse 和 responseErrorIntercept
+   */
+  data: any;
+}
+
+/**
+ * 拦截器上下文
+ */
+export interface IInterceptorContext {
+  /**
+   * 请求地址（已拼接 baseURL）
+   */
+  url: string;
+  /**
+   * 调用方传入的原始配置
+   */
+  option: IRequestOption;
+  /**
+   * 使用原始配置重新发起一次请求，可以传入需要覆盖的配置
+   * <br />
+   * 重新发起的请求失败时不会执行 errorHandler，在 onError 中抛出后由当前请求统一处理
+   */
+  replay: (override?: IRequestOption) => Promise<any>;
+}
+
+/**
+ * 请求拦截器
+ */
+export interface IRequestInterceptor {
+  /**
+   * 拦截器名称，方便调试
+   */
+  name?: string;
+  /**
+   * 请求发出前执行，收到的是 requestErrorIntercept 处理后的配置
+   * <br />
+   * 可以直接修改配置或者返回新的配置，返回 respondWith(data) 则不再发起请求
+   */
+  onRequest?: (
+    opt: IRequestOption,
+    ctx: IInterceptorContext
+  ) => IRequestOption | ISyntheticResponse | void | Promise<IRequestOption | ISyntheticResponse | void>;
+  /**
+   * 状态码检查通过后执行，在 responseErrorIntercept 之前，返回 undefined 表示不修改数据
+   */
+  onResponse?: (data: any, opt: IRequestOption, response?: any) => any;
+  /**
+   * 请求异常时执行
+   * <br />
+   * 返回 undefined 表示继续抛出异常，返回其他值则作为请求结果，抛出新的异常会替换掉原来的异常
+   */
+  onError?: (error: any, opt: IRequestOption, ctx: IInterceptorContext) => any;
+}
+
+/**
+ * 拦截器管理
+ */
+export class InterceptorManager {
+  private handlers: IRequestInterceptor[] = [];
+
+  constructor(handlers: IRequestInterceptor[] = []) {
+    this.handlers = [...handlers];
+  }
+
+  /**
+   * 注册拦截器，按注册顺序执行
+   * @param interceptor 拦截器
+   * @returns 移除该拦截器的方法
+   */
+  use(interceptor: IRequestInterceptor) {
+    this.handlers.push(interceptor);
+    return () => this.eject(interceptor);
+  }
+
+  /**
+   * 移除拦截器
+   * @param interceptor 拦截器
+   */
+  eject(interceptor: IRequestInterceptor) {
+    this.handlers = this.handlers.filter(item => item !== interceptor);
+  }
+
+  /**
+   * 清空拦截器
+   */
+  clear() {
+    this.handlers = [];
+  }
+
+  /**
+   * 获取当前的拦截器列表
+   */
+  list() {
+    return [...this.handlers];
+  }
+}
+
+/**
+ * 全局拦截器，对所有请求生效
+ */
+export const globalInterceptors = new InterceptorManager();
+
+/**
+ * 在 onRequest 中直接返回响应
+ * @param data 响应数据
+ */
+export const respondWith = (data: any): ISyntheticResponse => ({ [SYNTHETIC_FLAG]: true, data });
+
+/**
+ * 是否是拦截器直接返回的响应
+ * @param value 任意值
+ */
+export const isSyntheticResponse = (value: any): value is ISyntheticResponse =>
+  !!value && typeof value === 'object' && value[SYNTHETIC_FLAG] === true;
+
+/**
+ * 获取本次请求需要执行的拦截器，全局的在前
+ * @param opt 请求配置
+ */
+export const getInterceptors = (opt: IRequestOption) => [
+  ...globalInterceptors.list(),
+  ...(opt.interceptors || []),
+];
+
+/**
+ * 执行请求拦截
+ * @param interceptors 拦截器
+ * @param opt 请求配置
+ * @param ctx 上下文
+ */
+export const runRequestInterceptors = async (
+  interceptors: IRequestInterceptor[],
+  opt: IRequestOption,
+  ctx: IInterceptorContext,
+): Promise<{ option: IRequestOption; synthetic?: ISyntheticResponse }> => {
+  let option = opt;
+  for (const interceptor of interceptors) {
+    if (!interceptor.onRequest) {
+      continue;
+    }
+    const result = await interceptor.onRequest(option, ctx);
+    if (isSyntheticResponse(result)) {
+      return { option, synthetic: result };
+    }
+    if (result) {
+      option = result;
+    }
+  }
+  return { option };
+};
+
+/**
+ * 执行响应拦截
+ * @param interceptors 拦截器
+ * @param data 响应数据
+ * @param opt 请求配置
+ * @param response 原始响应
+ */
+export const runResponseInterceptors = async (
+  interceptors: IRequestInterceptor[],
+  data: any,
+  opt: IRequestOption,
+  response?: any,
+) => {
+  let result = data;
+  for (const interceptor of interceptors) {
+    if (!interceptor.onResponse) {
+      continue;
+    }
+    const next = await interceptor.onResponse(result, opt, response);
+    if (typeof next !== 'undefined') {
+      result = next;
+    }
+  }
+  return result;
+};
+
+/**
+ * 执行异常拦截
+ * @param interceptors 拦截器
+ * @param error 异常
+ * @param opt 请求配置
+ * @param ctx 上下文
+ */
+export const runErrorInterceptors = async (
+  interceptors: IRequestInterceptor[],
+  error: any,
+  opt: IRequestOption,
+  ctx: IInterceptorContext,
+): Promise<{ recovered: boolean; value?: any; error: any }> => {
+  let current = error;
+  for (const interceptor of interceptors) {
+    if (!interceptor.onError) {
+      continue;
+    }
+    try {
+      const value = await interceptor.onError(current, opt, ctx);
+      if (typeof value !== 'undefined') {
+        return { recovered: true, value, error: current };
+      }
+    } catch (e) {
+      current = e;
+    }
+  }
+  return { recovered: false, error: current };
+};
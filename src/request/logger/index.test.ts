@@ -0,0 +1,134 @@
+import binRequest, { createRedactor, createRequestLogger, MemoryLogSink, MockAdapter } from '..';
+import type { ILogSink } from '..';
+
+describe('createRedactor', () => {
+  const redact = createRedactor();
+
+  it('遮盖敏感的请求头，不区分大小写', () => {
+    expect(
+      redact({
+        Authorization: 'Bearer abc',
+        Cookie: 'sid=1',
+        'X-Access-Token': 'abc',
+        'Content-Type': 'application/json',
+      }),
+    ).toEqual({
+      Authorization: '******',
+      Cookie: '******',
+      'X-Access-Token': '******',
+      'Content-Type': 'application/json',
+    });
+  });
+
+  it('递归遮盖嵌套对象和数组，敏感字段是对象时整体遮盖', () => {
+    const body = {
+      user: { name: 'bin', password: '123456', pwd: 'x' },
+      list: [{ clientSecret: 's' }],
+      token: { access: 'a', refresh: 'b' },
+      empty: { token: null },
+    };
+    expect(redact(body)).toEqual({
+      user: { name: 'bin', password: '******', pwd: '******' },
+      list: [{ clientSecret: '******' }],
+      token: '******',
+      empty: { token: null },
+    });
+    // 不修改原始数据
+    expect(body.user.password).toBe('123456');
+  });
+
+  it('遮盖查询参数、表单和 json 字符串中的敏感字段', () => {
+    expect(redact('/api/user?id=1&access_token=abc#top')).toBe('/api/user?id=1&access_token=******#top');
+    expect(redact('name=bin&password=123')).toBe('name=bin&password=******');
+    expect(redact('sid=1; token=abc')).toBe('sid=1; token=******');
+    expect(JSON.parse(redact('{"name":"bin","password":"123"}'))).toEqual({ name: 'bin', password: '******' });
+  });
+
+  it('识别身份证号和手机号，保留前3位和后4位', () => {
+    expect(redact('phone=13812345678')).toBe('phone=138****5678');
+    expect(redact({ idCard: '11010119900307123X', mobile: 13812345678 })).toEqual({
+      idCard: '110***********123X',
+      mobile: '138****5678',
+    });
+    // 数字中间的一段不算
+    expect(redact('order 2023138123456789')).toBe('order 2023138123456789');
+  });
+
+  it('支持额外的字段、关闭号码识别和自定义遮盖方法', () => {
+    const custom = createRedactor({
+      keys: ['name', /^x-/i],
+      phone: false,
+      mask: (value, reason) => `[${reason}:${value.length}]`,
+    });
+    expect(custom({ name: 'bin', 'X-Sign': 'abc', phone: '13812345678', idCard: '110101199003071234' })).toEqual({
+      name: '[key:3]',
+      'X-Sign': '[key:3]',
+      phone: '13812345678',
+      idCard: '[idCard:18]',
+    });
+  });
+});
+
+describe('createRequestLogger', () => {
+  const mock = new MockAdapter();
+
+  beforeEach(() => mock.reset());
+
+  it('sink 收到的日志已经脱敏', async () => {
+    const seen: string[] = [];
+    // 每次 write 都序列化下来，确认输出时没有原始数据
+    const sink: ILogSink = { write: record => { seen.push(JSON.stringify(record)); } };
+    const logger = createRequestLogger({ sinks: [sink] });
+    mock.onPost('/api/login', { code: 0, result: { token: 'server-token', phone: '13812345678' } });
+
+    await binRequest('/api/login', {
+      method: 'post',
+      reqEnv: 'mock',
+      mockAdapter: mock,
+      logger,
+      headers: { Authorization: 'Bearer secret-header' },
+      params: { access_token: 'query-token', password: 'plain-password' },
+    });
+
+    expect(seen).toHaveLength(1);
+    ['secret-header', 'query-token', 'plain-password', 'server-token', '13812345678'].forEach(raw => {
+      expect(seen[0]).not.toContain(raw);
+    });
+    const record = JSON.parse(seen[0]);
+    expect(record.request.headers.authorization).toBe('******');
+    expect(record.request.body).toBe('access_token=******&password=******');
+    expect(record.response.data.result).toEqual({ token: '******', phone: '138****5678' });
+  });
+
+  it('日志队列中保存的也是脱敏后的数据', async () => {
+    const sink = new MemoryLogSink();
+    const logger = createRequestLogger({ sinks: [sink] });
+    mock.onGet('/api/user', { code: 0, result: { password: 'p' } });
+    await binRequest('/api/user', { method: 'get', reqEnv: 'mock', mockAdapter: mock, logger });
+    const [queued] = logger.queue.getRecords();
+    expect(JSON.stringify(queued)).not.toContain('"p"');
+    expect(sink.list()[0].response?.data.result.password).toBe('******');
+  });
+
+  it('redact 为 false 时不脱敏，filter 过滤输出的日志', async () => {
+    const sink = new MemoryLogSink();
+    const logger = createRequestLogger({ sinks: [sink], redact: false, filter: record => !!record.error });
+    mock.onGet('/api/ok', { code: 0, result: { token: 't' } });
+    mock.onGet('/api/fail', { code: 1, msg: '失败', token: 't' });
+    await binRequest('/api/ok', { method: 'get', reqEnv: 'mock', mockAdapter: mock, logger });
+    await binRequest('/api/fail', { method: 'get', reqEnv: 'mock', mockAdapter: mock, logger }).catch(() => undefined);
+    expect(sink.list()).toHaveLength(1);
+    expect(sink.list()[0].response?.data.token).toBe('t');
+  });
+
+  it('sink 抛出异常不影响请求', async () => {
+    const logger = createRequestLogger({
+      sinks: [
+        { write: () => { throw new Error('sync'); } },
+        { write: () => Promise.reject(new Error('async')) },
+      ],
+    });
+    mock.onGet('/api/user', { code: 0, result: 'ok' });
+    await expect(binRequest('/api/user', { method: 'get', reqEnv: 'mock', mockAdapter: mock, logger })).resolves.toBe('ok');
+  });
+});
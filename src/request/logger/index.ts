@@ -0,0 +1,429 @@
+import ReqQueue, { IReqRecord } from '../ReqQueue';
+import validationUtils from '../../core/validationUtils';
+
+/**
+ * 日志输出，方法可以是同步的也可以是异步的
+ */
+export interface ILogSink {
+  /**
+   * 写入一条已经脱敏的请求日志
+   */
+  write(record: IReqRecord): void | Promise<void>;
+  /**
+   * 把缓冲的日志立即输出
+   */
+  flush?(): void | Promise<void>;
+}
+
+/**
+ * 脱敏的原因
+ */
+export type IRedactReason = 'key' | 'idCard' | 'phone';
+
+/**
+ * 脱敏配置
+ */
+export interface IRedactOption {
+  /**
+   * 额外需要整体遮盖的字段，匹配对象的 key、请求头和表单字段，不区分大小写
+   */
+  keys?: (string | RegExp)[];
+  /**
+   * 是否识别身份证号，默认 true
+   */
+  idCard?: boolean;
+  /**
+   * 是否识别手机号，默认 true
+   */
+  phone?: boolean;
+  /**
+   * 自定义遮盖方法
+   */
+  mask?: (value: string, reason: IRedactReason) => string;
+}
+
+/**
+ * 日志配置
+ */
+export interface IRequestLoggerOption {
+  /**
+   * 日志输出，默认只保存在内存中
+   */
+  sinks?: ILogSink[];
+  /**
+   * 脱敏配置，false 表示不脱敏
+   */
+  redact?: IRedactOption | false;
+  /**
+   * 过滤需要输出的日志，比如只输出失败的请求
+   */
+  filter?: (record: IReqRecord) => boolean;
+  /**
+   * 日志队列最多保存多少条请求，默认30
+   */
+  maxQueueLength?: number;
+}
+
+/**
+ * 请求日志
+ */
+export interface IRequestLogger {
+  /**
+   * 日志队列，保存的都是脱敏后的数据，可以用来导出 HAR
+   */
+  readonly queue: ReqQueue;
+  /**
+   * 日志输出
+   */
+  readonly sinks: ILogSink[];
+  /**
+   * 按配置脱敏，返回新的数据
+   */
+  redact: <T>(value: T) => T;
+  /**
+   * 输出一条请求日志，请求结束时由日志队列调用
+   */
+  write: (record: IReqRecord) => void;
+  /**
+   * 把所有输出中缓冲的日志立即输出
+   */
+  flush: () => Promise<void>;
+}
+
+// 默认需要整体遮盖的字段
+const SENSITIVE_KEYS: (string | RegExp)[] = [/^authorization$/i, /cookie/i, /passw(or)?d|^pwd$/i, /token/i, /secret/i];
+
+/**
+ * 默认的遮盖方法，字段整体遮盖，身份证号和手机号保留前3位和后4位
+ * @param value 原始值
+ * @param reason 脱敏的原因
+ */
+const defaultMask = (value: string, reason: IRedactReason) => {
+  if (reason === 'key' || value.length <= 7) {
+    return '******';
+  }
+  return `${value.slice(0, 3)}${'*'.repeat(value.length - 7)}${value.slice(-4)}`;
+};
+
+/**
+ * 按配置创建脱敏方法
+ * @param option 脱敏配置
+ */
+export const createRedactor = (option: IRedactOption = {}) => {
+  const keys = [...SENSITIVE_KEYS, ...(option.keys || [])];
+  const mask = option.mask || defaultMask;
+  const isSensitiveKey = (key: string) =>
+    keys.some(item => (typeof item === 'string' ? item.toLowerCase() === key.toLowerCase() : item.test(key)));
+
+  /**
+   * 遮盖字符串中的身份证号和手机号
+   * @param text 字符串
+   */
+  // 不使用后行断言，iOS 16.4 以下和部分小程序的 JS 引擎不支持
+  const maskNumbers = (text: string) =>
+    text.replace(/(^|\D)(\d{17}[\dXx]|\d{11,15})(?![\dXx])/g, (match, prefix: string, value: string) => {
+      if (option.idCard !== false && validationUtils.isIdCard(value)) {
+        return `${prefix}${mask(value, 'idCard')}`;
+      }
+      if (option.phone !== false && validationUtils.isPhone(value)) {
+        return `${prefix}${mask(value, 'phone')}`;
+      }
+      return match;
+    });
+
+  const redactString = (text: string): string => {
+    // json 字符串解析后按字段脱敏
+    if (/^\s*[{[]/.test(text)) {
+      try {
+        return JSON.stringify(redact(JSON.parse(text)));
+      } catch (e) {
+        // 不是 json
+      }
+    }
+    // 查询参数、表单、cookie 中的 key=value
+    const masked = text.replace(/(^|[?&;\s])([^=&?;\s]+)=([^&;#]*)/g, (match, prefix, key, value) =>
+      value && isSensitiveKey(decodeURIComponentSafe(key)) ? `${prefix}${key}=${mask(value, 'key')}` : match,
+    );
+    return maskNumbers(masked);
+  };
+
+  const redact = (value: any): any => {
+    if (typeof value === 'string') {
+      return redactString(value);
+    }
+    if (typeof value === 'number') {
+      const masked = maskNumbers(String(value));
+      return masked === String(value) ? value : masked;
+    }
+    if (Array.isArray(value)) {
+      return value.map(redact);
+    }
+    // 只处理普通对象，Blob、FormData 等原样返回
+    if (!value || typeof value !== 'object' || ![Object.prototype, null].includes(Object.getPrototypeOf(value))) {
+      return value;
+    }
+    const result: Record<string, any> = {};
+    Object.keys(value).forEach(key => {
+      const item = value[key];
+      if (!isSensitiveKey(key) || item === undefined || item === null) {
+        result[key] = redact(item);
+        return;
+      }
+      // 敏感字段是对象时整体遮盖
+      result[key] = mask(typeof item === 'object' ? JSON.stringify(item) : String(item), 'key');
+    });
+    return result;
+  };
+
+  return <T>(value: T): T => redact(value);
+};
+
+/**
+ * 解码失败时返回原值
+ * @param value 编码后的值
+ */
+const decodeURIComponentSafe = (value: string) => {
+  try {
+    return decodeURIComponent(value);
+  } catch (e) {
+    return value;
+  }
+};
+
+/**
+ * 控制台输出，失败的请求使用 console.error
+ */
+export class ConsoleLogSink implements ILogSink {
+  write(record: IReqRecord) {
+    const { method, url } = record.request;
+    const title = `[request] ${method.toUpperCase()} ${url} ${record.response?.status ?? ''} ${record.elapsed ?? 0}ms`;
+    if (record.error) {
+      console.error(title, record);
+    } else {
+      console.log(title, record);
+    }
+  }
+}
+
+/**
+ * 内存环形缓冲，超过数量时丢弃最早的日志
+ */
+export class MemoryLogSink implements ILogSink {
+  private records: IReqRecord[] = [];
+
+  constructor(private maxEntries = 100) { }
+
+  write(record: IReqRecord) {
+    this.records.push(record);
+    if (this.records.length > this.maxEntries) {
+      this.records.splice(0, this.records.length - this.maxEntries);
+    }
+  }
+
+  /**
+   * 获取缓冲中的日志
+   */
+  list() {
+    return [...this.records];
+  }
+
+  clear() {
+    this.records = [];
+  }
+}
+
+/**
+ * localStorage/sessionStorage 输出，所有日志保存在同一个 key 下
+ */
+export class WebStorageLogSink implements ILogSink {
+  constructor(private storage: Storage, private key = 'binRequestLog', private maxEntries = 50) { }
+
+  write(record: IReqRecord) {
+    const records = [...this.list(), record].slice(-this.maxEntries);
+    try {
+      this.storage.setItem(this.key, JSON.stringify(records));
+    } catch (e) {
+      // 存储空间满了就不保存了
+    }
+  }
+
+  /**
+   * 获取保存的日志
+   */
+  list(): IReqRecord[] {
+    try {
+      return JSON.parse(this.storage.getItem(this.key) || '[]');
+    } catch (e) {
+      return [];
+    }
+  }
+
+  clear() {
+    this.storage.removeItem(this.key);
+  }
+}
+
+/**
+ * uni-app 本地存储输出，所有日志保存在同一个 key 下
+ */
+export class UniStorageLogSink implements ILogSink {
+  constructor(private key = 'binRequestLog', private maxEntries = 50) { }
+
+  write(record: IReqRecord) {
+    const records = [...this.list(), record].slice(-this.maxEntries);
+    return new Promise<void>(resolve => {
+      uni.setStorage({
+        key: this.key,
+        data: records,
+        complete: () => resolve(),
+      });
+    });
+  }
+
+  /**
+   * 获取保存的日志
+   */
+  list(): IReqRecord[] {
+    const value = uni.getStorageSync(this.key);
+    return Array.isArray(value) ? value : [];
+  }
+
+  clear() {
+    uni.removeStorageSync(this.key);
+  }
+}
+
+type IBeaconLogSinkInit = {
+  /**
+   * 上报地址
+   */
+  url: string;
+  /**
+   * 每批最多多少条，达到后立即上报，默认20
+   */
+  batchSize?: number;
+  /**
+   * 上报间隔（毫秒），默认5000
+   */
+  flushInterval?: number;
+  /**
+   * 上报的请求头，传了之后不使用 sendBeacon
+   */
+  headers?: Record<string, string>;
+};
+
+/**
+ * 批量上报，浏览器优先使用 sendBeacon，页面隐藏时立即上报；uni-app 使用 uni.request
+ * <br />
+ * 上报不经过 binRequest，失败时直接丢弃，不影响业务请求
+ */
+export class BeaconLogSink implements ILogSink {
+  private buffer: IReqRecord[] = [];
+
+  private timer?: ReturnType<typeof setTimeout>;
+
+  private url: string;
+
+  private batchSize: number;
+
+  private flushInterval: number;
+
+  private headers?: Record<string, string>;
+
+  constructor(p: IBeaconLogSinkInit) {
+    this.url = p.url;
+    this.batchSize = p.batchSize || 20;
+    this.flushInterval = p.flushInterval ?? 5000;
+    this.headers = p.headers;
+    if (typeof document !== 'undefined' && typeof document.addEventListener === 'function') {
+      document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'hidden') {
+          this.flush();
+        }
+      });
+    }
+  }
+
+  write(record: IReqRecord) {
+    this.buffer.push(record);
+    if (this.buffer.length >= this.batchSize) {
+      this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => this.flush(), this.flushInterval);
+    }
+  }
+
+  async flush() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    if (this.buffer.length === 0) {
+      return;
+    }
+    const body = JSON.stringify(this.buffer.splice(0, this.buffer.length));
+    try {
+      if (!this.headers && typeof navigator !== 'undefined' && typeof navigator.sendBeacon === 'function') {
+        if (navigator.sendBeacon(this.url, new Blob([body], { type: 'application/json' }))) {
+          return;
+        }
+      }
+      if (typeof fetch !== 'undefined') {
+        await fetch(this.url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...this.headers },
+          body,
+          keepalive: true,
+        });
+      } else if (typeof uni !== 'undefined') {
+        await new Promise(resolve => {
+          uni.request({
+            url: this.url,
+            method: 'POST',
+            header: { 'Content-Type': 'application/json', ...this.headers },
+            data: body,
+            complete: resolve,
+          });
+        });
+      }
+    } catch (e) {
+      // 上报失败直接丢弃
+    }
+  }
+}
+
+/**
+ * 创建请求日志，通过 option.logger 或者请求客户端的 logger 使用
+ * <br />
+ * 请求的每次更新在保存到日志队列前脱敏，请求结束后输出到各个 sink
+ * @param option 日志配置
+ * @example
+ * const logger = createRequestLogger({ sinks: [new ConsoleLogSink(), new BeaconLogSink({ url: '/api/log' })] });
+ * request('/api/user', { logger });
+ */
+export const createRequestLogger = (option: IRequestLoggerOption = {}): IRequestLogger => {
+  const sinks: ILogSink[] = option.sinks || [new MemoryLogSink()];
+  const redact = option.redact === false ? <T>(value: T) => value : createRedactor(option.redact);
+  const write = (record: IReqRecord) => {
+    if (option.filter && !option.filter(record)) {
+      return;
+    }
+    sinks.forEach(sink => {
+      try {
+        Promise.resolve(sink.write(record)).catch(() => undefined);
+      } catch (e) {
+        // 日志输出失败不影响请求
+      }
+    });
+  };
+  const flush = async () => {
+    await Promise.all(sinks.map(sink => Promise.resolve(sink.flush?.()).catch(() => undefined)));
+  };
+  return {
+    queue: new ReqQueue({ maxQueueLength: option.maxQueueLength, logger: { redact, write } }),
+    sinks,
+    redact,
+    write,
+    flush,
+  };
+};
@@ -0,0 +1,185 @@
+import binRequest, { estimateSize, MetricsAggregator, metricsEvents, MockAdapter, mockReply } from '..';
+import type { IRequestMetric } from '..';
+
+/**
+ * 构造一次请求的指标
+ * @param total 总耗时
+ * @param p 覆盖的字段
+ */
+const createMetric = (total: number, p: Partial<IRequestMetric> = {}): IRequestMetric => ({
+  name: p.path || '/api/user',
+  url: `http://localhost${p.path || '/api/user'}`,
+  path: '/api/user',
+  method: 'get',
+  reqEnv: 'mock',
+  outcome: 'success',
+  cacheHit: false,
+  synthetic: false,
+  attempts: 1,
+  timings: { startedAt: 0, completedAt: total, total },
+  ...p,
+});
+
+describe('MetricsAggregator', () => {
+  it('按已知样本计算 p50、p95、平均值和最大最小值', () => {
+    const aggregator = new MetricsAggregator();
+    // 打乱顺序的 1..100
+    const samples = Array.from({ length: 100 }, (_, i) => ((i * 37) % 100) + 1);
+    samples.forEach(total => aggregator.add(createMetric(total)));
+    expect(aggregator.get('GET /api/user')).toMatchObject({
+      count: 100,
+      p50: 50,
+      p95: 95,
+      avg: 51,
+      min: 1,
+      max: 100,
+      errorRate: 0,
+    });
+
+    const small = new MetricsAggregator();
+    [30, 10, 20, 40].forEach(total => small.add(createMetric(total)));
+    expect(small.get('GET /api/user')).toMatchObject({ p50: 20, p95: 40, avg: 25, min: 10, max: 40 });
+  });
+
+  it('只有一个样本时分位数都是这个样本', () => {
+    const aggregator = new MetricsAggregator();
+    aggregator.add(createMetric(123));
+    expect(aggregator.get('GET /api/user')).toMatchObject({ p50: 123, p95: 123, avg: 123, min: 123, max: 123 });
+  });
+
+  it('没有样本时耗时都是0，没有请求的接口返回 undefined', () => {
+    const aggregator = new MetricsAggregator();
+    aggregator.add(createMetric(100, { outcome: 'canceled' }));
+    expect(aggregator.get('GET /api/user')).toMatchObject({
+      count: 1,
+      canceled: 1,
+      errorRate: 0,
+      p50: 0,
+      p95: 0,
+      avg: 0,
+      min: 0,
+      max: 0,
+    });
+    expect(aggregator.get('GET /api/other')).toBeUndefined();
+    expect(aggregator.getStats()).toHaveLength(1);
+    aggregator.reset();
+    expect(aggregator.getStats()).toEqual([]);
+  });
+
+  it('失败率不计算取消的请求，命中缓存默认不计入耗时', () => {
+    const aggregator = new MetricsAggregator();
+    aggregator.add(createMetric(100));
+    aggregator.add(createMetric(300, { outcome: 'error' }));
+    aggregator.add(createMetric(1, { cacheHit: true }));
+    aggregator.add(createMetric(5000, { outcome: 'canceled' }));
+    expect(aggregator.get('GET /api/user')).toMatchObject({
+      count: 4,
+      errors: 1,
+      canceled: 1,
+      cacheHits: 1,
+      errorRate: 1 / 3,
+      min: 100,
+      max: 300,
+    });
+    const withCache = new MetricsAggregator({ includeCacheHits: true });
+    withCache.add(createMetric(1, { cacheHit: true }));
+    expect(withCache.get('GET /api/user')?.min).toBe(1);
+  });
+
+  it('超过 maxSamples 时丢弃最早的样本', () => {
+    const aggregator = new MetricsAggregator({ maxSamples: 3 });
+    [1000, 1, 2, 3].forEach(total => aggregator.add(createMetric(total)));
+    expect(aggregator.get('GET /api/user')).toMatchObject({ count: 4, max: 3 });
+  });
+
+  it('按 patterns、metricName 和 id 段归类接口', () => {
+    const aggregator = new MetricsAggregator({ patterns: ['/api/order/:id/items', '/static/*'] });
+    aggregator.add(createMetric(1, { path: '/api/order/a1/items' }));
+    aggregator.add(createMetric(1, { path: '/static/js/app.js' }));
+    aggregator.add(createMetric(1, { path: '/api/user/42' }));
+    aggregator.add(createMetric(1, { path: '/api/user/550e8400-e29b-41d4-a716-446655440000', method: 'post' }));
+    aggregator.add(createMetric(1, { path: '/api/x/1', metricName: '查询用户' }));
+    expect(aggregator.getStats().map(item => item.key).sort()).toEqual([
+      'GET /api/order/:id/items',
+      'GET /api/user/:id',
+      'GET /static/*',
+      'GET 查询用户',
+      'POST /api/user/:id',
+    ]);
+  });
+});
+
+describe('请求指标', () => {
+  const mock = new MockAdapter();
+  const request = (url: string, option: Parameters<typeof binRequest>[1] = {}) =>
+    binRequest(url, { method: 'get', reqEnv: 'mock', mockAdapter: mock, ...option });
+
+  beforeEach(() => mock.reset());
+
+  it('onMetric 收到各个阶段的耗时', async () => {
+    mock.onGet('/api/user', { code: 0, result: 'ok' }, { delay: 50 });
+    const metrics: IRequestMetric[] = [];
+    await request('/api/user', { params: { id: 1 }, onMetric: metric => metrics.push(metric) });
+    expect(metrics).toHaveLength(1);
+    const [metric] = metrics;
+    expect(metric).toMatchObject({
+      name: '/api/user',
+      path: '/api/user',
+      method: 'get',
+      reqEnv: 'mock',
+      outcome: 'success',
+      status: 200,
+      cacheHit: false,
+      synthetic: false,
+      attempts: 1,
+    });
+    const { startedAt, sentAt, firstByteAt, completedAt, queued, waiting, receiving, total } = metric.timings;
+    expect(startedAt).toBeLessThanOrEqual(sentAt!);
+    expect(sentAt!).toBeLessThanOrEqual(firstByteAt!);
+    expect(firstByteAt!).toBeLessThanOrEqual(completedAt);
+    expect(waiting).toBeGreaterThanOrEqual(45);
+    expect(queued! + waiting! + receiving!).toBe(total);
+    expect(total).toBe(completedAt - startedAt);
+  });
+
+  it('metricsEvents 收到失败和命中缓存的请求', async () => {
+    const metrics: IRequestMetric[] = [];
+    const off = metricsEvents.on('metric', metric => metrics.push(metric));
+    mock.onGet('/api/missing', mockReply({ status: 404 }));
+    mock.onGet('/api/config', { code: 0, result: 'config' });
+    await request('/api/missing', { metricName: 'missing' }).catch(() => undefined);
+    await request('/api/config', { cacheData: true });
+    await request('/api/config', { cacheData: true });
+    off();
+    await request('/api/config');
+    expect(metrics.map(({ name, outcome, status, errorType, cacheHit, attempts }) => ({
+      name,
+      outcome,
+      status,
+      errorType,
+      cacheHit,
+      attempts,
+    }))).toEqual([
+      { name: 'missing', outcome: 'error', status: 404, errorType: 'http', cacheHit: false, attempts: 1 },
+      { name: '/api/config', outcome: 'success', status: 200, errorType: undefined, cacheHit: false, attempts: 1 },
+      { name: '/api/config', outcome: 'success', status: undefined, errorType: undefined, cacheHit: true, attempts: 0 },
+    ]);
+  });
+
+  it('onMetric 抛出的异常通过 metricsEvents 的 error 通知，不影响请求', async () => {
+    const errors: any[] = [];
+    const off = metricsEvents.on('error', ({ error }) => errors.push(error));
+    mock.onGet('/api/user', { code: 0, result: 'ok' });
+    await expect(request('/api/user', { onMetric: () => { throw new Error('onMetric'); } })).resolves.toBe('ok');
+    off();
+    expect(errors.map(error => error.message)).toEqual(['onMetric']);
+  });
+
+  it('估算数据的字节数', () => {
+    expect(estimateSize(undefined)).toBe(0);
+    expect(estimateSize('abc')).toBe(3);
+    expect(estimateSize('报表')).toBe(6);
+    expect(estimateSize({ a: 1 })).toBe(7);
+    expect(estimateSize(new Uint8Array(5))).toBe(5);
+  });
+});
@@ -0,0 +1,458 @@
+import { Emitter } from '../emitter';
+import type { IRequestErrorType } from '../errors';
+import { getResponseHeader } from '../httpUtils';
+import { IRequestOption } from '../typings';
+
+/**
+ * 请求各个阶段的时间，不区分 DNS、连接等网络细节
+ */
+export interface IRequestTimings {
+  /**
+   * 调用 binRequest 的时间
+   */
+  startedAt: number;
+  /**
+   * 最后一次发出请求的时间，命中缓存时没有
+   */
+  sentAt?: number;
+  /**
+   * 收到响应的时间，axios、uni 为响应完全返回的时间，fetch 为收到响应头的时间
+   */
+  firstByteAt?: number;
+  /**
+   * 请求结束的时间
+   */
+  completedAt: number;
+  /**
+   * 排队耗时：缓存读取、拦截器等，发出请求前的时间
+   */
+  queued?: number;
+  /**
+   * 等待响应的耗时
+   */
+  waiting?: number;
+  /**
+   * 读取和处理响应的耗时
+   */
+  receiving?: number;
+  /**
+   * 总耗时
+   */
+  total: number;
+}
+
+/**
+ * 一次请求的指标
+ */
+export interface IRequestMetric {
+  /**
+   * 接口名，默认为 option.metricName，没有则为路径
+   */
+  name: string;
+  /**
+   * 请求配置中的 metricName，没有指定时为 undefined
+   */
+  metricName?: string;
+  /**
+   * 完整的请求地址
+   */
+  url: string;
+  /**
+   * 不带域名和查询参数的路径
+   */
+  path: string;
+  /**
+   * 请求方法，小写
+   */
+  method: string;
+  /**
+   * 请求环境，没有指定时为 auto
+   */
+  reqEnv: NonNullable<IRequestOption['reqEnv']> | 'auto';
+  /**
+   * 请求结果
+   */
+  outcome: 'success' | 'error' | 'canceled';
+  /**
+   * http 状态码
+   */
+  status?: number;
+  /**
+   * 异常类型
+   */
+  errorType?: IRequestErrorType;
+  /**
+   * 异常码
+   */
+  errorCode?: string | number;
+  /**
+   * 是否命中缓存
+   */
+  cacheHit: boolean;
+  /**
+   * 是否由拦截器直接返回
+   */
+  synthetic: boolean;
+  /**
+   * 尝试次数，命中缓存时为0
+   */
+  attempts: number;
+  /**
+   * 请求体的字节数，估算
+   */
+  requestSize?: number;
+  /**
+   * 响应的字节数，优先使用 Content-Length，没有则估算
+   */
+  responseSize?: number;
+  reqUuid?: string;
+  timings: IRequestTimings;
+}
+
+/**
+ * 指标的事件
+ */
+export type IMetricsEvents = {
+  /**
+   * 请求结束
+   */
+  metric: IRequestMetric;
+  /**
+   * option.onMetric 抛出异常
+   */
+  error: { error: any; metric: IRequestMetric };
+};
+
+/**
+ * 指标的事件订阅，所有请求结束后都会触发
+ */
+export const metricsEvents = new Emitter<IMetricsEvents>();
+
+/**
+ * 估算数据的字节数，无法估算时返回 undefined
+ * @param value 数据
+ */
+export const estimateSize = (value: any): number | undefined => {
+  if (value === undefined || value === null) {
+    return 0;
+  }
+  if (typeof Blob !== 'undefined' && value instanceof Blob) {
+    return value.size;
+  }
+  if (typeof ArrayBuffer !== 'undefined' && (value instanceof ArrayBuffer || ArrayBuffer.isView(value))) {
+    return value.byteLength;
+  }
+  if (typeof FormData !== 'undefined' && value instanceof FormData) {
+    return undefined;
+  }
+  let text: string;
+  try {
+    text = typeof value === 'string' ? value : JSON.stringify(value);
+  } catch (e) {
+    return undefined;
+  }
+  if (typeof text !== 'string') {
+    return undefined;
+  }
+  return typeof TextEncoder !== 'undefined' ? new TextEncoder().encode(text).length : text.length;
+};
+
+/**
+ * 获取不带域名和查询参数的路径
+ * @param url 请求地址
+ */
+const getPath = (url: string) =>
+  url.split(/[?#]/)[0].replace(/^([a-z][a-z\d+\-.]*:)?\/\/[^/]*/i, '') || '/';
+
+/**
+ * 记录一次请求的指标，请求结束时触发 metricsEvents 和 option.onMetric
+ * @param url 拼接了 baseURL 的请求地址
+ * @param option 请求配置
+ * @param startedAt 调用 binRequest 的时间
+ */
+export const createMetricTracker = (url: string, option: IRequestOption, startedAt = Date.now()) => {
+  let sentAt: number | undefined;
+  let firstByteAt: number | undefined;
+  let attempts = 0;
+  let sent: IRequestOption | undefined;
+  let response: any;
+  let finished = false;
+
+  return {
+    /**
+     * 发出请求，重试时每次都会调用
+     * @param opt 处理后的请求配置
+     */
+    send(opt: IRequestOption) {
+      sentAt = Date.now();
+      firstByteAt = undefined;
+      attempts += 1;
+      sent = opt;
+    },
+    /**
+     * 收到响应
+     * @param res 原始响应
+     */
+    receive(res: any) {
+      firstByteAt = Date.now();
+      response = res;
+    },
+    /**
+     * 请求结束
+     * @param p 结果，命中缓存时传 cacheHit
+     */
+    finish(p: { data?: any; error?: any; cacheHit?: boolean }) {
+      if (finished || (!option.onMetric && !metricsEvents.listenerCount('metric'))) {
+        return;
+      }
+      finished = true;
+      const completedAt = Date.now();
+      const { error } = p;
+      const requestUrl = sent?.url || url;
+      const contentLength = getResponseHeader(response || error?.response, 'content-length');
+      const metric: IRequestMetric = {
+        name: option.metricName || getPath(url),
+        metricName: option.metricName,
+        url: requestUrl,
+        path: getPath(requestUrl),
+        method: (sent?.method || option.method || 'post').toLowerCase(),
+        reqEnv: sent?.reqEnv || option.reqEnv || 'auto',
+        outcome: !error ? 'success' : error.type === 'canceled' || error.canceled ? 'canceled' : 'error',
+        status: response?.status ?? response?.statusCode ?? error?.status,
+        errorType: error?.type,
+        errorCode: error?.code,
+        cacheHit: !!p.cacheHit,
+        synthetic: !p.cacheHit && !sentAt,
+        attempts,
+        requestSize: sent ? estimateSize(sent.body ?? sent.data) : undefined,
+        responseSize: contentLength ? Number(contentLength) : estimateSize(response?.data ?? p.data),
+        reqUuid: option.reqUuid,
+        timings: {
+          startedAt,
+          sentAt,
+          firstByteAt,
+          completedAt,
+          queued: sentAt !== undefined ? sentAt - startedAt : undefined,
+          waiting: sentAt !== undefined && firstByteAt !== undefined ? firstByteAt - sentAt : undefined,
+          receiving: firstByteAt !== undefined ? completedAt - firstByteAt : undefined,
+          total: completedAt - startedAt,
+        },
+      };
+      metricsEvents.emit('metric', metric);
+      if (option.onMetric) {
+        try {
+          option.onMetric(metric);
+        } catch (error) {
+          metricsEvents.emit('error', { error, metric });
+        }
+      }
+    },
+  };
+};
+
+/**
+ * 一个接口的统计
+ */
+export interface IEndpointStats {
+  /**
+   * 方法和接口，比如 GET /api/user/:id
+   */
+  key: string;
+  method: string;
+  pattern: string;
+  /**
+   * 请求次数，包含命中缓存的
+   */
+  count: number;
+  /**
+   * 失败次数，不包含取消的
+   */
+  errors: number;
+  /**
+   * 取消次数
+   */
+  canceled: number;
+  /**
+   * 命中缓存的次数
+   */
+  cacheHits: number;
+  /**
+   * 失败率
+   */
+  errorRate: number;
+  /**
+   * 耗时的中位数（毫秒）
+   */
+  p50: number;
+  /**
+   * 耗时的95分位（毫秒）
+   */
+  p95: number;
+  avg: number;
+  min: number;
+  max: number;
+}
+
+type IMetricsAggregatorInit = {
+  /**
+   * 接口的路径规则，支持 :name 和 *，比如 /api/user/:id，没有匹配的路径会把数字、uuid 等段替换成 :id
+   */
+  patterns?: string[];
+  /**
+   * 每个接口最多保留多少个耗时样本，默认500
+   */
+  maxSamples?: number;
+  /**
+   * 命中缓存的请求是否计入耗时，默认 false
+   */
+  includeCacheHits?: boolean;
+};
+
+/**
+ * 计算分位数
+ * @param sorted 升序的样本
+ * @param percentile 分位（0-100）
+ */
+const quantile = (sorted: number[], percentile: number) => {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  const index = Math.ceil((percentile / 100) * sorted.length) - 1;
+  return sorted[Math.min(Math.max(index, 0), sorted.length - 1)];
+};
+
+/**
+ * 把路径中的 id 类的段替换成 :id
+ * @param path 路径
+ */
+const normalizePath = (path: string) =>
+  path
+    .split('/')
+    .map(segment =>
+      /^\d+$/.test(segment) ||
+      /^[\da-f]{8}-?[\da-f]{4}-?[\da-f]{4}-?[\da-f]{4}-?[\da-f]{12}$/i.test(segment) ||
+      /^[\da-f]{16,}$/i.test(segment)
+        ? ':id'
+        : segment,
+    )
+    .join('/');
+
+/**
+ * 按接口统计请求次数、失败率和耗时分位数
+ * @example
+ * const aggregator = new MetricsAggregator({ patterns: ['/api/user/:id'] });
+ * aggregator.attach();
+ * aggregator.getStats(); // [{ key: 'GET /api/user/:id', p50: 120, p95: 480, ... }]
+ */
+export class MetricsAggregator {
+  private endpoints = new Map<string, Omit<IEndpointStats, 'errorRate' | 'p50' | 'p95' | 'avg' | 'min' | 'max'> & { samples: number[] }>();
+
+  private patterns: { pattern: string; regexp: RegExp }[];
+
+  private maxSamples: number;
+
+  private includeCacheHits: boolean;
+
+  constructor(p: IMetricsAggregatorInit = {}) {
+    this.patterns = (p.patterns || []).map(pattern => ({
+      pattern,
+      regexp: new RegExp(
+        `^${pattern
+          .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+          .replace(/:[A-Za-z_$][\w$]*/g, '[^/]+')
+          .replace(/\*/g, '.*')}/?$`,
+      ),
+    }));
+    this.maxSamples = p.maxSamples || 500;
+    this.includeCacheHits = !!p.includeCacheHits;
+  }
+
+  /**
+   * 订阅请求指标
+   * @param events 指标的事件订阅，默认 metricsEvents
+   * @returns 取消订阅的方法
+   */
+  attach(events: Emitter<IMetricsEvents> = metricsEvents) {
+    return events.on('metric', metric => this.add(metric));
+  }
+
+  /**
+   * 获取请求对应的接口
+   * @param metric 请求指标
+   */
+  private resolvePattern(metric: IRequestMetric) {
+    if (metric.metricName) {
+      return metric.metricName;
+    }
+    const matched = this.patterns.find(item => item.regexp.test(metric.path));
+    return matched ? matched.pattern : normalizePath(metric.path);
+  }
+
+  /**
+   * 添加一次请求的指标
+   * @param metric 请求指标
+   */
+  add(metric: IRequestMetric) {
+    const pattern = this.resolvePattern(metric);
+    const key = `${metric.method.toUpperCase()} ${pattern}`;
+    let endpoint = this.endpoints.get(key);
+    if (!endpoint) {
+      endpoint = { key, method: metric.method, pattern, count: 0, errors: 0, canceled: 0, cacheHits: 0, samples: [] };
+      this.endpoints.set(key, endpoint);
+    }
+    endpoint.count += 1;
+    if (metric.outcome === 'error') {
+      endpoint.errors += 1;
+    } else if (metric.outcome === 'canceled') {
+      endpoint.canceled += 1;
+    }
+    if (metric.cacheHit) {
+      endpoint.cacheHits += 1;
+    }
+    if (metric.outcome !== 'canceled' && (!metric.cacheHit || this.includeCacheHits)) {
+      endpoint.samples.push(metric.timings.total);
+      if (endpoint.samples.length > this.maxSamples) {
+        endpoint.samples.shift();
+      }
+    }
+  }
+
+  /**
+   * 获取一个接口的统计
+   * @param key 方法和接口，比如 GET /api/user/:id
+   */
+  get(key: string): IEndpointStats | undefined {
+    const endpoint = this.endpoints.get(key);
+    if (!endpoint) {
+      return undefined;
+    }
+    const { samples, ...rest } = endpoint;
+    const sorted = [...samples].sort((a, b) => a - b);
+    const finished = rest.count - rest.canceled;
+    return {
+      ...rest,
+      errorRate: finished > 0 ? rest.errors / finished : 0,
+      p50: quantile(sorted, 50),
+      p95: quantile(sorted, 95),
+      avg: sorted.length ? Math.round(sorted.reduce((sum, item) => sum + item, 0) / sorted.length) : 0,
+      min: sorted[0] ?? 0,
+      max: sorted[sorted.length - 1] ?? 0,
+    };
+  }
+
+  /**
+   * 获取所有接口的统计，按请求次数倒序
+   */
+  getStats() {
+    return [...this.endpoints.keys()]
+      .map(key => this.get(key)!)
+      .sort((a, b) => b.count - a.count);
+  }
+
+  /**
+   * 清空统计
+   */
+  reset() {
+    this.endpoints.clear();
+  }
+}
@@ -0,0 +1,104 @@
+import binRequest, { isNetworkError, isTimeoutError, MockAdapter, mockReply } from '..';
+
+describe('MockAdapter', () => {
+  const mock = new MockAdapter();
+
+  beforeEach(() => mock.reset());
+
+  it('按方法和路径匹配路由，解析路径参数、查询参数和请求体', async () => {
+    mock.onPost('/user/:id', req => ({ params: req.params, query: req.query, data: req.data }));
+    const res = await mock.request('http://localhost/user/42?tab=a&tag=x&tag=y', {
+      method: 'POST',
+      data: '{"name":"bin"}',
+    });
+    expect(res.status).toBe(200);
+    expect(res.data).toEqual({
+      params: { id: '42' },
+      query: { tab: 'a', tag: ['x', 'y'] },
+      data: { name: 'bin' },
+    });
+    expect((await mock.request('/user/42', { method: 'get' })).status).toBe(404);
+  });
+
+  it('支持通配符、正则、完整地址和自定义匹配方法', async () => {
+    mock.onGet('/files/*', 'wildcard');
+    mock.onGet(/\/report\/(?<year>\d{4})$/, req => req.params.year);
+    mock.onGet('http://other.com/api', 'absolute');
+    mock.onAny((url, req) => req.headers.token === 'abc', 'custom');
+    expect((await mock.request('/files/a/b.txt')).data).toBe('wildcard');
+    expect((await mock.request('/report/2024')).data).toBe('2024');
+    expect((await mock.request('http://other.com/api?x=1')).data).toBe('absolute');
+    expect((await mock.request('http://localhost/api')).status).toBe(404);
+    expect((await mock.request('/anything', { method: 'delete', headers: { token: 'abc' } })).data).toBe('custom');
+  });
+
+  it('后注册的路由优先，once 只匹配一次，返回的方法可以移除路由', async () => {
+    mock.onGet('/item', 'first');
+    const remove = mock.onGet('/item', 'second');
+    mock.onGet('/item', 'once', { once: true });
+    expect((await mock.request('/item')).data).toBe('once');
+    expect((await mock.request('/item')).data).toBe('second');
+    remove();
+    expect((await mock.request('/item')).data).toBe('first');
+  });
+
+  it('mockReply 设置状态码和响应头，没有匹配的路由返回 404', async () => {
+    mock.onGet('/created', mockReply({ status: 201, data: { id: 1 }, headers: { 'x-id': '1' } }));
+    const res = await mock.request('/created');
+    expect(res).toMatchObject({ status: 201, data: { id: 1 }, headers: { 'x-id': '1' } });
+    const missing = await mock.request('/missing', { method: 'put' });
+    expect(missing.status).toBe(404);
+    expect(missing.data.msg).toContain('PUT /missing');
+  });
+
+  it('loadFixtures 加载 json 数据', async () => {
+    mock.loadFixtures({
+      'GET /api/user/:id': { code: 0, result: 'user' },
+      '/api/config': { code: 0, result: 'config' },
+    });
+    expect((await mock.request('/api/user/1')).data.result).toBe('user');
+    expect((await mock.request('/api/user/1', { method: 'post' })).status).toBe(404);
+    expect((await mock.request('/api/config', { method: 'post' })).data.result).toBe('config');
+  });
+
+  it('模拟网络异常和超时', async () => {
+    mock.onGet('/offline', mockReply({ networkError: true }));
+    mock.onGet('/slow', mockReply({ timeout: true }));
+    await expect(mock.request('/offline')).rejects.toMatchObject({ code: 'ERR_NETWORK' });
+    await expect(mock.request('/slow', { timeout: 100 })).rejects.toMatchObject({ code: 'ECONNABORTED' });
+    expect(mock.history().map(call => call.status)).toEqual([0, 0]);
+  });
+
+  it('延迟期间中断时抛出取消异常', async () => {
+    mock.onGet('/delay', 'ok', { delay: 1000 });
+    const controller = new AbortController();
+    const promise = mock.request('/delay', { signal: controller.signal });
+    controller.abort();
+    await expect(promise).rejects.toMatchObject({ code: 'ERR_CANCELED' });
+  });
+
+  it('记录调用历史，可以按方法和地址过滤', async () => {
+    mock.onAny('/api/*', mockReply({ status: 204 }));
+    await mock.request('/api/a', { method: 'get' });
+    await mock.request('/api/b', { method: 'post', data: { x: 1 } });
+    await mock.request('/other');
+    expect(mock.history()).toHaveLength(3);
+    expect(mock.history('post')).toMatchObject([{ path: '/api/b', data: { x: 1 }, status: 204 }]);
+    expect(mock.history('*', '/api/*')).toHaveLength(2);
+    expect(mock.history(undefined, '/other')[0].status).toBe(404);
+    mock.resetHistory();
+    expect(mock.history()).toHaveLength(0);
+    await mock.request('/api/c');
+    expect(mock.history()).toHaveLength(1);
+  });
+
+  it('通过 binRequest 使用时网络异常和超时转换成对应的请求异常', async () => {
+    mock.onGet('/user', { code: 0, result: 'ok' });
+    mock.onGet('/offline', mockReply({ networkError: true }));
+    mock.onGet('/slow', mockReply({ timeout: true }));
+    const request = (url: string) => binRequest(url, { method: 'get', reqEnv: 'mock', mockAdapter: mock });
+    await expect(request('/user')).resolves.toBe('ok');
+    expect(isNetworkError(await request('/offline').catch(e => e))).toBe(true);
+    expect(isTimeoutError(await request('/slow').catch(e => e))).toBe(true);
+  });
+});
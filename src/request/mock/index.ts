@@ -0,0 +1,397 @@
+import type { IRequestOption } from '../typings';
+
+/**
+ * 模拟请求收到的请求信息
+ */
+export interface IMockRequest {
+  /**
+   * 请求方法，小写
+   */
+  method: string;
+  /**
+   * 完整的请求地址
+   */
+  url: string;
+  /**
+   * 不带域名和查询参数的路径
+   */
+  path: string;
+  /**
+   * 查询参数
+   */
+  query: Record<string, string | string[]>;
+  /**
+   * 路径参数，比如 /user/:id 中的 id
+   */
+  params: Record<string, string>;
+  /**
+   * 请求体，json 和表单会解析成对象
+   */
+  data: any;
+  /**
+   * 请求头
+   */
+  headers: Record<string, any>;
+  /**
+   * 处理后的请求配置
+   */
+  option: IRequestOption;
+}
+
+/**
+ * 模拟的响应
+ */
+export interface IMockReply {
+  /**
+   * http 状态码，默认200
+   */
+  status?: number;
+  /**
+   * 响应数据
+   */
+  data?: any;
+  /**
+   * 响应头
+   */
+  headers?: Record<string, string>;
+  /**
+   * 延迟（毫秒），覆盖路由和适配器的延迟
+   */
+  delay?: number;
+  /**
+   * 模拟网络异常
+   */
+  networkError?: boolean;
+  /**
+   * 模拟请求超时
+   */
+  timeout?: boolean;
+}
+
+/**
+ * 路由处理方法，返回 IMockReply 需要用 mockReply 包一层，其余返回值都作为响应数据
+ */
+export type IMockHandler = (req: IMockRequest) => any;
+
+/**
+ * 路由匹配规则，字符串支持 :name 路径参数和 * 通配符，以 / 开头时只匹配路径
+ */
+export type IMockPattern = string | RegExp | ((url: string, req: Omit<IMockRequest, 'params'>) => boolean);
+
+/**
+ * 路由配置
+ */
+export interface IMockRouteOption {
+  /**
+   * 延迟（毫秒）
+   */
+  delay?: number;
+  /**
+   * 只匹配一次
+   */
+  once?: boolean;
+}
+
+/**
+ * 调用记录
+ */
+export interface IMockCall extends IMockRequest {
+  /**
+   * 响应的状态码，网络异常和超时为 0
+   */
+  status: number;
+  /**
+   * 调用时间
+   */
+  time: number;
+}
+
+type IMockRoute = IMockRouteOption & {
+  method: string;
+  pattern: IMockPattern;
+  handler: IMockHandler;
+};
+
+const REPLY_FLAG = '__binMockReply';
+
+/**
+ * 生成带状态码、响应头、延迟等信息的模拟响应
+ * @param reply 响应信息
+ */
+export const mockReply = (reply: IMockReply) => ({ ...reply, [REPLY_FLAG]: true });
+
+const isMockReply = (value: any): value is IMockReply => !!value && typeof value === 'object' && value[REPLY_FLAG] === true;
+
+/**
+ * 拆分请求地址
+ * @param url 请求地址
+ */
+const splitUrl = (url: string) => {
+  const [withoutHash] = url.split('#');
+  const index = withoutHash.indexOf('?');
+  const base = index === -1 ? withoutHash : withoutHash.slice(0, index);
+  const search = index === -1 ? '' : withoutHash.slice(index + 1);
+  const query: Record<string, string | string[]> = {};
+  search
+    .split('&')
+    .filter(Boolean)
+    .forEach(item => {
+      const [key, ...value] = item.split('=');
+      const name = decodeURIComponent(key);
+      const val = decodeURIComponent(value.join('=').replace(/\+/g, ' '));
+      const prev = query[name];
+      query[name] = prev === undefined ? val : ([] as string[]).concat(prev, val);
+    });
+  return {
+    base,
+    path: base.replace(/^([a-z][a-z\d+\-.]*:)?\/\/[^/]*/i, '') || '/',
+    query,
+  };
+};
+
+/**
+ * 解析请求体
+ * @param data 请求体
+ */
+const parseBody = (data: any) => {
+  if (typeof data !== 'string') {
+    return data;
+  }
+  try {
+    return JSON.parse(data);
+  } catch (e) {
+    // 不是 json
+  }
+  if (/^[^=&]+=/.test(data)) {
+    return splitUrl(`?${data}`).query;
+  }
+  return data;
+};
+
+/**
+ * 匹配路由
+ * @param pattern 匹配规则
+ * @param req 请求信息
+ * @returns 匹配到的路径参数，没有匹配到返回 undefined
+ */
+const matchPattern = (pattern: IMockPattern, req: Omit<IMockRequest, 'params'>): Record<string, string> | undefined => {
+  if (typeof pattern === 'function') {
+    return pattern(req.url, req) ? {} : undefined;
+  }
+  if (pattern instanceof RegExp) {
+    const match = pattern.exec(req.url);
+    return match ? { ...match.groups } : undefined;
+  }
+  const keys: string[] = [];
+  const source = pattern
+    .split('?')[0]
+    .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/:([A-Za-z_$][\w$]*)/g, (_, key) => {
+      keys.push(key);
+      return '([^/]+)';
+    })
+    .replace(/\*/g, '.*');
+  const target = pattern.startsWith('/') ? req.path : splitUrl(req.url).base;
+  const match = new RegExp(`^${source}/?$`).exec(target);
+  if (!match) {
+    return undefined;
+  }
+  const params: Record<string, string> = {};
+  keys.forEach((key, index) => {
+    params[key] = decodeURIComponent(match[index + 1]);
+  });
+  return params;
+};
+
+/**
+ * 生成和 axios 一样的异常
+ * @param message 异常信息
+ * @param code 异常码
+ */
+const createMockError = (message: string, code: string) => Object.assign(new Error(message), { code });
+
+/**
+ * 模拟请求适配器，通过 reqEnv: 'mock' 使用
+ * <br />
+ * 返回和 axios 一样的响应，会完整经过 checkStatus、responseErrorIntercept、缓存和日志
+ */
+export class MockAdapter {
+  private routes: IMockRoute[] = [];
+
+  private calls: IMockCall[] = [];
+
+  /**
+   * 所有请求的默认延迟（毫秒）
+   */
+  delay: number;
+
+  constructor(p: { delay?: number } = {}) {
+    this.delay = p.delay || 0;
+  }
+
+  /**
+   * 注册路由，后注册的优先匹配
+   * @param method 请求方法，* 表示所有方法
+   * @param pattern 匹配规则
+   * @param handler 处理方法或者直接返回的响应数据
+   * @param option 路由配置
+   * @returns 移除该路由的方法
+   */
+  on(method: string, pattern: IMockPattern, handler: IMockHandler | any, option: IMockRouteOption = {}) {
+    const route: IMockRoute = {
+      ...option,
+      method: method.toLowerCase(),
+      pattern,
+      handler: typeof handler === 'function' ? handler : () => handler,
+    };
+    this.routes.unshift(route);
+    return () => {
+      this.routes = this.routes.filter(item => item !== route);
+    };
+  }
+
+  onGet(pattern: IMockPattern, handler: IMockHandler | any, option?: IMockRouteOption) {
+    return this.on('get', pattern, handler, option);
+  }
+
+  onPost(pattern: IMockPattern, handler: IMockHandler | any, option?: IMockRouteOption) {
+    return this.on('post', pattern, handler, option);
+  }
+
+  onPut(pattern: IMockPattern, handler: IMockHandler | any, option?: IMockRouteOption) {
+    return this.on('put', pattern, handler, option);
+  }
+
+  onDelete(pattern: IMockPattern, handler: IMockHandler | any, option?: IMockRouteOption) {
+    return this.on('delete', pattern, handler, option);
+  }
+
+  onAny(pattern: IMockPattern, handler: IMockHandler | any, option?: IMockRouteOption) {
+    return this.on('*', pattern, handler, option);
+  }
+
+  /**
+   * 加载 json 数据，key 为 "GET /api/user/:id" 或者 "/api/user/:id"（所有方法），值为响应数据
+   * @param fixtures 数据
+   * @param option 路由配置
+   */
+  loadFixtures(fixtures: Record<string, any>, option?: IMockRouteOption) {
+    Object.keys(fixtures).forEach(key => {
+      const match = /^([A-Za-z]+|\*)\s+(\S+)$/.exec(key.trim());
+      if (match) {
+        this.on(match[1], match[2], fixtures[key], option);
+      } else {
+        this.onAny(key.trim(), fixtures[key], option);
+      }
+    });
+    return this;
+  }
+
+  /**
+   * 获取调用记录
+   * @param method 请求方法，不传则是所有方法
+   * @param pattern 匹配规则，不传则是所有地址
+   */
+  history(method?: string, pattern?: IMockPattern) {
+    return this.calls.filter(
+      item =>
+        (!method || method === '*' || item.method === method.toLowerCase()) &&
+        (!pattern || !!matchPattern(pattern, item)),
+    );
+  }
+
+  /**
+   * 清空调用记录
+   */
+  resetHistory() {
+    this.calls = [];
+  }
+
+  /**
+   * 清空路由和调用记录
+   */
+  reset() {
+    this.routes = [];
+    this.calls = [];
+  }
+
+  /**
+   * 发起模拟请求，参数同 axios
+   * @param url 请求地址
+   * @param opt 处理后的请求配置
+   */
+  request = async (url: string, opt: IRequestOption = {}) => {
+    const { base, path, query } = splitUrl(url);
+    const method = (opt.method || 'get').toLowerCase();
+    const req: Omit<IMockRequest, 'params'> = {
+      method,
+      url,
+      path,
+      query,
+      data: parseBody(opt.data ?? opt.body),
+      headers: { ...opt.headers },
+      option: opt,
+    };
+    let params: Record<string, string> | undefined;
+    const route = this.routes.find(item => {
+      if (item.method !== '*' && item.method !== method) {
+        return false;
+      }
+      params = matchPattern(item.pattern, req);
+      return !!params;
+    });
+    if (route?.once) {
+      this.routes = this.routes.filter(item => item !== route);
+    }
+    const request: IMockRequest = { ...req, params: params || {} };
+    const call: IMockCall = { ...request, status: 0, time: Date.now() };
+    this.calls.push(call);
+
+    let reply: IMockReply;
+    if (!route) {
+      reply = { status: 404, data: { code: 404, msg: `没有匹配的模拟接口：${method.toUpperCase()} ${base}` } };
+    } else {
+      const result = await route.handler(request);
+      reply = isMockReply(result) ? result : { data: result };
+    }
+    const delay = reply.delay ?? route?.delay ?? this.delay;
+    if (delay > 0) {
+      await new Promise<void>((resolve, reject) => {
+        const signal: AbortSignal | undefined = opt.signal;
+        const onAbort = () => {
+          clearTimeout(timer);
+          reject(Object.assign(new Error('canceled'), { name: 'AbortError', code: 'ERR_CANCELED' }));
+        };
+        const timer = setTimeout(() => {
+          signal?.removeEventListener?.('abort', onAbort);
+          resolve();
+        }, delay);
+        if (signal?.aborted) {
+          onAbort();
+        } else {
+          signal?.addEventListener?.('abort', onAbort);
+        }
+      });
+    }
+    if (reply.networkError) {
+      throw createMockError('Network Error', 'ERR_NETWORK');
+    }
+    if (reply.timeout) {
+      throw createMockError(`timeout of ${opt.timeout || 0}ms exceeded`, 'ECONNABORTED');
+    }
+    call.status = reply.status || 200;
+    return {
+      data: reply.data,
+      status: call.status,
+      statusText: '',
+      headers: { ...reply.headers },
+      config: opt,
+      url,
+    };
+  };
+}
+
+/**
+ * 默认的模拟请求适配器，reqEnv: 'mock' 且没有传 mockAdapter 时使用
+ */
+export const mockAdapter = new MockAdapter();
@@ -0,0 +1,204 @@
+import binRequest, {
+  createOfflineQueue,
+  MemoryOfflineStorage,
+  MockAdapter,
+  mockReply,
+  WebStorageOfflineStorage,
+} from '..';
+import type { IOfflineQueueOption, IRequestOption } from '..';
+
+/**
+ * 用 Map 实现的 Storage
+ */
+class FakeStorage {
+  private data = new Map<string, string>();
+
+  get length() {
+    return this.data.size;
+  }
+
+  clear() {
+    this.data.clear();
+  }
+
+  getItem(key: string) {
+    return this.data.has(key) ? this.data.get(key)! : null;
+  }
+
+  key(index: number) {
+    return [...this.data.keys()][index] ?? null;
+  }
+
+  removeItem(key: string) {
+    this.data.delete(key);
+  }
+
+  setItem(key: string, value: string) {
+    this.data.set(key, String(value));
+  }
+}
+
+describe('createOfflineQueue', () => {
+  const mock = new MockAdapter();
+  // mockAdapter 不能序列化，回放时重新带上
+  const send = (url: string, option: IRequestOption) => binRequest(url, { ...option, mockAdapter: mock });
+
+  const setup = (option: IOfflineQueueOption = {}) => {
+    const queue = createOfflineQueue({ storage: new MemoryOfflineStorage(), autoReplay: false, request: send, ...option });
+    const request = (url: string, option: IRequestOption = {}) =>
+      send(url, { method: 'post', reqEnv: 'mock', offline: true, interceptors: [queue.interceptor], ...option });
+    return { queue, request };
+  };
+
+  // 断网
+  const goOffline = () => {
+    mock.reset();
+    mock.onAny('*', mockReply({ networkError: true }));
+  };
+
+  beforeEach(() => goOffline());
+
+  it('断网时加入队列并持久化，认证信息和不能序列化的配置不保存', async () => {
+    const storage = new WebStorageOfflineStorage(new FakeStorage() as Storage, 'offline');
+    const { queue, request } = setup({ storage });
+    const error = await request('/api/order', {
+      params: { id: 1 },
+      headers: { Authorization: 'Bearer abc', 'X-Csrf-Token': 'x', 'X-Trace': '1' },
+      onMetric: () => undefined,
+    }).catch(e => e);
+    expect(error.offlineId).toEqual(expect.any(String));
+
+    // 新建的队列从同一个存储中读取
+    const restored = createOfflineQueue({ storage, autoReplay: false, request: send });
+    const [item] = await restored.list();
+    expect(item).toMatchObject({
+      id: error.offlineId,
+      url: '/api/order',
+      attempts: 0,
+      option: { method: 'post', reqEnv: 'mock', params: { id: 1 }, headers: { 'X-Trace': '1' } },
+    });
+    expect(item.option).not.toHaveProperty('offline');
+    expect(item.option).not.toHaveProperty('onMetric');
+    expect(item.option).not.toHaveProperty('mockAdapter');
+    expect(JSON.stringify(storage.load())).not.toContain('Bearer abc');
+    await queue.clear();
+    expect(await restored.list()).toEqual([]);
+  });
+
+  it('只有修改类请求并且 offline 为 true 时加入队列，queueAll 时可以用 offline: false 排除', async () => {
+    const { queue, request } = setup();
+    await request('/api/list', { method: 'get' }).catch(() => undefined);
+    await request('/api/save', { offline: undefined }).catch(() => undefined);
+    expect(await queue.list()).toHaveLength(0);
+
+    const all = setup({ queueAll: true });
+    await all.request('/api/save', { offline: undefined }).catch(() => undefined);
+    await all.request('/api/skip', { offline: false }).catch(() => undefined);
+    expect((await all.queue.list()).map(item => item.url)).toEqual(['/api/save']);
+
+    // 不是断网的异常不加入队列
+    mock.reset();
+    mock.onAny('*', mockReply({ status: 500 }));
+    await request('/api/error').catch(() => undefined);
+    expect(await queue.list()).toHaveLength(0);
+  });
+
+  it('queuedResult 作为原请求的返回值', async () => {
+    const { queue, request } = setup({ queuedResult: item => ({ queued: item.id }) });
+    const result = await request('/api/order');
+    expect(result).toEqual({ queued: (await queue.list())[0].id });
+  });
+
+  it('按加入的顺序回放，成功后移出队列', async () => {
+    const { queue, request } = setup();
+    const replayed: string[] = [];
+    queue.events.on('replayed', ({ item }) => replayed.push(item.url));
+    for (const name of ['a', 'b', 'c']) {
+      await request(`/api/${name}`, { params: { name } }).catch(() => undefined);
+    }
+    mock.reset();
+    mock.onPost('/api/:name', req => ({ code: 0, result: req.params.name }));
+    expect(await queue.replay()).toBe(3);
+    expect(replayed).toEqual(['/api/a', '/api/b', '/api/c']);
+    expect(mock.history().map(call => call.path)).toEqual(['/api/a', '/api/b', '/api/c']);
+    expect(await queue.list()).toEqual([]);
+  });
+
+  it('回放时还是断网则停止，正在回放时复用同一次回放', async () => {
+    const { queue, request } = setup();
+    await request('/api/a').catch(() => undefined);
+    await request('/api/b').catch(() => undefined);
+    mock.resetHistory();
+    const first = queue.replay();
+    expect(queue.replay()).toBe(first);
+    expect(await first).toBe(0);
+    expect(mock.history()).toHaveLength(1);
+    expect(await queue.list()).toHaveLength(2);
+  });
+
+  it('回放失败时保留并阻塞后面的请求，skipFailed 时继续回放', async () => {
+    const run = async (option: IOfflineQueueOption) => {
+      goOffline();
+      const { queue, request } = setup(option);
+      for (const name of ['a', 'fail', 'c']) {
+        await request(`/api/${name}`).catch(() => undefined);
+      }
+      mock.reset();
+      // 后注册的路由优先
+      mock.onPost('/api/:name', { code: 0, result: 'ok' });
+      mock.onPost('/api/fail', mockReply({ status: 500 }));
+      const count = await queue.replay();
+      return { count, items: await queue.list() };
+    };
+
+    const blocked = await run({});
+    expect(blocked.count).toBe(1);
+    expect(blocked.items.map(item => item.url)).toEqual(['/api/fail', '/api/c']);
+    expect(blocked.items[0]).toMatchObject({ attempts: 1, lastError: { status: 500 } });
+
+    const skipped = await run({ skipFailed: true });
+    expect(skipped.count).toBe(2);
+    expect(skipped.items.map(item => item.url)).toEqual(['/api/fail']);
+  });
+
+  it('失败次数达到 maxAttempts 后丢弃', async () => {
+    const { queue, request } = setup({ maxAttempts: 2 });
+    const dropped: string[] = [];
+    queue.events.on('dropped', ({ item, reason }) => dropped.push(`${item.url}:${reason}`));
+    await request('/api/fail').catch(() => undefined);
+    mock.reset();
+    mock.onPost('/api/fail', mockReply({ status: 500 }));
+    await queue.replay();
+    expect(await queue.list()).toHaveLength(1);
+    await queue.replay();
+    expect(await queue.list()).toHaveLength(0);
+    expect(dropped).toEqual(['/api/fail:maxAttempts']);
+  });
+
+  it('冲突时默认丢弃，onConflict 返回 keep 时保留', async () => {
+    const run = async (option: IOfflineQueueOption) => {
+      goOffline();
+      const { queue, request } = setup(option);
+      const events: string[] = [];
+      queue.events.on('conflict', ({ item }) => events.push(`conflict:${item.url}`));
+      queue.events.on('dropped', ({ item, reason }) => events.push(`dropped:${reason}:${item.url}`));
+      await request('/api/conflict').catch(() => undefined);
+      await request('/api/next').catch(() => undefined);
+      mock.reset();
+      mock.onPost('/api/conflict', mockReply({ status: 409 }));
+      mock.onPost('/api/next', { code: 0, result: 'ok' });
+      const count = await queue.replay();
+      return { count, events, items: await queue.list() };
+    };
+
+    expect(await run({})).toEqual({
+      count: 1,
+      events: ['conflict:/api/conflict', 'dropped:conflict:/api/conflict'],
+      items: [],
+    });
+    const kept = await run({ onConflict: () => 'keep' });
+    expect(kept.count).toBe(0);
+    expect(kept.events).toEqual(['conflict:/api/conflict']);
+    expect(kept.items.map(item => item.url)).toEqual(['/api/conflict', '/api/next']);
+  });
+});
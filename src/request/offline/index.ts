@@ -0,0 +1,486 @@
+import binRequest from '../binRequest';
+import { Emitter } from '../emitter';
+import { isNetworkError } from '../errors';
+import { SENSITIVE_HEADERS } from '../httpUtils';
+import { IInterceptorContext, IRequestInterceptor } from '../interceptors';
+import { IRequestOption } from '../typings';
+import cryptoUtils from '../../core/cryptoUtils';
+
+/**
+ * 离线队列中的请求
+ */
+export interface IOfflineItem {
+  /**
+   * 唯一标识，按创建时间递增
+   */
+  id: string;
+  /**
+   * 拼接了 baseURL 的请求地址
+   */
+  url: string;
+  /**
+   * 可以序列化的请求配置，函数、signal、拦截器等会被去掉
+   */
+  option: IRequestOption;
+  /**
+   * 加入队列的时间
+   */
+  createdAt: number;
+  /**
+   * 已经回放的次数
+   */
+  attempts: number;
+  /**
+   * 最后一次回放失败的原因
+   */
+  lastError?: { message: string; status?: number; code?: string | number };
+}
+
+/**
+ * 离线队列的存储，方法可以是同步的也可以是异步的
+ */
+export interface IOfflineStorage {
+  load(): IOfflineItem[] | Promise<IOfflineItem[]>;
+  save(items: IOfflineItem[]): void | Promise<void>;
+}
+
+/**
+ * 内存存储，刷新页面后丢失，一般用于测试
+ */
+export class MemoryOfflineStorage implements IOfflineStorage {
+  private items: IOfflineItem[] = [];
+
+  load() {
+    return [...this.items];
+  }
+
+  save(items: IOfflineItem[]) {
+    this.items = [...items];
+  }
+}
+
+/**
+ * localStorage 存储
+ */
+export class WebStorageOfflineStorage implements IOfflineStorage {
+  constructor(private storage: Storage = localStorage, private key = 'binOfflineQueue') { }
+
+  load(): IOfflineItem[] {
+    try {
+      const items = JSON.parse(this.storage.getItem(this.key) || '[]');
+      return Array.isArray(items) ? items : [];
+    } catch (e) {
+      return [];
+    }
+  }
+
+  save(items: IOfflineItem[]) {
+    try {
+      this.storage.setItem(this.key, JSON.stringify(items));
+    } catch (e) {
+      // 存储空间满了就不保存了
+    }
+  }
+}
+
+/**
+ * uni-app 本地存储
+ */
+export class UniStorageOfflineStorage implements IOfflineStorage {
+  constructor(private key = 'binOfflineQueue') { }
+
+  load(): IOfflineItem[] {
+    const items = uni.getStorageSync(this.key);
+    return Array.isArray(items) ? items : [];
+  }
+
+  save(items: IOfflineItem[]) {
+    uni.setStorageSync(this.key, items);
+  }
+}
+
+/**
+ * 根据当前环境创建存储，依次使用 localStorage、uni 本地存储、内存
+ */
+export const createOfflineStorage = (): IOfflineStorage => {
+  if (typeof localStorage !== 'undefined') {
+    return new WebStorageOfflineStorage(localStorage);
+  }
+  if (typeof uni !== 'undefined' && typeof uni.getStorageSync !== 'undefined') {
+    return new UniStorageOfflineStorage();
+  }
+  return new MemoryOfflineStorage();
+};
+
+/**
+ * 回放冲突时的处理，drop 丢弃，keep 保留在队列中等下次回放
+ */
+export type IOfflineConflictAction = 'drop' | 'keep';
+
+/**
+ * 离线队列的事件
+ */
+export type IOfflineEvents = {
+  /**
+   * 请求加入队列
+   */
+  queued: IOfflineItem;
+  /**
+   * 回放成功
+   */
+  replayed: { item: IOfflineItem; result: any };
+  /**
+   * 回放冲突
+   */
+  conflict: { item: IOfflineItem; error: any };
+  /**
+   * 请求从队列中移除，包括冲突丢弃、超过回放次数和手动移除
+   */
+  dropped: { item: IOfflineItem; reason: 'conflict' | 'maxAttempts' | 'manual'; error?: any };
+  /**
+   * 队列发生变化
+   */
+  change: IOfflineItem[];
+};
+
+/**
+ * 离线队列配置
+ */
+export interface IOfflineQueueOption {
+  /**
+   * 存储，默认按环境创建
+   */
+  storage?: IOfflineStorage;
+  /**
+   * 是否所有修改类请求都加入队列，默认 false，只有 option.offline 为 true 的请求才会加入
+   */
+  queueAll?: boolean;
+  /**
+   * 需要加入队列的请求方法，默认 post、put、patch、delete
+   */
+  methods?: string[];
+  /**
+   * 是否是断网的异常，默认为 NetworkError
+   */
+  isOfflineError?: (error: any) => boolean;
+  /**
+   * 回放失败时是否是冲突，默认 http 状态码为 409 或 412
+   */
+  isConflict?: (error: any) => boolean;
+  /**
+   * 回放冲突时执行，返回 keep 保留在队列中，默认丢弃
+   */
+  onConflict?: (item: IOfflineItem, error: any) => IOfflineConflictAction | void | Promise<IOfflineConflictAction | void>;
+  /**
+   * 回放失败（不是断网也不是冲突）的最大次数，超过后丢弃，默认5
+   */
+  maxAttempts?: number;
+  /**
+   * 回放失败但仍保留在队列中时，是否继续回放后面的请求，默认 false，停止回放以保证顺序
+   */
+  skipFailed?: boolean;
+  /**
+   * 加入队列后原请求的返回值，不传则原请求照常抛出异常，异常上带有 offlineId
+   */
+  queuedResult?: (item: IOfflineItem) => any;
+  /**
+   * 回放使用的请求方法，默认 binRequest，请求客户端可以传 client.request
+   */
+  request?: (url: string, option: IRequestOption) => Promise<any>;
+  /**
+   * 是否在恢复网络时自动回放，默认 true
+   */
+  autoReplay?: boolean;
+}
+
+/**
+ * 离线队列
+ */
+export interface IOfflineQueue {
+  /**
+   * 离线队列的事件
+   */
+  readonly events: Emitter<IOfflineEvents>;
+  /**
+   * 请求拦截器，注册到 globalInterceptors 或者请求客户端
+   */
+  readonly interceptor: IRequestInterceptor;
+  /**
+   * 获取队列中的请求
+   */
+  list: () => Promise<IOfflineItem[]>;
+  /**
+   * 移除队列中的请求
+   */
+  remove: (id: string) => Promise<void>;
+  /**
+   * 清空队列
+   */
+  clear: () => Promise<void>;
+  /**
+   * 按加入的顺序回放，遇到断网或者失败后仍保留的请求时停止（skipFailed 时跳过），正在回放时复用同一次回放
+   * @returns 回放成功的数量
+   */
+  replay: () => Promise<number>;
+  /**
+   * 停止监听网络恢复
+   */
+  destroy: () => void;
+}
+
+// 回放的请求不再加入队列
+const REPLAY_FLAG = '__binOfflineReplay';
+
+// 不需要持久化的配置
+const SKIP_KEYS = ['signal', 'cancelToken', 'interceptors', 'reqUuid', 'cacheKey', 'offline'];
+
+/**
+ * 是否是可以序列化的值
+ * @param value 值
+ */
+const isSerializable = (value: any): boolean => {
+  if (value === null || ['string', 'number', 'boolean'].includes(typeof value)) {
+    return true;
+  }
+  if (Array.isArray(value)) {
+    return value.every(isSerializable);
+  }
+  if (typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.keys(value).every(key => value[key] === undefined || isSerializable(value[key]));
+  }
+  return false;
+};
+
+/**
+ * 只保留可以序列化的请求配置
+ * @param option 请求配置
+ */
+const serializeOption = (option: IRequestOption): IRequestOption => {
+  const result: Record<string, any> = {};
+  Object.keys(option).forEach(key => {
+    const value = (option as any)[key];
+    if (SKIP_KEYS.includes(key) || value === undefined || !isSerializable(value)) {
+      return;
+    }
+    if (key === 'headers' && value) {
+      result[key] = Object.keys(value)
+        // 认证信息不明文保存，回放时由拦截器重新带上
+        .filter(name => !SENSITIVE_HEADERS.test(name))
+        .reduce((headers, name) => ({ ...headers, [name]: value[name] }), {});
+      return;
+    }
+    result[key] = value;
+  });
+  return JSON.parse(JSON.stringify(result));
+};
+
+/**
+ * 当前是否有网络，无法判断时当作有网络
+ */
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine !== false;
+
+/**
+ * 默认的冲突判断
+ * @param error 异常
+ */
+const defaultIsConflict = (error: any) => [409, 412].includes(error?.status);
+
+/**
+ * 创建离线队列，断网时修改类请求加入持久化的队列，恢复网络后按顺序回放
+ * <br />
+ * 请求的参数需要可以序列化，文件上传不会加入队列
+ * @param option 离线队列配置
+ * @example
+ * const offlineQueue = createOfflineQueue({ onConflict: item => 'drop' });
+ * globalInterceptors.use(offlineQueue.interceptor);
+ * request('/api/order/save', { params, offline: true });
+ */
+export const createOfflineQueue = (option: IOfflineQueueOption = {}): IOfflineQueue => {
+  const storage = option.storage || createOfflineStorage();
+  const events = new Emitter<IOfflineEvents>();
+  const methods = (option.methods || ['post', 'put', 'patch', 'delete']).map(item => item.toLowerCase());
+  const isOfflineError = option.isOfflineError || isNetworkError;
+  const isConflict = option.isConflict || defaultIsConflict;
+  const maxAttempts = option.maxAttempts || 5;
+  const send = option.request || ((url: string, opt: IRequestOption) => binRequest(url, opt));
+  let replaying: Promise<number> | undefined;
+  // 读写串行，避免并发修改时互相覆盖
+  let task: Promise<any> = Promise.resolve();
+
+  const update = <T>(fn: (items: IOfflineItem[]) => { items: IOfflineItem[]; result?: T }) => {
+    const next = task.then(async () => {
+      const current = await storage.load();
+      const { items, result } = fn(current);
+      if (items !== current) {
+        await storage.save(items);
+        events.emit('change', items);
+      }
+      return result as T;
+    });
+    task = next.catch(() => undefined);
+    return next;
+  };
+
+  const list = () => update<IOfflineItem[]>(items => ({ items, result: [...items] }));
+
+  const drop = (item: IOfflineItem, reason: IOfflineEvents['dropped']['reason'], error?: any) =>
+    update(items => ({ items: items.filter(current => current.id !== item.id) })).then(() => {
+      events.emit('dropped', { item, reason, error });
+    });
+
+  const remove = async (id: string) => {
+    const item = (await list()).find(current => current.id === id);
+    if (item) {
+      await drop(item, 'manual');
+    }
+  };
+
+  const clear = async () => {
+    const items = await list();
+    await update(() => ({ items: [] }));
+    items.forEach(item => events.emit('dropped', { item, reason: 'manual' }));
+  };
+
+  /**
+   * 回放一个请求
+   * @returns replayed 成功，offline 还是没有网络，dropped 失败并移除，kept 失败但保留在队列中
+   */
+  const replayItem = async (item: IOfflineItem): Promise<'replayed' | 'offline' | 'dropped' | 'kept'> => {
+    try {
+      const result = await send(item.url, { ...item.option, [REPLAY_FLAG]: true } as IRequestOption);
+      await update(items => ({ items: items.filter(current => current.id !== item.id) }));
+      events.emit('replayed', { item, result });
+      return 'replayed';
+    } catch (error: any) {
+      if (isOfflineError(error)) {
+        // 还是没有网络，停止回放
+        return 'offline';
+      }
+      if (isConflict(error)) {
+        events.emit('conflict', { item, error });
+        const action = option.onConflict ? await option.onConflict(item, error) : 'drop';
+        if (action === 'keep') {
+          return 'kept';
+        }
+        await drop(item, 'conflict', error);
+        return 'dropped';
+      }
+      const attempts = item.attempts + 1;
+      if (attempts >= maxAttempts) {
+        await drop(item, 'maxAttempts', error);
+        return 'dropped';
+      }
+      await update(items => ({
+        items: items.map(current =>
+          current.id === item.id
+            ? {
+              ...current,
+              attempts,
+              lastError: { message: error?.message || String(error), status: error?.status, code: error?.code },
+            }
+            : current,
+        ),
+      }));
+      return 'kept';
+    }
+  };
+
+  const replay = () => {
+    if (replaying) {
+      return replaying;
+    }
+    replaying = (async () => {
+      let count = 0;
+      try {
+        for (const item of await list()) {
+          const result = await replayItem(item);
+          // 前面的请求还在队列中时不回放后面的，避免顺序错乱
+          if (result === 'offline' || (result === 'kept' && !option.skipFailed)) {
+            break;
+          }
+          if (result === 'replayed') {
+            count += 1;
+          }
+        }
+      } finally {
+        replaying = undefined;
+      }
+      return count;
+    })();
+    return replaying;
+  };
+
+  const interceptor: IRequestInterceptor = {
+    name: 'offline',
+    onError: async (error: any, opt: IRequestOption, ctx: IInterceptorContext) => {
+      const raw = ctx.option as IRequestOption & { [REPLAY_FLAG]?: boolean };
+      const method = (opt.method || 'post').toLowerCase();
+      if (
+        raw[REPLAY_FLAG] ||
+        raw.offline === false ||
+        (!raw.offline && !option.queueAll) ||
+        !methods.includes(method) ||
+        opt.manner === 'file' ||
+        !isOfflineError(error) ||
+        !isSerializable(raw.params ?? null)
+      ) {
+        return undefined;
+      }
+      const item: IOfflineItem = {
+        id: `${Date.now().toString(36)}${cryptoUtils.miniUuid()}`,
+        url: ctx.url,
+        option: { ...serializeOption({ ...raw, baseURL: undefined }), method: method as IRequestOption['method'] },
+        createdAt: Date.now(),
+        attempts: 0,
+      };
+      await update(items => ({ items: [...items, item] }));
+      events.emit('queued', item);
+      if (option.queuedResult) {
+        return option.queuedResult(item);
+      }
+      error.offlineId = item.id;
+      return undefined;
+    },
+  };
+
+  // 恢复网络时回放
+  const onOnline = () => {
+    replay().catch(() => undefined);
+  };
+  const onNetworkChange = (result: { isConnected: boolean }) => {
+    if (result.isConnected) {
+      onOnline();
+    }
+  };
+  const autoReplay = option.autoReplay !== false;
+  if (autoReplay) {
+    if (typeof window !== 'undefined' && typeof window.addEventListener === 'function') {
+      window.addEventListener('online', onOnline);
+    } else if (typeof uni !== 'undefined' && typeof uni.onNetworkStatusChange === 'function') {
+      uni.onNetworkStatusChange(onNetworkChange);
+    }
+    if (isOnline()) {
+      // 上次没有回放完的请求
+      setTimeout(onOnline, 0);
+    }
+  }
+
+  return {
+    events,
+    interceptor,
+    list,
+    remove,
+    clear,
+    replay,
+    destroy: () => {
+      if (!autoReplay) {
+        return;
+      }
+      if (typeof window !== 'undefined' && typeof window.removeEventListener === 'function') {
+        window.removeEventListener('online', onOnline);
+      } else if (typeof uni !== 'undefined' && uni.offNetworkStatusChange) {
+        uni.offNetworkStatusChange(onNetworkChange);
+      }
+    },
+  };
+};
@@ -0,0 +1,158 @@
+import { isCanceledError, poll, RequestError } from '..';
+import type { IPollOption, IPollProgress } from '..';
+
+describe('poll', () => {
+  /**
+   * 轮询一组结果，返回每次的进度
+   * @param results 每次请求返回的结果，Error 表示请求失败
+   * @param option 轮询配置
+   */
+  const run = (results: any[], option: IPollOption<any> = {}) => {
+    const progress: IPollProgress<any>[] = [];
+    const request = jest.fn(async ({ attempt }: { attempt: number }) => {
+      const result = results[Math.min(attempt, results.length) - 1];
+      if (result instanceof Error) {
+        throw result;
+      }
+      return result;
+    });
+    const promise = poll(request, { interval: 1, onProgress: item => progress.push(item), ...option });
+    return { promise, request, progress };
+  };
+
+  it('until 满足时结束轮询并返回结果', async () => {
+    const { promise, request, progress } = run(['pending', 'pending', 'done', 'never'], {
+      until: result => result === 'done',
+    });
+    expect(await promise).toBe('done');
+    expect(request).toHaveBeenCalledTimes(3);
+    expect(progress.map(item => [item.attempt, item.result, item.nextDelay])).toEqual([
+      [1, 'pending', 1],
+      [2, 'pending', 1],
+      [3, 'done', undefined],
+    ]);
+  });
+
+  it('按 backoff 增长间隔，不超过 maxInterval', async () => {
+    const delays = async (backoff: IPollOption<any>['backoff']) => {
+      const { promise, progress } = run([0], { interval: 2, maxAttempts: 5, maxInterval: 10, backoff });
+      await promise;
+      return progress.map(item => item.nextDelay);
+    };
+    expect(await delays('fixed')).toEqual([2, 2, 2, 2, undefined]);
+    expect(await delays('linear')).toEqual([2, 4, 6, 8, undefined]);
+    expect(await delays('exponential')).toEqual([2, 4, 8, 10, undefined]);
+    expect(await delays((attempt, interval) => (attempt % 2 ? interval : -1))).toEqual([2, 0, 2, 0, undefined]);
+  });
+
+  it('按间隔等待后再发起下一次请求', async () => {
+    jest.useFakeTimers();
+    try {
+      const { promise, request } = run(['a', 'b'], { interval: 1000, until: result => result === 'b' });
+      await jest.advanceTimersByTimeAsync(0);
+      expect(request).toHaveBeenCalledTimes(1);
+      await jest.advanceTimersByTimeAsync(999);
+      expect(request).toHaveBeenCalledTimes(1);
+      await jest.advanceTimersByTimeAsync(1);
+      expect(request).toHaveBeenCalledTimes(2);
+      expect(await promise).toBe('b');
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('delayFirst 时先等待一个间隔', async () => {
+    jest.useFakeTimers();
+    try {
+      const { promise, request } = run(['a'], { interval: 500, delayFirst: true, maxAttempts: 1 });
+      await jest.advanceTimersByTimeAsync(499);
+      expect(request).not.toHaveBeenCalled();
+      await jest.advanceTimersByTimeAsync(1);
+      expect(await promise).toBe('a');
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('超过 maxAttempts 时有 until 抛出异常，没有 until 返回最后一次的结果', async () => {
+    const limited = run(['a', 'b', 'c'], { maxAttempts: 2, until: () => false });
+    const error = await limited.promise.catch(e => e);
+    expect(error).toBeInstanceOf(RequestError);
+    expect(error).toMatchObject({ code: 'ERR_POLL_MAX_ATTEMPTS', data: 'b' });
+
+    const noUntil = run(['a', 'b', 'c'], { maxAttempts: 2 });
+    expect(await noUntil.promise).toBe('b');
+    expect(noUntil.request).toHaveBeenCalledTimes(2);
+  });
+
+  it('请求失败时默认结束轮询，continueOnError 时继续', async () => {
+    const failure = new Error('失败');
+    const stop = run(['a', failure, 'done']);
+    await expect(stop.promise).rejects.toBe(failure);
+    expect(stop.request).toHaveBeenCalledTimes(2);
+
+    const next = run(['a', failure, 'done'], { continueOnError: true, until: result => result === 'done' });
+    expect(await next.promise).toBe('done');
+    expect(next.progress[1]).toMatchObject({ attempt: 2, error: failure });
+    expect(next.progress[1].result).toBeUndefined();
+
+    const filtered = run([failure, 'done'], {
+      continueOnError: (error, attempt) => attempt > 1,
+      until: result => result === 'done',
+    });
+    await expect(filtered.promise).rejects.toBe(failure);
+  });
+
+  it('中断时取消正在进行的请求和等待', async () => {
+    const controller = new AbortController();
+    let requestSignal: AbortSignal | undefined;
+    const pending = poll(
+      ({ signal }) => {
+        requestSignal = signal;
+        return new Promise((resolve, reject) => signal.addEventListener('abort', () => reject(new Error('aborted'))));
+      },
+      { signal: controller.signal },
+    );
+    await Promise.resolve();
+    controller.abort();
+    expect(isCanceledError(await pending.catch(e => e))).toBe(true);
+    expect(requestSignal?.aborted).toBe(true);
+
+    const waiting = new AbortController();
+    const { promise, request } = run(['a'], { interval: 10000, signal: waiting.signal });
+    setTimeout(() => waiting.abort(), 10);
+    expect(isCanceledError(await promise.catch(e => e))).toBe(true);
+    expect(request).toHaveBeenCalledTimes(1);
+
+    const aborted = new AbortController();
+    aborted.abort();
+    const before = run(['a'], { signal: aborted.signal });
+    expect(isCanceledError(await before.promise.catch(e => e))).toBe(true);
+    expect(before.request).not.toHaveBeenCalled();
+  });
+
+  it('页面隐藏时暂停，可见后继续', async () => {
+    const listeners = new Set<() => void>();
+    const fakeDocument = {
+      visibilityState: 'hidden',
+      addEventListener: (type: string, listener: () => void) => listeners.add(listener),
+      removeEventListener: (type: string, listener: () => void) => listeners.delete(listener),
+    };
+    (global as any).document = fakeDocument;
+    try {
+      const { promise, request } = run(['a'], { maxAttempts: 1 });
+      await new Promise(resolve => setTimeout(resolve, 10));
+      expect(request).not.toHaveBeenCalled();
+      fakeDocument.visibilityState = 'visible';
+      listeners.forEach(listener => listener());
+      expect(await promise).toBe('a');
+      expect(listeners.size).toBe(0);
+
+      fakeDocument.visibilityState = 'hidden';
+      const ignored = run(['b'], { maxAttempts: 1, pauseWhenHidden: false });
+      expect(await ignored.promise).toBe('b');
+    } finally {
+      delete (global as any).document;
+    }
+  });
+});
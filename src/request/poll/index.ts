@@ -0,0 +1,259 @@
+import { createCanceledError, linkAbortSignal } from '../cancel';
+import { RequestError } from '../errors';
+import asyncUtils from '../../core/asyncUtils';
+
+/**
+ * 每次轮询的信息
+ */
+export interface IPollProgress<T> {
+  /**
+   * 第几次请求，从1开始
+   */
+  attempt: number;
+  /**
+   * 本次请求的结果
+   */
+  result?: T;
+  /**
+   * 本次请求的异常，continueOnError 时才会继续轮询
+   */
+  error?: any;
+  /**
+   * 从开始轮询到现在的时间
+   */
+  elapsed: number;
+  /**
+   * 下一次请求前等待的时间，轮询结束时没有
+   */
+  nextDelay?: number;
+}
+
+/**
+ * 轮询配置
+ */
+export interface IPollOption<T> {
+  /**
+   * 轮询间隔（毫秒），默认2000，长轮询可以传0，上一次请求返回后立即发起下一次
+   */
+  interval?: number;
+  /**
+   * 结束条件，返回 true 时结束轮询并返回该结果，不传则一直轮询到 maxAttempts
+   */
+  until?: (result: T, attempt: number) => boolean;
+  /**
+   * 最多请求多少次，默认不限制
+   */
+  maxAttempts?: number;
+  /**
+   * 间隔的增长方式，默认 fixed，也可以传入方法返回第几次请求后的间隔
+   */
+  backoff?: 'fixed' | 'linear' | 'exponential' | ((attempt: number, interval: number) => number);
+  /**
+   * 最大间隔（毫秒），默认30000
+   */
+  maxInterval?: number;
+  /**
+   * 是否先等待一个间隔再发起第一次请求，默认 false
+   */
+  delayFirst?: boolean;
+  /**
+   * 页面隐藏、uni 应用切到后台时是否暂停，默认 true
+   */
+  pauseWhenHidden?: boolean;
+  /**
+   * 请求失败时是否继续轮询，默认 false，失败时结束轮询并抛出异常
+   */
+  continueOnError?: boolean | ((error: any, attempt: number) => boolean);
+  /**
+   * 中断轮询，正在进行的请求也会收到中断
+   */
+  signal?: AbortSignal;
+  /**
+   * 每次请求后执行
+   */
+  onProgress?: (progress: IPollProgress<T>) => void;
+}
+
+/**
+ * 发起一次轮询请求的方法
+ */
+export type IPollRequest<T> = (context: { signal: AbortSignal; attempt: number }) => Promise<T>;
+
+// uni 应用是否在后台
+let uniAppHidden = false;
+let uniListening = false;
+const uniShowListeners = new Set<() => void>();
+
+/**
+ * 监听 uni 应用的前后台切换，只注册一次
+ */
+const listenUniApp = () => {
+  if (uniListening || typeof uni === 'undefined' || typeof uni.onAppHide !== 'function') {
+    return;
+  }
+  uniListening = true;
+  uni.onAppHide(() => {
+    uniAppHidden = true;
+  });
+  uni.onAppShow(() => {
+    uniAppHidden = false;
+    uniShowListeners.forEach(listener => listener());
+  });
+};
+
+/**
+ * 当前页面是否隐藏或者 uni 应用在后台
+ */
+export const isAppHidden = () => {
+  listenUniApp();
+  if (typeof document !== 'undefined' && document.visibilityState === 'hidden') {
+    return true;
+  }
+  return uniAppHidden;
+};
+
+/**
+ * 等到页面可见或者 uni 应用回到前台
+ * @param signal 中断等待
+ */
+const waitUntilVisible = (signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(createCanceledError());
+      return;
+    }
+    if (!isAppHidden()) {
+      resolve();
+      return;
+    }
+    const cleanup = () => {
+      if (typeof document !== 'undefined') {
+        document.removeEventListener('visibilitychange', onChange);
+      }
+      uniShowListeners.delete(onChange);
+      signal.removeEventListener('abort', onAbort);
+    };
+    const onChange = () => {
+      if (!isAppHidden()) {
+        cleanup();
+        resolve();
+      }
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(createCanceledError());
+    };
+    if (typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', onChange);
+    }
+    uniShowListeners.add(onChange);
+    signal.addEventListener('abort', onAbort);
+  });
+
+/**
+ * 可以中断的等待
+ * @param ms 毫秒
+ * @param signal 中断等待
+ */
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(createCanceledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createCanceledError());
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort);
+  });
+
+/**
+ * 计算第几次请求后的间隔
+ * @param attempt 已经请求的次数
+ * @param option 轮询配置
+ */
+const getPollDelay = (attempt: number, option: IPollOption<any>) => {
+  const interval = option.interval ?? 2000;
+  const { backoff = 'fixed' } = option;
+  const maxDelay = option.maxInterval ?? 30000;
+  if (typeof backoff === 'function') {
+    return Math.max(0, Math.min(backoff(attempt, interval), maxDelay));
+  }
+  // delayFirst 时 attempt 为0，按第一次的间隔等待
+  return asyncUtils.backoffDelay(Math.max(attempt, 1), { delay: interval, backoff, maxDelay });
+};
+
+/**
+ * 轮询接口直到满足结束条件，比如查询后台排队任务（202）的状态
+ * <br />
+ * 页面隐藏、uni 应用切到后台时暂停，回到前台后继续；请求失败时默认结束轮询
+ * @param request 发起一次请求的方法，收到的 signal 需要传给请求，中断轮询时才能取消正在进行的请求
+ * @param option 轮询配置
+ * @returns 满足结束条件的结果，没有结束条件时返回最后一次的结果
+ * @example
+ * const task = await poll(({ signal }) => request('/api/task/1', { method: 'get', signal }), {
+ *   interval: 1000,
+ *   backoff: 'exponential',
+ *   until: data => data.status === 'done'
+ * });
+ */
+export const poll = async <T = any>(request: IPollRequest<T>, option: IPollOption<T> = {}): Promise<T> => {
+  const { until, maxAttempts = Infinity, pauseWhenHidden = true, continueOnError, onProgress } = option;
+  const controller = new AbortController();
+  const unlink = linkAbortSignal(option.signal, controller);
+  const { signal } = controller;
+  const startTime = Date.now();
+  let last: T | undefined;
+  try {
+    if (option.delayFirst) {
+      await sleep(getPollDelay(0, option), signal);
+    }
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      if (pauseWhenHidden) {
+        await waitUntilVisible(signal);
+      }
+      if (signal.aborted) {
+        throw createCanceledError();
+      }
+      const progress: IPollProgress<T> = { attempt, elapsed: 0 };
+      let done = false;
+      try {
+        last = await request({ signal, attempt });
+        progress.result = last;
+        done = !!until && until(last, attempt);
+      } catch (e) {
+        if (signal.aborted) {
+          throw createCanceledError();
+        }
+        const canContinue = typeof continueOnError === 'function' ? continueOnError(e, attempt) : !!continueOnError;
+        if (!canContinue) {
+          throw e;
+        }
+        progress.error = e;
+      }
+      const finished = done || attempt >= maxAttempts;
+      progress.elapsed = Date.now() - startTime;
+      progress.nextDelay = finished ? undefined : getPollDelay(attempt, option);
+      if (onProgress) {
+        onProgress(progress);
+      }
+      if (done) {
+        return last as T;
+      }
+      if (!finished) {
+        await sleep(progress.nextDelay!, signal);
+      }
+    }
+  } finally {
+    unlink();
+  }
+  if (until) {
+    throw new RequestError('轮询次数超过限制', { code: 'ERR_POLL_MAX_ATTEMPTS', data: last });
+  }
+  return last as T;
+};
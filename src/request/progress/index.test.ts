@@ -0,0 +1,78 @@
+import { createProgressEvent, supportsRequestStream, withFetchProgress } from '..';
+import type { IProgressEvent } from '..';
+
+describe('withFetchProgress', () => {
+  const fetchMock = jest.fn();
+  const request = withFetchProgress(fetchMock);
+  const body = 'x'.repeat(1024);
+
+  afterEach(() => fetchMock.mockReset());
+
+  it('计算进度，拿不到总字节数时没有进度', () => {
+    expect(createProgressEvent(50, 200)).toEqual({ loaded: 50, total: 200, progress: 0.25 });
+    expect(createProgressEvent(300, 200).progress).toBe(1);
+    expect(createProgressEvent(50)).toEqual({ loaded: 50, total: undefined, progress: undefined });
+  });
+
+  it('支持流式请求体时按读取的字节回调上传进度', async () => {
+    expect(supportsRequestStream()).toBe(true);
+    fetchMock.mockImplementation(async (_url: string, init: RequestInit) => {
+      expect((init as any).duplex).toBe('half');
+      // 模拟发送时读取整个请求体
+      return new Response(await new Response(init.body).text());
+    });
+    const events: IProgressEvent[] = [];
+    const response = await request('http://localhost/upload', {
+      method: 'POST',
+      body,
+      onUploadProgress: e => events.push(e),
+    });
+    expect(await response.text()).toBe(body);
+    expect(events.length).toBeGreaterThan(0);
+    expect(events[events.length - 1]).toEqual({ loaded: 1024, total: 1024, progress: 1 });
+  });
+
+  it('流式上传被拒绝时改为整体上传，完成后回调一次进度', async () => {
+    fetchMock
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockImplementationOnce(async (_url: string, init: RequestInit) => {
+        expect((init as any).duplex).toBeUndefined();
+        expect(init.body).toBeInstanceOf(Blob);
+        return new Response(await new Response(init.body).text());
+      });
+    const events: IProgressEvent[] = [];
+    const response = await request('http://localhost/upload', {
+      method: 'POST',
+      body,
+      onUploadProgress: e => events.push(e),
+    });
+    expect(await response.text()).toBe(body);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(events).toEqual([{ loaded: 1024, total: 1024, progress: 1 }]);
+  });
+
+  it('中断或者其他异常不重新上传', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+    await expect(
+      request('http://localhost/upload', { method: 'POST', body, signal: controller.signal, onUploadProgress: () => undefined }),
+    ).rejects.toThrow('Failed to fetch');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    fetchMock.mockReset();
+    fetchMock.mockRejectedValue(new Error('boom'));
+    await expect(request('http://localhost/upload', { method: 'POST', body, onUploadProgress: () => undefined })).rejects.toThrow(
+      'boom',
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('读取响应体时回调下载进度', async () => {
+    fetchMock.mockResolvedValue(new Response(body, { headers: { 'Content-Length': '1024' } }));
+    const events: IProgressEvent[] = [];
+    const response = await request('http://localhost/download', { onDownloadProgress: e => events.push(e) });
+    expect(await response.text()).toBe(body);
+    expect(events[events.length - 1]).toEqual({ loaded: 1024, total: 1024, progress: 1 });
+  });
+});
@@ -0,0 +1,191 @@
+import type { IRequestOption } from '../typings';
+
+/**
+ * 上传、下载的进度
+ */
+export interface IProgressEvent {
+  /**
+   * 已经传输的字节数
+   */
+  loaded: number;
+  /**
+   * 总字节数，拿不到时为 undefined
+   */
+  total?: number;
+  /**
+   * 进度，0-1，拿不到总字节数时为 undefined
+   */
+  progress?: number;
+}
+
+/**
+ * 进度回调
+ */
+export type IProgressHandler = (event: IProgressEvent) => void;
+
+/**
+ * 生成进度信息
+ * @param loaded 已经传输的字节数
+ * @param total 总字节数
+ */
+export const createProgressEvent = (loaded: number, total?: number): IProgressEvent => ({
+  loaded,
+  total: total || undefined,
+  progress: total ? Math.min(loaded / total, 1) : undefined,
+});
+
+// 当前环境的 fetch 是否支持流式的请求体
+let requestStreamSupported: boolean | undefined;
+
+/**
+ * 当前环境的 fetch 是否支持流式的请求体，不支持时只能在请求结束后回调一次上传进度
+ */
+export const supportsRequestStream = () => {
+  if (typeof requestStreamSupported !== 'undefined') {
+    return requestStreamSupported;
+  }
+  requestStreamSupported = false;
+  try {
+    let duplexAccessed = false;
+    const hasContentType = new Request('http://localhost', {
+      body: new ReadableStream(),
+      method: 'POST',
+      get duplex() {
+        duplexAccessed = true;
+        return 'half';
+      },
+    } as RequestInit).headers.has('Content-Type');
+    requestStreamSupported = duplexAccessed && !hasContentType;
+  } catch (e) {
+    // 不支持 Request 或者 ReadableStream
+  }
+  return requestStreamSupported;
+};
+
+/**
+ * 给流加上进度统计
+ * @param stream 原始的流
+ * @param total 总字节数
+ * @param onProgress 进度回调
+ */
+const countStream = (stream: ReadableStream<Uint8Array>, total: number | undefined, onProgress: IProgressHandler) => {
+  const reader = stream.getReader();
+  let loaded = 0;
+  // 不预先读取，只在真正发送或者读取时统计
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) {
+        controller.close();
+        return;
+      }
+      loaded += value.byteLength;
+      onProgress(createProgressEvent(loaded, total));
+      controller.enqueue(value);
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  }, { highWaterMark: 0 });
+};
+
+/**
+ * 读取响应体时回调下载进度，不支持流的环境在读取完成后回调一次
+ * @param response fetch 的响应
+ * @param onProgress 进度回调
+ */
+export const trackDownloadProgress = (response: Response, onProgress: IProgressHandler): Response => {
+  const total = Number(response.headers?.get?.('content-length')) || undefined;
+  if (!response.body?.getReader || typeof ReadableStream === 'undefined') {
+    const finish = <T>(value: T) => {
+      onProgress(createProgressEvent(total || 0, total));
+      return value;
+    };
+    return new Proxy(response, {
+      get(target, key) {
+        const value = (target as any)[key];
+        if (['json', 'text', 'blob', 'arrayBuffer'].includes(key as string)) {
+          return () => value.call(target).then(finish);
+        }
+        return typeof value === 'function' ? value.bind(target) : value;
+      },
+    });
+  }
+  const tracked = new Response(countStream(response.body, total, onProgress), {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+  // new Response 拿不到原来的地址
+  Object.defineProperty(tracked, 'url', { value: response.url });
+  return tracked;
+};
+
+/**
+ * 把请求体转换成带进度的流，环境不支持时返回 undefined
+ * <br />
+ * 同时返回整体上传的请求参数，流式上传被拒绝时使用
+ * @param init fetch 的请求参数
+ * @param onProgress 进度回调
+ */
+const trackUploadProgress = async (init: RequestInit, onProgress: IProgressHandler) => {
+  if (init.body === null || typeof init.body === 'undefined' || !supportsRequestStream()) {
+    return undefined;
+  }
+  // 借助 Response 把 FormData、URLSearchParams 等序列化，同时拿到带 boundary 的 Content-Type
+  const blob = await new Response(init.body).blob();
+  const headers = new Headers(init.headers);
+  if (blob.type && (!headers.has('Content-Type') || /multipart\/form-data/i.test(headers.get('Content-Type')!))) {
+    headers.set('Content-Type', blob.type);
+  }
+  const buffered: RequestInit = { ...init, headers, body: blob };
+  return {
+    tracked: { ...buffered, body: countStream(blob.stream(), blob.size, onProgress), duplex: 'half' } as RequestInit,
+    buffered,
+  };
+};
+
+/**
+ * 给 fetch 加上上传、下载进度，参数同 fetch，进度回调从请求配置中读取
+ * <br />
+ * 流式上传被拒绝时（比如 Chrome 中 HTTP/1.1 的地址）改为整体上传，请求完成后回调一次上传进度
+ * @param originalFetch 原始的 fetch
+ */
+export const withFetchProgress =
+  (originalFetch: typeof fetch) =>
+    async (url: string, opt: IRequestOption & RequestInit) => {
+      const { onUploadProgress, onDownloadProgress } = opt;
+      if (!originalFetch || (!onUploadProgress && !onDownloadProgress)) {
+        return originalFetch(url, opt);
+      }
+      let init: RequestInit = opt;
+      let buffered: RequestInit | undefined;
+      let streamed = false;
+      if (onUploadProgress) {
+        const upload = await trackUploadProgress(opt, onUploadProgress);
+        if (upload) {
+          init = upload.tracked;
+          buffered = upload.buffered;
+          streamed = true;
+        }
+      }
+      let response: Response;
+      try {
+        response = await originalFetch(url, init);
+      } catch (e: any) {
+        // 只有流式上传失败时重试，中断的请求不重试
+        if (!buffered || e?.name !== 'TypeError' || opt.signal?.aborted) {
+          throw e;
+        }
+        init = buffered;
+        streamed = false;
+        response = await originalFetch(url, init);
+      }
+      if (onUploadProgress && !streamed) {
+        // 没有流式上传，请求完成后回调一次
+        const body: any = init.body;
+        const size = body?.size ?? body?.byteLength ?? (typeof body === 'string' ? body.length : 0);
+        onUploadProgress(createProgressEvent(size, size));
+      }
+      return onDownloadProgress ? trackDownloadProgress(response, onDownloadProgress) : response;
+    };
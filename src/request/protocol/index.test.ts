@@ -0,0 +1,89 @@
+import { isResponseSuccess, parseResponse, responseProtocols } from '..';
+import type { IResponseProtocol } from '..';
+
+describe('parseResponse', () => {
+  it('默认约定 { code: 0, result, msg }', () => {
+    expect(parseResponse({ code: 0, result: { id: 1 }, msg: 'ok' })).toEqual({
+      success: true,
+      code: 0,
+      data: { id: 1 },
+      message: 'ok',
+    });
+    expect(parseResponse({ code: 500, errmsg: '失败' })).toEqual({
+      success: false,
+      code: 500,
+      data: undefined,
+      message: '失败',
+    });
+  });
+
+  it('提示信息取第一个有值的路径', () => {
+    expect(parseResponse({ code: 1, msg: '', errmsg: '参数错误' }).message).toBe('参数错误');
+    expect(parseResponse({ code: 1, msg: null }).message).toBeUndefined();
+  });
+
+  it('successData 约定按 success 字段判断', () => {
+    const protocol = responseProtocols.successData;
+    expect(parseResponse({ success: true, data: [1], errorCode: 'OK' }, protocol)).toEqual({
+      success: true,
+      code: 'OK',
+      data: [1],
+      message: undefined,
+    });
+    expect(parseResponse({ success: 'true', errorMessage: '无权限', message: 'x' }, protocol)).toMatchObject({
+      success: false,
+      message: '无权限',
+    });
+  });
+
+  it('errcode 约定的数据是整个响应', () => {
+    const body = { errcode: 0, errmsg: 'ok', openid: 'abc' };
+    expect(parseResponse(body, responseProtocols.errcode)).toEqual({
+      success: true,
+      code: 0,
+      data: body,
+      message: 'ok',
+    });
+    expect(parseResponse({ errcode: 40001, errmsg: 'invalid' }, responseProtocols.errcode).success).toBe(false);
+  });
+
+  it('自定义 success 优先于业务码', () => {
+    const protocol: IResponseProtocol = { success: body => body.status === 'ok', codePath: 'status', dataPath: 'payload' };
+    expect(parseResponse({ status: 'ok', code: 500, payload: 1 }, protocol)).toMatchObject({
+      success: true,
+      code: 'ok',
+      data: 1,
+    });
+    expect(isResponseSuccess({ status: 'fail' }, protocol)).toBe(false);
+  });
+
+  it('空的 dataPath 返回整个响应，嵌套路径按 a.b 取值', () => {
+    const protocol: IResponseProtocol = { codePath: 'meta.code', successCode: 200, dataPath: '' };
+    const body = { meta: { code: 200 }, list: [] };
+    expect(parseResponse(body, protocol)).toMatchObject({ success: true, code: 200, data: body });
+    expect(parseResponse('plain text', protocol)).toMatchObject({ success: false, data: 'plain text' });
+  });
+
+  it('数字的 successCode 默认会把字符串业务码转成数字比较', () => {
+    expect(isResponseSuccess({ code: '0' })).toBe(true);
+    expect(isResponseSuccess({ code: '' })).toBe(true);
+    expect(isResponseSuccess({ code: null })).toBe(true);
+    expect(isResponseSuccess({ code: '1' })).toBe(false);
+    expect(isResponseSuccess({})).toBe(false);
+  });
+
+  it('strictCode 时业务码严格比较', () => {
+    const protocol: IResponseProtocol = { ...responseProtocols.default, strictCode: true };
+    expect(isResponseSuccess({ code: 0 }, protocol)).toBe(true);
+    expect(isResponseSuccess({ code: '0' }, protocol)).toBe(false);
+    expect(isResponseSuccess({ code: '' }, protocol)).toBe(false);
+    expect(isResponseSuccess({ code: null }, protocol)).toBe(false);
+  });
+
+  it('字符串的 successCode 把业务码转成字符串比较', () => {
+    const protocol: IResponseProtocol = { successCode: '200' };
+    expect(isResponseSuccess({ code: 200 }, protocol)).toBe(true);
+    expect(isResponseSuccess({ code: '200' }, protocol)).toBe(true);
+    expect(isResponseSuccess({ code: 200 }, { ...protocol, strictCode: true })).toBe(false);
+  });
+});
@@ -0,0 +1,137 @@
+import objectUtils from '../../core/objectUtils';
+
+/**
+ * 业务响应的结构约定，不同后台的成功判断、数据和提示信息字段不一样
+ */
+export interface IResponseProtocol {
+  /**
+   * 是否成功，不传则比较 codePath 的值和 successCode
+   */
+  success?: (body: any) => boolean;
+  /**
+   * 业务码的路径，支持 a.b 的写法，默认 code
+   */
+  codePath?: string;
+  /**
+   * 成功时的业务码，默认 0
+   */
+  successCode?: number | string;
+  /**
+   * 业务码严格比较，默认 false 时数字的 successCode 会把字符串业务码转成数字再比较，'0'、''、null 都可能被当成成功
+   */
+  strictCode?: boolean;
+  /**
+   * 数据的路径，默认 result，传空字符串表示整个响应
+   */
+  dataPath?: string;
+  /**
+   * 提示信息的路径，传数组时取第一个有值的，默认 msg
+   */
+  messagePath?: string | string[];
+}
+
+/**
+ * 解析后的业务响应
+ */
+export interface IParsedResponse<T = any> {
+  /**
+   * 是否成功
+   */
+  success: boolean;
+  /**
+   * 业务码
+   */
+  code?: number | string;
+  /**
+   * 数据
+   */
+  data?: T;
+  /**
+   * 提示信息
+   */
+  message?: string;
+}
+
+/**
+ * 内置的响应约定
+ */
+export const responseProtocols = {
+  /**
+   * { code: 0, result, msg }，默认使用
+   */
+  default: {
+    codePath: 'code',
+    successCode: 0,
+    dataPath: 'result',
+    messagePath: ['msg', 'errmsg'],
+  } as IResponseProtocol,
+  /**
+   * { success: true, data, errorMessage }
+   */
+  successData: {
+    success: body => body?.success === true,
+    codePath: 'errorCode',
+    dataPath: 'data',
+    messagePath: ['errorMessage', 'message'],
+  } as IResponseProtocol,
+  /**
+   * { errcode: 0, errmsg }，数据直接放在响应上
+   */
+  errcode: {
+    codePath: 'errcode',
+    successCode: 0,
+    dataPath: '',
+    messagePath: 'errmsg',
+  } as IResponseProtocol,
+};
+
+/**
+ * 按路径取值，空路径返回对象本身
+ * @param body 响应数据
+ * @param path 路径
+ */
+const getByPath = (body: any, path?: string) => {
+  if (!path) {
+    return body;
+  }
+  if (body === null || typeof body !== 'object') {
+    return undefined;
+  }
+  return objectUtils.get(body, path);
+};
+
+/**
+ * 按约定解析业务响应
+ * @param body 后台返回的数据
+ * @param protocol 响应约定，不传使用默认的 { code: 0, result, msg }
+ */
+export const parseResponse = <T = any>(
+  body: any,
+  protocol: IResponseProtocol = responseProtocols.default,
+): IParsedResponse<T> => {
+  const { codePath = 'code', successCode = 0, dataPath = 'result', messagePath = 'msg', strictCode = false } = protocol;
+  const code = getByPath(body, codePath);
+  const success = protocol.success
+    ? !!protocol.success(body)
+    : strictCode
+      ? code === successCode
+      : typeof successCode === 'number'
+        ? Number(code) === successCode
+        : String(code) === successCode;
+  const message = (Array.isArray(messagePath) ? messagePath : [messagePath])
+    .map(path => getByPath(body, path))
+    .find(item => typeof item !== 'undefined' && item !== null && item !== '');
+  return {
+    success,
+    code,
+    data: getByPath(body, dataPath),
+    message,
+  };
+};
+
+/**
+ * 是否是成功的业务响应
+ * @param body 后台返回的数据
+ * @param protocol 响应约定
+ */
+export const isResponseSuccess = (body: any, protocol?: IResponseProtocol) => parseResponse(body, protocol).success;
@@ -0,0 +1,72 @@
+import binRequest, { getHostRateLimiter, MockAdapter, removeHostRateLimit, setHostRateLimit } from '..';
+import type { IRequestOption } from '..';
+
+describe('host rate limit', () => {
+  const mock = new MockAdapter();
+  let active = 0;
+  let maxActive = 0;
+
+  const request = (url: string, option: IRequestOption = {}) =>
+    binRequest(url, { method: 'get', reqEnv: 'mock', mockAdapter: mock, ...option });
+
+  beforeEach(() => {
+    active = 0;
+    maxActive = 0;
+    mock.reset();
+    mock.onGet('/limit', async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      active--;
+      return { code: 0, result: 'ok' };
+    });
+  });
+
+  afterEach(() => removeHostRateLimit());
+
+  it('按域名匹配限流器', () => {
+    const limiter = setHostRateLimit('api.example.com', { concurrency: 1 });
+    const wildcard = setHostRateLimit('*.partner.com', { concurrency: 1 });
+    expect(getHostRateLimiter('https://API.example.com/user')).toBe(limiter);
+    expect(getHostRateLimiter('https://a.partner.com:8080/user')).toBe(wildcard);
+    expect(getHostRateLimiter('https://other.com/user')).toBeUndefined();
+  });
+
+  it('限制同一个域名的并发数', async () => {
+    const limiter = setHostRateLimit('api.example.com', { concurrency: 2 });
+    const promises = Array.from({ length: 5 }, () => request('https://api.example.com/limit'));
+    await new Promise(resolve => setTimeout(resolve, 5));
+    expect(limiter.pending).toBe(2);
+    expect(limiter.size).toBe(3);
+    await expect(Promise.all(promises)).resolves.toHaveLength(5);
+    expect(maxActive).toBe(2);
+    expect(limiter.pending).toBe(0);
+  });
+
+  it('其他域名不受限制', async () => {
+    setHostRateLimit('api.example.com', { concurrency: 1 });
+    await Promise.all(Array.from({ length: 3 }, () => request('https://other.example.com/limit')));
+    expect(maxActive).toBe(3);
+  });
+
+  it('限制同一个域名的速率', async () => {
+    setHostRateLimit('api.example.com', { rate: 2, interval: 100 });
+    const start = Date.now();
+    await Promise.all(Array.from({ length: 4 }, () => request('https://api.example.com/limit')));
+    expect(Date.now() - start).toBeGreaterThanOrEqual(90);
+  });
+
+  it('排队时取消会移出队列', async () => {
+    const limiter = setHostRateLimit('api.example.com', { concurrency: 1 });
+    const controller = new AbortController();
+    const first = request('https://api.example.com/limit');
+    const queued = request('https://api.example.com/limit', { signal: controller.signal });
+    await new Promise(resolve => setTimeout(resolve, 5));
+    expect(limiter.size).toBe(1);
+    controller.abort();
+    await expect(queued).rejects.toMatchObject({ code: 'ERR_CANCELED' });
+    expect(limiter.size).toBe(0);
+    await expect(first).resolves.toBe('ok');
+    expect(mock.history()).toHaveLength(1);
+  });
+});
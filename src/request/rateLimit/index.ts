@@ -0,0 +1,272 @@
+import { createCanceledError } from '../cancel';
+import { IRequestOption } from '../typings';
+
+/**
+ * 请求的优先级，数字越大越先发出
+ */
+export type IRequestPriority = 'high' | 'normal' | 'low' | number;
+
+/**
+ * 限流配置
+ */
+export interface IRateLimitOption {
+  /**
+   * 每个周期允许发出的请求数，不传则不限速
+   */
+  rate?: number;
+  /**
+   * 周期（毫秒），默认1000
+   */
+  interval?: number;
+  /**
+   * 令牌桶容量，即允许的突发请求数，默认等于 rate
+   */
+  burst?: number;
+  /**
+   * 同时进行的最大请求数，不传则不限制
+   */
+  concurrency?: number;
+}
+
+type IWaiter = {
+  priority: number;
+  order: number;
+  resolve: (release: () => void) => void;
+  reject: (error: any) => void;
+  cleanup: () => void;
+};
+
+const PRIORITY_MAP: Record<string, number> = { high: 2, normal: 1, low: 0 };
+
+/**
+ * 把优先级转换成数字
+ * @param priority 优先级
+ */
+const toPriority = (priority?: IRequestPriority) =>
+  typeof priority === 'number' ? priority : PRIORITY_MAP[priority || 'normal'] ?? 1;
+
+/**
+ * 请求限流器，令牌桶限制速率，同时限制并发数，排队的请求按优先级发出
+ */
+export class RequestLimiter {
+  private rate: number;
+
+  private interval: number;
+
+  private capacity: number;
+
+  private concurrency: number;
+
+  private tokens: number;
+
+  private lastRefill = Date.now();
+
+  private active = 0;
+
+  private order = 0;
+
+  private queue: IWaiter[] = [];
+
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(p: IRateLimitOption = {}) {
+    this.rate = p.rate || Infinity;
+    this.interval = p.interval || 1000;
+    this.capacity = p.burst || this.rate;
+    this.concurrency = p.concurrency || Infinity;
+    this.tokens = this.capacity;
+  }
+
+  /**
+   * 正在进行的请求数
+   */
+  get pending() {
+    return this.active;
+  }
+
+  /**
+   * 排队中的请求数
+   */
+  get size() {
+    return this.queue.length;
+  }
+
+  /**
+   * 按经过的时间补充令牌
+   */
+  private refill() {
+    if (this.rate === Infinity) {
+      return;
+    }
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) * this.rate) / this.interval);
+    this.lastRefill = now;
+  }
+
+  /**
+   * 按优先级发出排队的请求，令牌不够时等到下一个令牌补充
+   */
+  private drain() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.refill();
+    while (this.queue.length > 0 && this.active < this.concurrency && (this.rate === Infinity || this.tokens >= 1)) {
+      const waiter = this.queue.shift()!;
+      waiter.cleanup();
+      if (this.rate !== Infinity) {
+        this.tokens -= 1;
+      }
+      this.active += 1;
+      let released = false;
+      waiter.resolve(() => {
+        if (!released) {
+          released = true;
+          this.active -= 1;
+          this.drain();
+        }
+      });
+    }
+    if (this.queue.length > 0 && this.active < this.concurrency && this.tokens < 1) {
+      this.timer = setTimeout(() => this.drain(), Math.ceil(((1 - this.tokens) * this.interval) / this.rate));
+    }
+  }
+
+  /**
+   * 获取发出请求的许可，请求结束后需要调用返回的方法释放
+   * @param p.priority 优先级，默认 normal
+   * @param p.signal 中断排队
+   * @param p.url 请求地址，用于取消时的异常信息
+   */
+  acquire(p: { priority?: IRequestPriority; signal?: AbortSignal; url?: string } = {}) {
+    return new Promise<() => void>((resolve, reject) => {
+      if (p.signal?.aborted) {
+        reject(createCanceledError(p.url));
+        return;
+      }
+      const onAbort = () => {
+        this.queue = this.queue.filter(item => item !== waiter);
+        reject(createCanceledError(p.url));
+        this.drain();
+      };
+      const waiter: IWaiter = {
+        priority: toPriority(p.priority),
+        order: this.order++,
+        resolve,
+        reject,
+        cleanup: () => p.signal?.removeEventListener?.('abort', onAbort),
+      };
+      p.signal?.addEventListener?.('abort', onAbort);
+      // 同优先级先进先出
+      const index = this.queue.findIndex(item => item.priority < waiter.priority);
+      if (index === -1) {
+        this.queue.push(waiter);
+      } else {
+        this.queue.splice(index, 0, waiter);
+      }
+      this.drain();
+    });
+  }
+
+  /**
+   * 在限流下执行任务
+   * @param task 任务
+   * @param p 同 acquire
+   */
+  async schedule<T>(task: () => Promise<T>, p?: Parameters<RequestLimiter['acquire']>[0]) {
+    const release = await this.acquire(p);
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  }
+}
+
+// 按域名配置的限流器
+const hostLimiters = new Map<string, RequestLimiter>();
+
+/**
+ * 获取请求地址的域名（包含端口），相对地址在浏览器中使用当前页面的域名
+ * @param url 请求地址
+ */
+const getHost = (url: string) => {
+  const match = /^(?:[a-z][a-z\d+\-.]*:)?\/\/([^/?#]+)/i.exec(url);
+  if (match) {
+    return match[1].replace(/^[^@]*@/, '').toLowerCase();
+  }
+  return typeof location !== 'undefined' ? location.host.toLowerCase() : '';
+};
+
+/**
+ * 给域名配置限流，同一个域名的请求共用一个限流器
+ * @param host 域名，可以带端口，*.example.com 匹配所有子域名
+ * @param option 限流配置或者限流器
+ * @returns 该域名的限流器
+ * @example
+ * setHostRateLimit('api.partner.com', { rate: 5, concurrency: 2 });
+ */
+export const setHostRateLimit = (host: string, option: IRateLimitOption | RequestLimiter) => {
+  const limiter = option instanceof RequestLimiter ? option : new RequestLimiter(option);
+  hostLimiters.set(host.toLowerCase(), limiter);
+  return limiter;
+};
+
+/**
+ * 移除域名的限流，不传则移除所有
+ * @param host 域名
+ */
+export const removeHostRateLimit = (host?: string) => {
+  if (host) {
+    hostLimiters.delete(host.toLowerCase());
+  } else {
+    hostLimiters.clear();
+  }
+};
+
+/**
+ * 获取请求地址对应的域名限流器
+ * @param url 请求地址
+ */
+export const getHostRateLimiter = (url: string) => {
+  if (hostLimiters.size === 0) {
+    return undefined;
+  }
+  const host = getHost(url);
+  if (hostLimiters.has(host)) {
+    return hostLimiters.get(host);
+  }
+  const hostname = host.replace(/:\d+$/, '');
+  let matched: RequestLimiter | undefined;
+  hostLimiters.forEach((limiter, key) => {
+    if (!matched && (key === hostname || (key.startsWith('*.') && hostname.endsWith(key.slice(1))))) {
+      matched = limiter;
+    }
+  });
+  return matched;
+};
+
+/**
+ * 按域名和请求配置的限流器依次获取许可
+ * @param url 请求地址
+ * @param opt 请求配置
+ * @param signal 中断排队
+ * @returns 释放所有许可的方法
+ */
+export const acquireRateLimit = async (url: string, opt: IRequestOption, signal?: AbortSignal) => {
+  const limiters = [getHostRateLimiter(url), opt.rateLimit].filter(
+    (item, index, list): item is RequestLimiter => !!item && list.indexOf(item) === index,
+  );
+  const releases: (() => void)[] = [];
+  const release = () => releases.splice(0, releases.length).forEach(item => item());
+  try {
+    for (const limiter of limiters) {
+      releases.push(await limiter.acquire({ priority: opt.priority, signal, url }));
+    }
+  } catch (e) {
+    release();
+    throw e;
+  }
+  return release;
+};
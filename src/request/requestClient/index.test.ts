@@ -0,0 +1,108 @@
+import { createRequestClient, globalInterceptors, MockAdapter, RequestLimiter } from '..';
+import type { IRequestClientConfig, IRequestInterceptor } from '..';
+
+describe('createRequestClient', () => {
+  const mock = new MockAdapter();
+
+  const createClient = (config: IRequestClientConfig = {}) =>
+    createRequestClient({
+      baseURL: 'http://api.test/v1/',
+      ...config,
+      defaults: { reqEnv: 'mock', mockAdapter: mock, ...config.defaults },
+    });
+
+  beforeEach(() => {
+    mock.reset();
+    // 返回不带查询参数的地址
+    mock.onAny('/v1/*', req => ({ code: 0, result: { url: req.url.split('?')[0], headers: req.headers } }));
+  });
+
+  it('拼接 baseURL，完整的地址不拼接', async () => {
+    const client = createClient();
+    expect((await client.get('/user')).url).toBe('http://api.test/v1/user');
+    expect((await client.get('user')).url).toBe('http://api.test/v1/user');
+    mock.onGet('http://other.test/user', { code: 0, result: 'other' });
+    expect(await client.get('http://other.test/user')).toBe('other');
+    expect(client.defaults.baseURL).toBe('http://api.test/v1/');
+  });
+
+  it('合并默认配置，请求头做一层合并，单次请求的配置优先', async () => {
+    const client = createClient({ defaults: { headers: { 'X-App': 'a', 'X-Env': 'dev' } } });
+    const { headers } = await client.get('/user', undefined, { headers: { 'X-Env': 'prod', 'X-Trace': '1' } });
+    expect(headers).toMatchObject({ 'X-App': 'a', 'X-Env': 'prod', 'X-Trace': '1' });
+    // 默认配置不会被修改
+    expect(client.defaults.headers).toEqual({ 'X-App': 'a', 'X-Env': 'dev' });
+  });
+
+  it('使用客户端的 getToken，请求中已经有 Authorization 时不覆盖', async () => {
+    const getToken = jest.fn(() => 'Bearer client');
+    const client = createClient({ getToken });
+    expect((await client.get('/user')).headers.Authorization).toBe('Bearer client');
+    expect(getToken).toHaveBeenCalledWith('http://api.test/v1/user');
+    const { headers } = await client.get('/user', undefined, { headers: { Authorization: 'Bearer own' } });
+    expect(headers.Authorization).toBe('Bearer own');
+    expect((await createClient().get('/user')).headers.Authorization).toBeUndefined();
+  });
+
+  it('客户端的拦截器在全局拦截器之后、单次请求的拦截器之前执行，只对当前客户端生效', async () => {
+    const order: string[] = [];
+    const interceptor = (name: string): IRequestInterceptor => ({
+      name,
+      onRequest: () => {
+        order.push(name);
+      },
+    });
+    const removeGlobal = globalInterceptors.use(interceptor('global'));
+    try {
+      const client = createClient({ interceptors: [interceptor('config')] });
+      const eject = client.interceptors.use(interceptor('client'));
+      await client.get('/user', undefined, { interceptors: [interceptor('request')] });
+      expect(order).toEqual(['global', 'config', 'client', 'request']);
+
+      order.length = 0;
+      eject();
+      await client.get('/user');
+      await createClient().get('/user');
+      expect(order).toEqual(['global', 'config', 'global']);
+    } finally {
+      removeGlobal();
+    }
+  });
+
+  it('客户端的所有请求共用限流，不影响其他客户端', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    mock.onGet('/v1/slow', async () => {
+      running += 1;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      running -= 1;
+      return { code: 0, result: 'ok' };
+    });
+    const client = createClient({ rateLimit: { concurrency: 1 } });
+    expect(client.defaults.rateLimit).toBeInstanceOf(RequestLimiter);
+    await Promise.all([client.get('/slow'), client.get('/slow'), client.get('/slow')]);
+    expect(maxRunning).toBe(1);
+
+    maxRunning = 0;
+    const other = createClient();
+    await Promise.all([other.get('/slow'), other.get('/slow')]);
+    expect(maxRunning).toBe(2);
+
+    // 传入的 RequestLimiter 直接使用
+    const limiter = new RequestLimiter({ concurrency: 2 });
+    expect(createClient({ rateLimit: limiter }).defaults.rateLimit).toBe(limiter);
+  });
+
+  it('使用客户端的异常处理方法和日志队列', async () => {
+    mock.onGet('/v1/fail', { code: 500, msg: '服务异常' });
+    const errorHandler = jest.fn();
+    const client = createClient({ errorHandler, defaults: { cacheLog: true } });
+    await expect(client.get('/fail')).rejects.toBeDefined();
+    expect(errorHandler).toHaveBeenCalledTimes(1);
+    expect(client.logQueue.getRecords().map(record => record.request.url)).toEqual([
+      expect.stringMatching(/^http:\/\/api\.test\/v1\/fail/),
+    ]);
+    expect(createClient().logQueue).not.toBe(client.logQueue);
+  });
+});
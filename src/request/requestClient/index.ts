@@ -0,0 +1,165 @@
+import binRequest from '../binRequest';
+import { chunkUpload, IChunkUploadOption, IChunkUploadResult } from '../chunkUpload';
+import { download, IDownloadOption, IDownloadResult } from '../download';
+import { InterceptorManager, IRequestInterceptor } from '../interceptors';
+import { IRequestLogger } from '../logger';
+import { IRateLimitOption, RequestLimiter } from '../rateLimit';
+import ReqQueue from '../ReqQueue';
+import { ICallBack, IErrorHandler, IRequestOption } from '../typings';
+
+/**
+ * 请求客户端的配置
+ */
+export interface IRequestClientConfig {
+  /**
+   * 基础地址
+   */
+  baseURL?: string;
+  /**
+   * 默认的请求配置，会覆盖 defOption
+   */
+  defaults?: IRequestOption;
+  /**
+   * token 来源
+   */
+  getToken?: IRequestOption['getToken'];
+  /**
+   * 业务响应的结构约定
+   */
+  protocol?: IRequestOption['protocol'];
+  /**
+   * 默认的异常处理方法
+   */
+  errorHandler?: IErrorHandler;
+  /**
+   * 日志队列，不传则为客户端单独创建一个
+   */
+  logQueue?: ReqQueue;
+  /**
+   * 请求日志，传了之后客户端的请求都输出到该日志，日志队列使用日志自己的队列
+   */
+  logger?: IRequestLogger;
+  /**
+   * 客户端的拦截器，在全局拦截器之后、单次请求的拦截器之前执行
+   */
+  interceptors?: IRequestInterceptor[];
+  /**
+   * 客户端的限流，客户端的所有请求共用
+   */
+  rateLimit?: IRateLimitOption | RequestLimiter;
+}
+
+/**
+ * 请求客户端
+ */
+export interface IRequestClient {
+  /**
+   * 客户端的默认配置
+   */
+  readonly defaults: IRequestOption;
+  /**
+   * 客户端的日志队列
+   */
+  readonly logQueue: ReqQueue;
+  /**
+   * 客户端的拦截器
+   */
+  readonly interceptors: InterceptorManager;
+  /**
+   * 发起请求，参数同 binRequest
+   */
+  request: <T = any>(
+    url: string,
+    option?: IRequestOption,
+    errorHandler?: IErrorHandler,
+    callback?: ICallBack
+  ) => Promise<T>;
+  get: <T = any>(url: string, params?: any, option?: IRequestOption) => Promise<T>;
+  post: <T = any>(url: string, params?: any, option?: IRequestOption) => Promise<T>;
+  put: <T = any>(url: string, params?: any, option?: IRequestOption) => Promise<T>;
+  delete: <T = any>(url: string, params?: any, option?: IRequestOption) => Promise<T>;
+  /**
+   * 上传文件，file 可以是单个文件或者文件数组
+   */
+  upload: <T = any>(url: string, file: any, option?: IRequestOption) => Promise<T>;
+  /**
+   * 分片上传文件，支持并发和断点续传
+   */
+  chunkUpload: <T = any>(url: string, file: Blob, option?: IChunkUploadOption) => Promise<IChunkUploadResult<T>>;
+  /**
+   * 下载并保存文件，参数同 download
+   */
+  download: (url: string, params?: any, option?: IDownloadOption) => Promise<IDownloadResult>;
+}
+
+/**
+ * 合并请求配置，headers 做一层合并
+ * @param defaults 默认配置
+ * @param option 当前请求的配置
+ */
+const mergeOption = (defaults: IRequestOption, option: IRequestOption = {}): IRequestOption => ({
+  ...defaults,
+  ...option,
+  headers: { ...defaults.headers, ...option.headers },
+});
+
+/**
+ * 创建一个独立的请求客户端，拥有自己的基础地址、默认配置、token来源、异常处理和日志队列
+ * @param config 客户端配置
+ */
+export const createRequestClient = (config: IRequestClientConfig = {}): IRequestClient => {
+  const logQueue =
+    config.logger?.queue ||
+    config.logQueue ||
+    new ReqQueue({
+      maxQueueLength: config.defaults?.maxCacheLog,
+      cacheMethod: config.defaults?.cacheMethod,
+    });
+  const interceptors = new InterceptorManager(config.interceptors);
+  const defaults: IRequestOption = {
+    ...config.defaults,
+    baseURL: config.baseURL ?? config.defaults?.baseURL,
+    getToken: config.getToken ?? config.defaults?.getToken,
+    protocol: config.protocol ?? config.defaults?.protocol,
+    logger: config.logger ?? config.defaults?.logger,
+    rateLimit: config.rateLimit
+      ? config.rateLimit instanceof RequestLimiter
+        ? config.rateLimit
+        : new RequestLimiter(config.rateLimit)
+      : config.defaults?.rateLimit,
+    logQueue,
+  };
+
+  // 合并客户端的默认配置和拦截器
+  const withDefaults = <O extends IRequestOption>(option?: O): O => ({
+    ...(mergeOption(defaults, option) as O),
+    interceptors: [...interceptors.list(), ...(option?.interceptors || [])],
+  });
+
+  const request = <T = any>(
+    url: string,
+    option?: IRequestOption,
+    errorHandler: IErrorHandler | undefined = config.errorHandler,
+    callback?: ICallBack,
+  ): Promise<T> => binRequest(url, withDefaults(option), errorHandler, callback);
+
+  const withMethod =
+    (method: IRequestOption['method']) =>
+      <T = any>(url: string, params?: any, option?: IRequestOption) =>
+        request<T>(url, { ...option, method, params });
+
+  return {
+    defaults,
+    logQueue,
+    interceptors,
+    request,
+    get: withMethod('get'),
+    post: withMethod('post'),
+    put: withMethod('put'),
+    delete: withMethod('delete'),
+    upload: (url, file, option) =>
+      request(url, { method: 'post', ...option, manner: 'file', params: file }),
+    chunkUpload: (url, file, option) => chunkUpload(url, file, withDefaults(option)),
+    download: (url, params, option) => download(url, withDefaults({ ...option, params }), config.errorHandler),
+  };
+};
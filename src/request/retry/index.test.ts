@@ -0,0 +1,67 @@
+import binRequest, { getRetryDelay } from '..';
+import type { IRequestOption } from '..';
+
+describe('retry', () => {
+  const originalFetch = global.fetch;
+  const fetchMock = jest.fn();
+  const reply = (status: number, body: any = {}) => new Response(JSON.stringify(body), { status });
+  const request = (option: IRequestOption = {}) =>
+    binRequest('http://localhost/retry', { method: 'get', reqEnv: 'fetch', ...option });
+
+  beforeAll(() => {
+    global.fetch = fetchMock;
+  });
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+  afterEach(() => fetchMock.mockReset());
+
+  it('按退避策略计算等待时间', () => {
+    const retry = { delay: 100, maxDelay: 1000, jitter: false };
+    expect(getRetryDelay(null, 1, { retry: { ...retry, backoff: 'fixed' } })).toBe(100);
+    expect(getRetryDelay(null, 3, { retry: { ...retry, backoff: 'linear' } })).toBe(300);
+    expect(getRetryDelay(null, 3, { retry: { ...retry, backoff: 'exponential' } })).toBe(400);
+    expect(getRetryDelay(null, 5, { retry: { ...retry, backoff: 'exponential' } })).toBe(1000);
+  });
+
+  it('遵循 Retry-After 响应头', () => {
+    const error = { response: { headers: { 'retry-after': '2' } } };
+    expect(getRetryDelay(error, 1, { retry: { delay: 100, maxDelay: 5000 } })).toBe(2000);
+    expect(getRetryDelay(error, 1, { retry: { delay: 100, maxDelay: 500 } })).toBe(500);
+  });
+
+  it('可重试的状态码失败后重新发起', async () => {
+    fetchMock
+      .mockResolvedValueOnce(reply(503))
+      .mockResolvedValueOnce(reply(503))
+      .mockResolvedValueOnce(reply(200, { code: 0, result: 'ok' }));
+    const result = await request({ retry: { maxAttempts: 3, delay: 10, jitter: false } });
+    expect(result).toBe('ok');
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('各环境的断网异常都会重试', async () => {
+    fetchMock
+      .mockRejectedValueOnce(new TypeError('Network request failed'))
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockRejectedValueOnce(new TypeError('Load failed'))
+      .mockResolvedValueOnce(reply(200, { code: 0, result: 'ok' }));
+    const result = await request({ retry: { maxAttempts: 4, delay: 10, jitter: false } });
+    expect(result).toBe('ok');
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it('超过最大次数后抛出最后一次的异常', async () => {
+    fetchMock.mockImplementation(async () => reply(503));
+    await expect(request({ retry: { maxAttempts: 2, delay: 10, jitter: false } })).rejects.toMatchObject({
+      status: 503,
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('非幂等的请求默认不重试', async () => {
+    fetchMock.mockImplementation(async () => reply(503));
+    await expect(request({ method: 'post', retry: { delay: 10 } })).rejects.toMatchObject({ status: 503 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,207 @@
+import { sleepWithSignal } from '../cancel';
+import { isNetworkFailure } from '../errors';
+import { getResponseHeader } from '../httpUtils';
+import { IRequestOption } from '../typings';
+import asyncUtils from '../../core/asyncUtils';
+
+/**
+ * 重试配置
+ */
+export interface IRetryOption {
+  /**
+   * 最大尝试次数（包含第一次请求），默认3次
+   */
+  maxAttempts?: number;
+  /**
+   * 退避策略，默认 exponential
+   */
+  backoff?: 'fixed' | 'linear' | 'exponential';
+  /**
+   * 基础延迟（毫秒），默认300
+   */
+  delay?: number;
+  /**
+   * 最大延迟（毫秒），默认10000
+   */
+  maxDelay?: number;
+  /**
+   * 随机抖动，true 为全抖动，数字为抖动比例（0-1），默认 true
+   */
+  jitter?: boolean | number;
+  /**
+   * 是否遵循响应头中的 Retry-After，默认 true
+   */
+  respectRetryAfter?: boolean;
+  /**
+   * 允许重试的请求方法，默认只重试幂等方法
+   */
+  methods?: string[];
+  /**
+   * 允许重试的状态码
+   */
+  statusCodes?: number[];
+  /**
+   * 自定义是否重试，传了之后不再使用默认的判断
+   */
+  shouldRetry?: (error: any, attempt: number, opt: IRequestOption) => boolean;
+}
+
+/**
+ * 每次重试的信息
+ */
+export interface IRetryInfo {
+  /**
+   * 即将发起的是第几次尝试
+   */
+  attempt: number;
+  /**
+   * 等待的时间
+   */
+  delay: number;
+  /**
+   * 上一次的异常
+   */
+  error: any;
+}
+
+type INormalizedRetry = Required<Omit<IRetryOption, 'shouldRetry'>> & Pick<IRetryOption, 'shouldRetry'>;
+
+// 幂等的请求方法
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete', 'trace'];
+
+// 默认重试的状态码
+const RETRY_STATUS_CODES = [408, 429, 502, 503, 504];
+
+// 超时和网络异常的错误码
+const RETRY_ERROR_CODES: (string | number)[] = [
+  20,
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'ECONNRESET',
+  'ERR_NETWORK',
+  'transitional',
+];
+
+/**
+ * 格式化重试配置
+ * @param retry IRequestOption 中的 retry
+ */
+export const normalizeRetry = (retry: IRequestOption['retry']): INormalizedRetry | undefined => {
+  if (!retry) {
+    return undefined;
+  }
+  const option: IRetryOption = typeof retry === 'number' ? { maxAttempts: retry } : retry === true ? {} : retry;
+  return {
+    maxAttempts: 3,
+    backoff: 'exponential',
+    delay: 300,
+    maxDelay: 10000,
+    jitter: true,
+    respectRetryAfter: true,
+    methods: IDEMPOTENT_METHODS,
+    statusCodes: RETRY_STATUS_CODES,
+    ...option,
+  };
+};
+
+/**
+ * 获取异常中的 http 状态码
+ * @param error 异常
+ */
+const getErrorStatus = (error: any): number | undefined => error?.response?.status || error?.status;
+
+/**
+ * 是否是可以重试的异常
+ * @param error 异常
+ * @param attempt 当前是第几次尝试
+ * @param opt 请求配置
+ */
+export const isRetryable = (error: any, attempt: number, opt: IRequestOption) => {
+  const retry = normalizeRetry(opt.retry);
+  if (!retry || attempt >= retry.maxAttempts) {
+    return false;
+  }
+  if (retry.shouldRetry) {
+    return retry.shouldRetry(error, attempt, opt);
+  }
+  const method = (opt.method || 'get').toLowerCase();
+  if (!retry.methods.map(item => item.toLowerCase()).includes(method)) {
+    return false;
+  }
+  const status = getErrorStatus(error);
+  if (status) {
+    return retry.statusCodes.includes(status);
+  }
+  return RETRY_ERROR_CODES.includes(error?.code) || isNetworkFailure(error);
+};
+
+/**
+ * 解析 Retry-After，返回需要等待的毫秒数
+ * @param value 响应头的值，秒数或者 http 日期
+ */
+export const parseRetryAfter = (value?: string | null) => {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+  return undefined;
+};
+
+/**
+ * 计算下一次重试需要等待的时间
+ * @param error 上一次的异常
+ * @param attempt 已经尝试的次数
+ * @param opt 请求配置
+ */
+export const getRetryDelay = (error: any, attempt: number, opt: IRequestOption) => {
+  const retry = normalizeRetry(opt.retry);
+  if (!retry) {
+    return 0;
+  }
+  if (retry.respectRetryAfter) {
+    const retryAfter = parseRetryAfter(getResponseHeader(error?.response, 'retry-after'));
+    if (typeof retryAfter !== 'undefined') {
+      return Math.min(retryAfter, retry.maxDelay);
+    }
+  }
+  return asyncUtils.backoffDelay(attempt, retry);
+};
+
+/**
+ * 按照重试配置发送请求
+ * @param send 发送一次请求，参数为当前是第几次尝试
+ * @param opt 请求配置
+ * @param onRetry 每次重试前执行
+ * @param signal 取消请求的 signal，等待重试时取消会立即结束
+ */
+export const sendWithRetry = async <T>(
+  send: (attempt: number) => Promise<T>,
+  opt: IRequestOption,
+  onRetry?: (info: IRetryInfo) => void,
+  signal?: AbortSignal,
+): Promise<T> => {
+  let attempt = 1;
+  // eslint-disable-next-line no-constant-condition
+  while (true) {
+    try {
+      return await send(attempt);
+    } catch (error) {
+      if (!isRetryable(error, attempt, opt)) {
+        throw error;
+      }
+      const delay = getRetryDelay(error, attempt, opt);
+      attempt += 1;
+      if (onRetry) {
+        onRetry({ attempt, delay, error });
+      }
+      await sleepWithSignal(delay, signal, opt.url);
+    }
+  }
+};
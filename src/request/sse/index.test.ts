@@ -0,0 +1,107 @@
+import { createSSEClient, EventStreamParser } from '..';
+import type { ISSEOption } from '..';
+
+describe('EventStreamParser', () => {
+  it('多行 data 用换行符拼接', () => {
+    const parser = new EventStreamParser();
+    expect(parser.feed('data: first\ndata: second\n\n')).toEqual([
+      { event: 'message', data: 'first\nsecond', id: undefined, retry: undefined },
+    ]);
+  });
+
+  it('解析 event、id 和 retry 字段', () => {
+    const parser = new EventStreamParser();
+    const events = parser.feed('event: update\nid: 42\nretry: 5000\ndata: {"a":1}\n\n');
+    expect(events).toEqual([{ event: 'update', data: '{"a":1}', id: '42', retry: 5000 }]);
+    expect(parser.lastEventId).toBe('42');
+    expect(parser.retry).toBe(5000);
+  });
+
+  it('id 沿用到后面的事件，非数字的 retry 被忽略', () => {
+    const parser = new EventStreamParser('7');
+    const events = parser.feed('retry: soon\ndata: a\n\nid: 8\ndata: b\n\ndata: c\n\n');
+    expect(events.map(event => [event.data, event.id, event.retry])).toEqual([
+      ['a', '7', undefined],
+      ['b', '8', undefined],
+      ['c', '8', undefined],
+    ]);
+  });
+
+  it('忽略注释和没有 data 的事件', () => {
+    const parser = new EventStreamParser();
+    expect(parser.feed(': keep-alive\n\nevent: ping\n\n')).toEqual([]);
+    expect(parser.feed(':comment\ndata: ok\n\n')).toEqual([
+      { event: 'message', data: 'ok', id: undefined, retry: undefined },
+    ]);
+  });
+
+  it('支持 CRLF 和 CR 换行', () => {
+    const parser = new EventStreamParser();
+    expect(parser.feed('data: a\r\ndata: b\r\n\r\ndata: c\r\r').map(event => event.data)).toEqual(['a\nb', 'c']);
+  });
+
+  it('CRLF 被拆到两块时不会多出空行', () => {
+    const parser = new EventStreamParser();
+    expect(parser.feed('data: a\r')).toEqual([]);
+    expect(parser.feed('\ndata: b\r')).toEqual([]);
+    expect(parser.feed('\n\r\n').map(event => event.data)).toEqual(['a\nb']);
+  });
+
+  it('行在中间被截断时等下一块拼接', () => {
+    const parser = new EventStreamParser();
+    expect(parser.feed('da')).toEqual([]);
+    expect(parser.feed('ta: hel')).toEqual([]);
+    expect(parser.feed('lo\n')).toEqual([]);
+    expect(parser.feed('\n')).toEqual([{ event: 'message', data: 'hello', id: undefined, retry: undefined }]);
+  });
+
+  it('去掉开头的 BOM', () => {
+    const parser = new EventStreamParser();
+    expect(parser.feed('\uFEFFdata: x\n\n').map(event => event.data)).toEqual(['x']);
+  });
+});
+
+describe('createSSEClient', () => {
+  const originalFetch = global.fetch;
+
+  beforeAll(() => {
+    global.fetch = jest.fn(
+      async () => new Response('data: 1\n\ndata: 2\n\ndata: 3\n\n', { headers: { 'Content-Type': 'text/event-stream' } }),
+    );
+  });
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  /**
+   * 连接后等待事件流结束，再开始迭代
+   * @param option 配置
+   */
+  const collectAfterClose = async (option: ISSEOption = {}) => {
+    const received: string[] = [];
+    let client: ReturnType<typeof createSSEClient>;
+    await new Promise<void>(resolve => {
+      client = createSSEClient('http://localhost/sse', {
+        reqEnv: 'fetch',
+        reconnect: false,
+        onMessage: event => received.push(event.data),
+        onClose: resolve,
+        ...option,
+      });
+    });
+    const iterated: string[] = [];
+    for await (const event of client!) {
+      iterated.push(event.data);
+    }
+    return { received, iterated };
+  };
+
+  it('开始迭代前收到的事件会缓存，不会丢失', async () => {
+    expect(await collectAfterClose()).toEqual({ received: ['1', '2', '3'], iterated: ['1', '2', '3'] });
+  });
+
+  it('超过 bufferLimit 时只保留最近的事件', async () => {
+    expect(await collectAfterClose({ bufferLimit: 1 })).toEqual({ received: ['1', '2', '3'], iterated: ['3'] });
+    expect((await collectAfterClose({ bufferLimit: 0 })).iterated).toEqual([]);
+  });
+});
@@ -0,0 +1,552 @@
+import { Emitter } from '../emitter';
+import { buildFetchInit, createUtf8Decoder, generateFetchRequest, joinBaseURL, requestErrorIntercept } from '../httpUtils';
+import { linkAbortSignal } from '../cancel';
+import { IRequestOption } from '../typings';
+import { HttpError, RequestError } from '../errors';
+
+/**
+ * 解析出来的原始事件
+ */
+export interface IRawSSEEvent {
+  /**
+   * 事件类型，默认 message
+   */
+  event: string;
+  /**
+   * 多行 data 会用换行符拼接
+   */
+  data: string;
+  /**
+   * 最后一次收到的事件 id
+   */
+  id?: string;
+  /**
+   * 服务端要求的重连间隔
+   */
+  retry?: number;
+}
+
+/**
+ * SSE 事件
+ */
+export interface ISSEEvent<T = any> extends Omit<IRawSSEEvent, 'data'> {
+  /**
+   * 解析后的数据
+   */
+  data: T;
+  /**
+   * 原始的 data 字符串
+   */
+  raw: string;
+}
+
+/**
+ * SSE 客户端配置
+ */
+export interface ISSEOption<T = any> extends IRequestOption {
+  /**
+   * data 的解析方式，默认 text，json 解析失败时返回原始字符串
+   */
+  parse?: 'text' | 'json' | ((data: string) => T);
+  /**
+   * 断开后是否自动重连，默认 true
+   */
+  reconnect?: boolean;
+  /**
+   * 重连间隔（毫秒），服务端返回 retry: 后以服务端为准，默认3000
+   */
+  retryInterval?: number;
+  /**
+   * 最大连续重连次数，默认不限制
+   */
+  maxRetries?: number;
+  /**
+   * 初始的 Last-Event-ID
+   */
+  lastEventId?: string;
+  /**
+   * 开始 for await 之前最多缓存多少个事件，超过时丢弃最早的，默认100，只使用回调时可以设置为0
+   */
+  bufferLimit?: number;
+  /**
+   * 收到的事件满足条件时关闭连接，比如 AI 对话的 [DONE]
+   */
+  isDone?: (event: ISSEEvent<T>) => boolean;
+  /**
+   * 连接成功
+   */
+  onOpen?: () => void;
+  /**
+   * 收到事件
+   */
+  onMessage?: (event: ISSEEvent<T>) => void;
+  /**
+   * 连接异常，fatal 为 true 时不会再重连
+   */
+  onError?: (error: any, fatal: boolean) => void;
+  /**
+   * 连接关闭
+   */
+  onClose?: () => void;
+}
+
+/**
+ * SSE 客户端
+ */
+export interface ISSEClient<T = any> extends AsyncIterable<ISSEEvent<T>> {
+  /**
+   * 连接状态
+   */
+  readonly readyState: 'connecting' | 'open' | 'closed';
+  /**
+   * 最后一次收到的事件 id
+   */
+  readonly lastEventId: string;
+  /**
+   * 监听指定类型的事件
+   * @returns 取消监听的方法
+   */
+  on: (event: string, listener: (event: ISSEEvent<T>) => void) => () => void;
+  /**
+   * 关闭连接，不再重连
+   */
+  close: () => void;
+}
+
+/**
+ * text/event-stream 解析器，按块喂入文本，返回解析出的完整事件
+ */
+export class EventStreamParser {
+  /**
+   * 最后一次收到的事件 id
+   */
+  lastEventId = '';
+
+  /**
+   * 服务端要求的重连间隔
+   */
+  retry?: number;
+
+  private buffer = '';
+
+  private skipLF = false;
+
+  private started = false;
+
+  private dataLines: string[] = [];
+
+  private eventType = '';
+
+  constructor(lastEventId = '') {
+    this.lastEventId = lastEventId;
+  }
+
+  /**
+   * 喂入一段文本
+   * @param chunk 文本
+   */
+  feed(chunk: string): IRawSSEEvent[] {
+    let text = this.buffer + chunk;
+    if (!this.started && text.length > 0) {
+      this.started = true;
+      // 去掉开头的 BOM
+      text = text.replace(/^\uFEFF/, '');
+    }
+    // 上一块以 \r 结尾时，这一块开头的 \n 属于同一个换行
+    if (this.skipLF && text[0] === '\n') {
+      text = text.slice(1);
+    }
+    this.skipLF = text.endsWith('\r');
+    const lines = text.split(/\r\n|\r|\n/);
+    // 最后一行可能不完整，留到下一次
+    this.buffer = lines.pop() || '';
+    const events: IRawSSEEvent[] = [];
+    lines.forEach(line => {
+      const event = this.processLine(line);
+      if (event) {
+        events.push(event);
+      }
+    });
+    return events;
+  }
+
+  /**
+   * 处理一行
+   * @param line 行内容
+   */
+  private processLine(line: string): IRawSSEEvent | undefined {
+    if (line === '') {
+      return this.dispatch();
+    }
+    // 注释
+    if (line.startsWith(':')) {
+      return undefined;
+    }
+    const index = line.indexOf(':');
+    const field = index === -1 ? line : line.slice(0, index);
+    let value = index === -1 ? '' : line.slice(index + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+    if (field === 'event') {
+      this.eventType = value;
+    } else if (field === 'data') {
+      this.dataLines.push(value);
+    } else if (field === 'id') {
+      if (!value.includes('\0')) {
+        this.lastEventId = value;
+      }
+    } else if (field === 'retry') {
+      if (/^\d+$/.test(value)) {
+        this.retry = Number(value);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 空行时派发事件
+   */
+  private dispatch(): IRawSSEEvent | undefined {
+    const dataLines = this.dataLines;
+    const eventType = this.eventType;
+    this.dataLines = [];
+    this.eventType = '';
+    if (dataLines.length === 0) {
+      return undefined;
+    }
+    return {
+      event: eventType || 'message',
+      data: dataLines.join('\n'),
+      id: this.lastEventId || undefined,
+      retry: this.retry,
+    };
+  }
+}
+
+type IConnectHandlers = {
+  onOpen: () => void;
+  onChunk: (chunk: ArrayBuffer | Uint8Array | string) => void;
+};
+
+/**
+ * 连接失败且不需要重连的异常
+ * @param message 异常信息
+ * @param status http 状态码
+ */
+const createFatalError = (message: string, status?: number) =>
+  Object.assign(status ? new HttpError(status, { message }) : new RequestError(message), { fatal: true });
+
+/**
+ * 使用 fetch 建立连接，流结束时 resolve
+ * @param opt 处理后的请求配置
+ * @param signal 中断连接
+ * @param handlers 回调
+ */
+const connectFetch = async (opt: IRequestOption, signal: AbortSignal, handlers: IConnectHandlers) => {
+  const originalFetch = generateFetchRequest();
+  const response = await originalFetch(opt.url!, buildFetchInit(opt, signal));
+  // 204 表示服务端要求不再重连
+  if (response.status === 204) {
+    throw createFatalError('服务端关闭了事件流', 204);
+  }
+  if (response.status < 200 || response.status >= 300) {
+    throw createFatalError(`事件流连接失败：${response.status}`, response.status);
+  }
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw createFatalError('无效的reader');
+  }
+  handlers.onOpen();
+  // eslint-disable-next-line no-constant-condition
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return;
+    }
+    handlers.onChunk(value);
+  }
+};
+
+/**
+ * 使用 uni.request 的 enableChunked 建立连接，请求结束时 resolve
+ * @param opt 处理后的请求配置
+ * @param signal 中断连接
+ * @param handlers 回调
+ */
+const connectUni = (opt: IRequestOption, signal: AbortSignal, handlers: IConnectHandlers) => {
+  const onAbort = () => task?.abort();
+  let task: ReturnType<typeof uni.request> | undefined;
+  return new Promise<void>((resolve, reject) => {
+    let opened = false;
+    const open = () => {
+      if (!opened) {
+        opened = true;
+        handlers.onOpen();
+      }
+    };
+    task = uni.request({
+      url: opt.url!,
+      method: opt.method?.toUpperCase() as any,
+      header: opt.headers as Record<string, string>,
+      data: opt.data,
+      responseType: 'arraybuffer',
+      enableChunked: true,
+      // 事件流是长连接，超时时间设置长一些
+      timeout: 24 * 60 * 60 * 1000,
+      success: result => {
+        if (result.statusCode === 204) {
+          reject(createFatalError('服务端关闭了事件流', 204));
+        } else if (result.statusCode < 200 || result.statusCode >= 300) {
+          reject(createFatalError(`事件流连接失败：${result.statusCode}`, result.statusCode));
+        } else {
+          resolve();
+        }
+      },
+      fail: error => reject(error),
+    });
+    task.onHeadersReceived?.(result => {
+      if (!result.statusCode || (result.statusCode >= 200 && result.statusCode < 300)) {
+        open();
+      }
+    });
+    task.onChunkReceived?.(result => {
+      open();
+      handlers.onChunk(result.data);
+    });
+    signal.addEventListener('abort', onAbort);
+  }).finally(() => {
+    // 每次连接使用新的 signal，结束后移除监听
+    signal.removeEventListener('abort', onAbort);
+  });
+};
+
+/**
+ * 解析 data
+ * @param data 原始字符串
+ * @param parse 解析方式
+ */
+const parseData = <T>(data: string, parse: ISSEOption<T>['parse']): T => {
+  if (typeof parse === 'function') {
+    return parse(data);
+  }
+  if (parse === 'json') {
+    try {
+      return JSON.parse(data);
+    } catch (e) {
+      return data as any;
+    }
+  }
+  return data as any;
+};
+
+/**
+ * 创建 SSE 客户端，解析 text/event-stream，断开后按照 retry 和 Last-Event-ID 自动重连
+ * <br />
+ * 浏览器、Node 18+ 使用 fetch 的流，uni-app 使用 uni.request 的 enableChunked
+ * @param url 请求地址
+ * @param option 配置，请求头、token、参数等和 binRequest 一致
+ */
+export const createSSEClient = <T = any>(url: string, option: ISSEOption<T> = {}): ISSEClient<T> => {
+  const emitter = new Emitter<Record<string, ISSEEvent<T>>>();
+  const useUni = option.reqEnv === 'uni' || (!option.reqEnv && !generateFetchRequest() && typeof uni !== 'undefined');
+  const queue: ISSEEvent<T>[] = [];
+  const waiters: { resolve: (value: IteratorResult<ISSEEvent<T>>) => void; reject: (e: any) => void }[] = [];
+  let iterating = false;
+  let readyState: ISSEClient<T>['readyState'] = 'connecting';
+  let lastEventId = option.lastEventId || '';
+  let retryInterval = option.retryInterval ?? 3000;
+  let controller: AbortController | undefined;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let wakeUp: (() => void) | undefined;
+  let fatalError: any;
+
+  /**
+   * 结束迭代
+   */
+  const finish = () => {
+    waiters.splice(0).forEach(waiter => {
+      if (fatalError) {
+        waiter.reject(fatalError);
+      } else {
+        waiter.resolve({ value: undefined, done: true });
+      }
+    });
+  };
+
+  const close = () => {
+    if (readyState === 'closed') {
+      return;
+    }
+    readyState = 'closed';
+    controller?.abort();
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+    }
+    wakeUp?.();
+    finish();
+    option.onClose?.();
+  };
+
+  /**
+   * 派发事件
+   * @param raw 原始事件
+   */
+  const dispatch = (raw: IRawSSEEvent) => {
+    if (readyState === 'closed') {
+      return;
+    }
+    const event: ISSEEvent<T> = { ...raw, raw: raw.data, data: parseData(raw.data, option.parse) };
+    option.onMessage?.(event);
+    emitter.emit(event.event, event);
+    const waiter = waiters.shift();
+    if (waiter) {
+      waiter.resolve({ value: event, done: false });
+    } else {
+      queue.push(event);
+      // 还没有开始迭代时只缓存最近的事件
+      if (!iterating && queue.length > (option.bufferLimit ?? 100)) {
+        queue.shift();
+      }
+    }
+    if (option.isDone?.(event)) {
+      close();
+    }
+  };
+
+  /**
+   * 建立一次连接
+   */
+  const connect = async () => {
+    controller = new AbortController();
+    const unlink = linkAbortSignal(option.signal, controller);
+    const parser = new EventStreamParser(lastEventId);
+    const decode = createUtf8Decoder();
+    const opt = requestErrorIntercept(joinBaseURL(option.baseURL, url), {
+      method: 'get',
+      manner: 'json',
+      ...option,
+    });
+    opt.headers = {
+      ...opt.headers,
+      Accept: 'text/event-stream',
+      'Cache-Control': 'no-cache',
+    };
+    if (lastEventId) {
+      opt.headers['Last-Event-ID'] = lastEventId;
+    }
+    const handlers: IConnectHandlers = {
+      onOpen: () => {
+        readyState = 'open';
+        option.onOpen?.();
+      },
+      onChunk: chunk => {
+        parser.feed(decode(chunk)).forEach(raw => {
+          lastEventId = parser.lastEventId;
+          if (typeof raw.retry === 'number') {
+            retryInterval = raw.retry;
+          }
+          dispatch(raw);
+        });
+      },
+    };
+    try {
+      if (useUni) {
+        await connectUni(opt, controller.signal, handlers);
+      } else {
+        await connectFetch(opt, controller.signal, handlers);
+      }
+    } finally {
+      lastEventId = parser.lastEventId;
+      unlink();
+    }
+  };
+
+  // 连接过程中可能被 close 修改状态
+  const isClosed = () => readyState === 'closed';
+
+  const run = async () => {
+    let retries = 0;
+    while (!isClosed()) {
+      try {
+        await connect();
+        retries = 0;
+      } catch (e: any) {
+        if (isClosed()) {
+          return;
+        }
+        if (option.signal?.aborted) {
+          close();
+          return;
+        }
+        const fatal = !!e?.fatal;
+        option.onError?.(e, fatal);
+        if (fatal) {
+          fatalError = e;
+          close();
+          return;
+        }
+        retries += 1;
+      }
+      if (isClosed()) {
+        return;
+      }
+      if (option.reconnect === false || retries > (option.maxRetries ?? Infinity)) {
+        close();
+        return;
+      }
+      readyState = 'connecting';
+      await new Promise<void>(resolve => {
+        wakeUp = resolve;
+        retryTimer = setTimeout(resolve, retryInterval);
+      });
+    }
+  };
+
+  run().catch(e => {
+    // onOpen、onError 等回调中抛出的异常，结束连接
+    fatalError = fatalError || e;
+    try {
+      option.onError?.(e, true);
+    } catch (err) {
+      // 回调自己的异常不再处理
+    }
+    try {
+      close();
+    } catch (err) {
+      // onClose 中的异常不再处理
+    }
+    finish();
+  });
+
+  return {
+    get readyState() {
+      return readyState;
+    },
+    get lastEventId() {
+      return lastEventId;
+    },
+    on: (event, listener) => emitter.on(event, listener),
+    close,
+    [Symbol.asyncIterator]() {
+      iterating = true;
+      return {
+        next: () => {
+          if (queue.length > 0) {
+            return Promise.resolve({ value: queue.shift()!, done: false });
+          }
+          if (readyState === 'closed') {
+            return fatalError ? Promise.reject(fatalError) : Promise.resolve({ value: undefined, done: true });
+          }
+          return new Promise<IteratorResult<ISSEEvent<T>>>((resolve, reject) => {
+            waiters.push({ resolve, reject });
+          });
+        },
+        return: () => {
+          close();
+          return Promise.resolve({ value: undefined, done: true });
+        },
+      };
+    },
+  };
+};
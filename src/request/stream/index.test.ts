@@ -0,0 +1,55 @@
+import { NdjsonParseError, NdjsonParser, readNdjson } from '..';
+
+describe('NdjsonParser', () => {
+  it('跨块的记录拼接后再解析', () => {
+    const parser = new NdjsonParser();
+    expect(parser.feed('{"id":1}\n{"id"')).toEqual([{ id: 1 }]);
+    expect(parser.feed(':2}\n{"id":3}\n')).toEqual([{ id: 2 }, { id: 3 }]);
+    expect(parser.flush()).toEqual([]);
+  });
+
+  it('跳过空行并去掉行尾的 \\r', () => {
+    const parser = new NdjsonParser();
+    expect(parser.feed('\n{"a":1}\r\n\r\n  \n{"b":2}\n')).toEqual([{ a: 1 }, { b: 2 }]);
+  });
+
+  it('最后一条没有换行时在 flush 中解析', () => {
+    const parser = new NdjsonParser();
+    expect(parser.feed('{"a":1}\n{"b":2}')).toEqual([{ a: 1 }]);
+    expect(parser.flush()).toEqual([{ b: 2 }]);
+    expect(parser.flush()).toEqual([]);
+  });
+
+  it('无效的行抛出带行号的 NdjsonParseError', () => {
+    const parser = new NdjsonParser();
+    parser.feed('{"a":1}\n\n');
+    let error: any;
+    try {
+      parser.feed('{bad}\n');
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(NdjsonParseError);
+    expect(error.line).toBe('{bad}');
+    expect(error.lineNumber).toBe(3);
+    expect(error.cause).toBeInstanceOf(SyntaxError);
+  });
+});
+
+describe('readNdjson', () => {
+  it('逐个产出响应流中的对象', async () => {
+    const encoder = new TextEncoder();
+    const body = new ReadableStream({
+      start(controller) {
+        controller.enqueue(encoder.encode('{"n":1}\n{"n"'));
+        controller.enqueue(encoder.encode(':2}\n{"n":3}'));
+        controller.close();
+      },
+    });
+    const result: any[] = [];
+    for await (const item of readNdjson(new Response(body))) {
+      result.push(item);
+    }
+    expect(result).toEqual([{ n: 1 }, { n: 2 }, { n: 3 }]);
+  });
+});
@@ -0,0 +1,112 @@
+import { createUtf8Decoder } from '../httpUtils';
+
+/**
+ * NDJSON 解析异常，带上出错的那一行
+ */
+export class NdjsonParseError extends Error {
+  /**
+   * 出错的行内容
+   */
+  line: string;
+
+  /**
+   * 出错的行号，从1开始
+   */
+  lineNumber: number;
+
+  /**
+   * 原始的异常
+   */
+  cause?: any;
+
+  constructor(line: string, lineNumber: number, cause?: any) {
+    super(`第${lineNumber}行不是有效的JSON：${line.length > 200 ? `${line.slice(0, 200)}...` : line}`);
+    this.name = 'NdjsonParseError';
+    this.line = line;
+    this.lineNumber = lineNumber;
+    this.cause = cause;
+  }
+}
+
+/**
+ * NDJSON 解析器，按块喂入文本，跨块的行会留到下一次解析
+ */
+export class NdjsonParser<T = any> {
+  private buffer = '';
+
+  private lineNumber = 0;
+
+  /**
+   * 喂入一段文本，返回解析出的完整对象
+   * @param chunk 文本
+   */
+  feed(chunk: string): T[] {
+    const lines = (this.buffer + chunk).split('\n');
+    // 最后一行可能不完整，留到下一次
+    this.buffer = lines.pop() || '';
+    return this.parseLines(lines);
+  }
+
+  /**
+   * 流结束时解析剩下的内容
+   */
+  flush(): T[] {
+    const rest = this.buffer;
+    this.buffer = '';
+    return this.parseLines([rest]);
+  }
+
+  private parseLines(lines: string[]) {
+    const result: T[] = [];
+    lines.forEach(item => {
+      this.lineNumber += 1;
+      const line = item.replace(/\r$/, '');
+      if (line.trim() === '') {
+        return;
+      }
+      try {
+        result.push(JSON.parse(line));
+      } catch (e) {
+        throw new NdjsonParseError(line, this.lineNumber, e);
+      }
+    });
+    return result;
+  }
+}
+
+/**
+ * 逐个读取 fetch 响应中的 NDJSON 对象
+ * <br />
+ * 不支持流式读取的环境（比如 React Native）会在响应结束后一次性解析，中途退出时会取消响应流
+ * @param response fetch 的响应
+ */
+export async function* readNdjson<T = any>(response: Response): AsyncGenerator<T> {
+  const parser = new NdjsonParser<T>();
+  const reader = response.body?.getReader?.();
+  if (!reader) {
+    yield* parser.feed(await response.text());
+    yield* parser.flush();
+    return;
+  }
+  const decode = createUtf8Decoder();
+  let finished = false;
+  try {
+    // eslint-disable-next-line no-constant-condition
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        finished = true;
+        break;
+      }
+      yield* parser.feed(decode(value));
+    }
+    yield* parser.feed(decode());
+    yield* parser.flush();
+  } finally {
+    if (!finished) {
+      // 调用方提前退出或者解析失败，关闭连接
+      reader.cancel().catch(() => undefined);
+    }
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,99 @@
+import binRequest, { abortAll, MemoryCacheStore, swrEvents } from '..';
+import type { IRequestOption, ISwrEvents } from '..';
+
+describe('swr', () => {
+  const originalFetch = global.fetch;
+  const fetchMock = jest.fn();
+  let version = 0;
+
+  const request = (option: IRequestOption = {}) =>
+    binRequest('http://localhost/swr', { method: 'get', reqEnv: 'fetch', ...option });
+
+  // 等待下一次后台刷新
+  const nextRevalidate = () =>
+    new Promise<ISwrEvents['revalidate']>(resolve => {
+      const off = swrEvents.on('revalidate', payload => {
+        off();
+        resolve(payload);
+      });
+    });
+
+  beforeAll(() => {
+    global.fetch = fetchMock;
+  });
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  beforeEach(() => {
+    version = 0;
+    fetchMock.mockReset();
+    fetchMock.mockImplementation(async () => new Response(JSON.stringify({ code: 0, result: ++version })));
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  it('新鲜期内直接返回缓存', async () => {
+    const cacheStore = new MemoryCacheStore();
+    const swr = { maxAge: 1000, staleWhileRevalidate: 1000 };
+    expect(await request({ cacheStore, swr })).toBe(1);
+    expect(await request({ cacheStore, swr })).toBe(1);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('过期后先返回旧数据并在后台刷新', async () => {
+    jest.useFakeTimers({ doNotFake: ['setTimeout', 'setInterval', 'clearTimeout', 'clearInterval'] });
+    const cacheStore = new MemoryCacheStore();
+    const onRevalidate = jest.fn();
+    const swr = { maxAge: 1000, staleWhileRevalidate: 5000, onRevalidate };
+    expect(await request({ cacheStore, swr })).toBe(1);
+
+    jest.setSystemTime(Date.now() + 2000);
+    const revalidated = nextRevalidate();
+    expect(await request({ cacheStore, swr })).toBe(1);
+    expect((await revalidated).result).toBe(2);
+    expect(onRevalidate).toHaveBeenCalledWith(2, expect.anything());
+
+    expect(await request({ cacheStore, swr })).toBe(2);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('调用方取消不会中断后台刷新', async () => {
+    jest.useFakeTimers({ doNotFake: ['setTimeout', 'setInterval', 'clearTimeout', 'clearInterval'] });
+    const cacheStore = new MemoryCacheStore();
+    const swr = { maxAge: 1000, staleWhileRevalidate: 5000 };
+    expect(await request({ cacheStore, swr })).toBe(1);
+
+    // 刷新的请求在收到中断时失败
+    fetchMock.mockImplementation(
+      (_url: string, init: RequestInit) =>
+        new Promise((resolve, reject) => {
+          const abort = () => reject(new DOMException('aborted', 'AbortError'));
+          if (init.signal?.aborted) {
+            abort();
+          }
+          init.signal?.addEventListener('abort', abort);
+          setTimeout(() => resolve(new Response(JSON.stringify({ code: 0, result: ++version }))), 20);
+        }),
+    );
+    jest.setSystemTime(Date.now() + 2000);
+    const revalidated = nextRevalidate();
+    const controller = new AbortController();
+    expect(await request({ cacheStore, swr, signal: controller.signal, tag: 'page' })).toBe(1);
+    controller.abort();
+    abortAll('page');
+    expect((await revalidated).result).toBe(2);
+    expect(await request({ cacheStore, swr })).toBe(2);
+  });
+
+  it('超过可以返回旧数据的时间后重新请求', async () => {
+    jest.useFakeTimers({ doNotFake: ['setTimeout', 'setInterval', 'clearTimeout', 'clearInterval'] });
+    const cacheStore = new MemoryCacheStore();
+    const swr = { maxAge: 1000, staleWhileRevalidate: 1000 };
+    expect(await request({ cacheStore, swr })).toBe(1);
+
+    jest.setSystemTime(Date.now() + 3000);
+    expect(await request({ cacheStore, swr })).toBe(2);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
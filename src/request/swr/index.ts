@@ -0,0 +1,86 @@
+import { dedupeRequest } from '../dedupe';
+import { Emitter } from '../emitter';
+import { ICacheData, IRequestOption } from '../typings';
+
+/**
+ * stale-while-revalidate 配置
+ */
+export interface ISwrOption {
+  /**
+   * 数据新鲜的时间（毫秒），默认使用 cacheControl，都没有则是30000
+   */
+  maxAge?: number;
+  /**
+   * 过期后还可以先返回旧数据的时间（毫秒），这段时间内命中缓存会在后台刷新，默认60000
+   */
+  staleWhileRevalidate?: number;
+  /**
+   * 后台刷新成功后执行
+   */
+  onRevalidate?: (result: any, opt: IRequestOption) => void;
+}
+
+/**
+ * 缓存刷新的事件
+ */
+export type ISwrEvents = {
+  /**
+   * 后台刷新成功
+   */
+  revalidate: { cacheKey: string; result: any; option: IRequestOption };
+  /**
+   * 后台刷新失败
+   */
+  revalidateError: { cacheKey: string; error: any; option: IRequestOption };
+};
+
+/**
+ * 缓存刷新的事件订阅
+ */
+export const swrEvents = new Emitter<ISwrEvents>();
+
+/**
+ * 生成要缓存的数据
+ * @param opt 请求配置
+ * @param data 要缓存的数据
+ */
+export const buildCacheEntry = (opt: IRequestOption, data: any): ICacheData => {
+  const maxAge = opt.swr?.maxAge || opt.cacheControl || 30000;
+  const expires = new Date().getTime() + maxAge;
+  if (!opt.swr) {
+    return { expires, data };
+  }
+  return {
+    expires,
+    staleUntil: expires + (opt.swr.staleWhileRevalidate ?? 60000),
+    data,
+  };
+};
+
+/**
+ * 缓存是否已经过期，但是还可以先返回并在后台刷新
+ * @param cacheData 缓存的数据
+ */
+export const isStale = (cacheData: ICacheData) => {
+  const now = new Date().getTime();
+  return now >= cacheData.expires && !!cacheData.staleUntil && now < cacheData.staleUntil;
+};
+
+/**
+ * 在后台刷新缓存，同一个缓存同时只会刷新一次
+ * @param cacheKey 缓存的key
+ * @param opt 请求配置
+ * @param request 重新发起请求的方法，需要跳过缓存读取
+ */
+export const revalidateInBackground = (cacheKey: string, opt: IRequestOption, request: () => Promise<any>) => {
+  dedupeRequest(`swr:${cacheKey}`, request)
+    .then(result => {
+      swrEvents.emit('revalidate', { cacheKey, result, option: opt });
+      if (opt.swr?.onRevalidate) {
+        opt.swr.onRevalidate(result, opt);
+      }
+    })
+    .catch(error => {
+      swrEvents.emit('revalidateError', { cacheKey, error, option: opt });
+    });
+};
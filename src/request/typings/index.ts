@@ -1,18 +1,44 @@
 import ReqQueue from '../ReqQueue';
+import type { IRequestInterceptor } from '../interceptors';
+import type { IRetryOption } from '../retry';
+import type { ICacheStore, ICacheStoreType } from '../cacheStore';
+import type { ISwrOption } from '../swr';
+import type { IProgressHandler } from '../progress';
+import type { IResponseProtocol } from '../protocol';
+import type { MockAdapter } from '../mock';
+import type { IRequestLogger } from '../logger';
+import type { IRequestMetric } from '../metrics';
+import type { IRequestPriority, RequestLimiter } from '../rateLimit';
+import type { RequestError } from '../errors';
 
 /**
  * 接口的配置
  */
 export interface IRequestOption {
   /**
-   * 请求环境，rn使用fetch，uni使用uniRequest，browser使用axios
+   * 请求环境，rn使用fetch，uni使用uniRequest，browser使用axios，mock使用模拟请求
    */
-  reqEnv?: 'browser' | 'rn' | 'uni' | 'fetch';
+  reqEnv?: 'browser' | 'rn' | 'uni' | 'fetch' | 'mock';
   /**
-   * 请求类型 sse | xhr
+   * reqEnv 为 mock 时使用的模拟请求适配器，默认使用 mockAdapter
+   */
+  mockAdapter?: MockAdapter;
+  /**
+   * 请求类型 sse | xhr | ndjson
+   * <br />
+   * sse 返回原始的流，需要解析事件、自动重连时使用 createSSEClient
+   * <br />
+   * ndjson 返回 AsyncIterable，每解析出一行就产出一个对象，使用原生 fetch，timeout 只计算到收到响应，提前退出循环时会关闭连接
+   */
+  reqType?: 'sse' | 'xhr' | 'ndjson';
+  /**
+   * 取消请求的 AbortSignal，会和超时的 signal 合并
    */
-  reqType?: 'sse' | 'xhr';
   signal?: any;
+  /**
+   * 请求的标签，可以通过 abortAll(tag) 统一取消，比如切换路由时
+   */
+  tag?: string | string[];
   /**
    * 遇到错误是否继续，不抛出异常
    */
@@ -21,6 +47,10 @@ export interface IRequestOption {
    * 请求地址
    */
   url?: string;
+  /**
+   * 基础地址，请求地址不是完整地址时会拼接在前面
+   */
+  baseURL?: string;
   /**
    * post request data type
    */
@@ -84,6 +114,22 @@ export interface IRequestOption {
    * 是否是文件
    */
   isFile?: boolean;
+  /**
+   * 上传文件时文件的字段名，默认 file
+   */
+  fileField?: string;
+  /**
+   * 上传文件时额外的表单字段
+   */
+  formData?: Record<string, any>;
+  /**
+   * 上传进度，axios、fetch（需要支持流式请求体，否则只在结束时回调一次）和 uni 上传文件时有效
+   */
+  onUploadProgress?: IProgressHandler;
+  /**
+   * 下载进度，axios、fetch 和 uni 下载文件时有效
+   */
+  onDownloadProgress?: IProgressHandler;
   /**
    * 响应数据类型
    */
@@ -130,10 +176,48 @@ export interface IRequestOption {
    * 缓存多久
    */
   cacheControl?: number;
+
+  /**
+   * 缓存存储，可以传内置的类型或者自定义的存储
+   * <br />
+   * 默认依次使用 sessionStorage、uni 本地存储、内存
+   */
+  cacheStore?: ICacheStore | ICacheStoreType;
+
+  /**
+   * stale-while-revalidate 缓存策略，开启后会自动缓存数据
+   * <br />
+   * 缓存过期后的一段时间内先返回旧数据，同时在后台刷新
+   */
+  swr?: ISwrOption;
+
+  /**
+   * 跳过缓存读取，直接请求并更新缓存
+   */
+  forceRefresh?: boolean;
+
+  /**
+   * 相同请求（请求方法 + 地址 + 参数）同时发起时共用同一个请求
+   * <br />
+   * 同一时间只会发出一次，callback 和 errorHandler 只会执行第一个调用方的，修改数据的请求不建议开启
+   * <br />
+   * 通过 signal 或 tag 取消时只有当前调用方会收到取消异常，所有调用方都取消后才会中断请求
+   */
+  dedupe?: boolean;
   toHtml?: boolean;
   validateStatus?: (status: number) => void | boolean;
   // 请求超时限制
   timeout?: number;
+  /**
+   * 业务响应的结构约定，默认 { code: 0, result, msg }
+   */
+  protocol?: IResponseProtocol;
+  /**
+   * 失败重试，数字表示最大尝试次数，true 使用默认配置
+   * <br />
+   * 默认只重试幂等方法的超时、网络异常以及 408/429/502/503/504
+   */
+  retry?: boolean | number | IRetryOption;
   /**
    * 当前请求的唯一标识
    */
@@ -150,6 +234,47 @@ export interface IRequestOption {
    * 存储的方法，可以把日志存到本地来
    */
   cacheMethod?: (data: Record<string, any>) => void;
+  /**
+   * 日志队列，不传则使用全局的 ReqQueue
+   */
+  logQueue?: ReqQueue;
+  /**
+   * 请求日志，传了之后自动开启 cacheLog，使用日志自己的队列，脱敏后输出到各个 sink
+   */
+  logger?: IRequestLogger;
+  /**
+   * 请求结束后执行，参数为请求的耗时、大小、缓存命中和异常类型等指标，全局订阅请使用 metricsEvents
+   */
+  onMetric?: (metric: IRequestMetric) => void;
+  /**
+   * 指标中的接口名，默认为请求路径，defineApi 会使用定义的地址
+   */
+  metricName?: string;
+  /**
+   * 限流器，和 setHostRateLimit 配置的域名限流同时生效，请求客户端的 rateLimit 会设置到这里
+   */
+  rateLimit?: RequestLimiter;
+  /**
+   * 限流排队时的优先级，默认 normal，后台刷新缓存默认 low
+   */
+  priority?: IRequestPriority;
+  /**
+   * 断网时是否加入离线队列，需要注册 createOfflineQueue 的拦截器，queueAll 时传 false 可以排除
+   */
+  offline?: boolean;
+  /**
+   * 跳过 createAuth 的拦截器，不带 token、不等待正在进行的刷新，401 时也不刷新，刷新 token 的请求需要带上
+   */
+  skipAuth?: boolean;
+  /**
+   * 刷新 token 后重新发起的请求，createAuth 内部使用，避免无限重试
+   */
+  authReplayed?: boolean;
+
+  /**
+   * 获取token的方法，传了之后不再从 sessionStorage 的 tokenUrl/jwtToken 中读取
+   */
+  getToken?: (url: string) => string | null | undefined;
 
   /**
    * 是否携带cookie
@@ -197,10 +322,15 @@ export interface IRequestOption {
   csrfHeaderName?: string;
 
   /**
-   * 返回值处理
+   * 返回值处理，在 responseErrorIntercept 之后执行
    */
   resProcess?: (res: any) => any;
 
+  /**
+   * 当前请求的拦截器，在全局拦截器之后执行
+   */
+  interceptors?: IRequestInterceptor[];
+
   /**
    * 返回值 空 值替换 - 默认是 -
    */
@@ -213,6 +343,24 @@ export interface IRequestOption {
 
 export declare type ICallBack = (data: any) => void;
 
+/**
+ * 请求异常时返回的数据
+ */
+export type IZlResponse = {
+  code: number;
+  msg: string;
+  message: string;
+  result: any;
+  url: string;
+  status: number;
+  statusText: string;
+};
+
+/**
+ * 异常处理方法，异常统一转换成 RequestError，可以通过 isHttpError 等类型守卫区分
+ */
+export declare type IErrorHandler = (error: RequestError, opt: IRequestOption) => void;
+
 export declare const DEV_LOG: 'show' | undefined;
 
 declare global {
@@ -232,6 +380,11 @@ export interface ICacheData {
    */
   expires: number;
 
+  /**
+   * 过期后还可以先返回旧数据的截止时间，开启 swr 时才有
+   */
+  staleUntil?: number;
+
   /**
    * 缓存的数据
    */
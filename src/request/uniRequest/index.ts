@@ -39,8 +39,74 @@ if (typeof uni !== 'undefined' && typeof uni.request !== 'undefined') {
   // 自定义适配器，用来适配uniapp的语法
   uniRequest.defaults.adapter = config => {
     return new Promise((resolve, reject) => {
+      const signal: any = config.signal;
+      if (signal?.aborted) {
+        reject(new AxiosError('canceled', AxiosError.ERR_CANCELED, config));
+        return;
+      }
+      // 通过 RequestTask.abort() 中断请求
+      let requestTask: any;
+      const onAbort = () => requestTask?.abort();
+      const complete = (response: any) => {
+        signal?.removeEventListener?.('abort', onAbort);
+        if (signal?.aborted) {
+          reject(new AxiosError('canceled', AxiosError.ERR_CANCELED, config));
+          return;
+        }
+        // 处理响应
+        const res: any = {
+          data: response.data,
+          status: response.statusCode,
+          errMsg: response.errMsg,
+          header: response.header,
+          config: config,
+          request: response.request,
+        };
+        // 根据返回状态处理
+        if (response.statusCode >= 200 && response.statusCode < 300) {
+          settle(resolve, reject, res);
+        } else {
+          reject(
+            new AxiosError(res.errMsg, AxiosError.ERR_BAD_RESPONSE, config, response.request, res),
+          );
+        }
+      };
+      // 上传文件使用 uploadFile，requestErrorIntercept 已经把文件信息放到了 params 中
+      if ((config as any).manner === 'file' && typeof uni.uploadFile !== 'undefined') {
+        const { filePath, name, formData } = config.params || {};
+        requestTask = uni.uploadFile({
+          url: config.url!,
+          filePath,
+          name,
+          formData,
+          header: { ...config.headers },
+          timeout: config.timeout,
+          complete: (response: any) => {
+            // uploadFile 返回的是字符串，尝试转成 json
+            if (typeof response.data === 'string') {
+              try {
+                response.data = JSON.parse(response.data);
+              } catch (e) {
+                // 不是 json 就原样返回
+              }
+            }
+            complete(response);
+          },
+        });
+        if (config.onUploadProgress) {
+          requestTask.onProgressUpdate((e: any) => {
+            config.onUploadProgress!({
+              loaded: e.totalBytesSent,
+              total: e.totalBytesExpectedToSend,
+              progress: e.progress / 100,
+            } as any);
+          });
+        }
+        signal?.addEventListener?.('abort', onAbort);
+        return;
+      }
       // @ts-ignore
-      uni.request({
+      requestTask = uni.request({
         // @ts-ignore
         method: config.method!.toUpperCase(),
         // @ts-ignore
@@ -49,26 +115,10 @@ if (typeof uni !== 'undefined' && typeof uni.request !== 'undefined') {
         data: config.data,
         // @ts-ignore
         responseType: config.responseType,
-        complete: (response: any) => {
-          // 处理响应
-          const res: any = {
-            data: response.data,
-            status: response.statusCode,
-            errMsg: response.errMsg,
-            header: response.header,
-            config: config,
-            request: response.request
-          };
-          // 根据返回状态处理
-          if (response.statusCode >= 200 && response.statusCode < 300) {
-            settle(resolve, reject, res);
-          } else {
-            reject(
-              new AxiosError(res.errMsg, AxiosError.ERR_BAD_RESPONSE, config, response.request, res)
-            );
-          }
-        }
+        timeout: config.timeout,
+        complete,
       });
+      signal?.addEventListener?.('abort', onAbort);
     });
   };
 }
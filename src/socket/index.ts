@@ -0,0 +1,6 @@
+/**
+ * Socket utilities module
+ * 实时通信相关工具函数模块
+ */
+
+export * from './socketClient';
@@ -0,0 +1,294 @@
+import { BusinessError, isCanceledError, isNetworkError, isTimeoutError } from '../../request';
+import { createSocket } from '..';
+import type { ISocketAdapter, ISocketConnection, ISocketEvents, ISocketOption } from '..';
+
+/**
+ * 模拟的连接，通过 serverXxx 方法模拟服务端的行为
+ */
+class FakeConnection implements ISocketConnection {
+  sent: any[] = [];
+
+  closed?: { code?: number; reason?: string };
+
+  private openCallback = () => { };
+
+  private messageCallback: (data: string | ArrayBuffer) => void = () => { };
+
+  private closeCallback: (e: { code?: number; reason?: string }) => void = () => { };
+
+  constructor(public url: string, public protocols?: string[]) { }
+
+  send(data: string | ArrayBuffer) {
+    this.sent.push(typeof data === 'string' ? JSON.parse(data) : data);
+  }
+
+  close(code?: number, reason?: string) {
+    this.closed = { code, reason };
+  }
+
+  onOpen(callback: () => void) {
+    this.openCallback = callback;
+  }
+
+  onMessage(callback: (data: string | ArrayBuffer) => void) {
+    this.messageCallback = callback;
+  }
+
+  onClose(callback: (e: { code?: number; reason?: string }) => void) {
+    this.closeCallback = callback;
+  }
+
+  onError() { }
+
+  serverOpen() {
+    this.openCallback();
+  }
+
+  serverSend(data: any) {
+    this.messageCallback(typeof data === 'string' ? data : JSON.stringify(data));
+  }
+
+  serverClose(code = 1006) {
+    this.closeCallback({ code });
+  }
+}
+
+describe('createSocket', () => {
+  let connections: FakeConnection[] = [];
+  const adapter: ISocketAdapter = (url, protocols) => {
+    const connection = new FakeConnection(url, protocols);
+    connections.push(connection);
+    return connection;
+  };
+  const last = () => connections[connections.length - 1];
+
+  const setup = (option: ISocketOption = {}) => {
+    const socket = createSocket('ws://localhost/ws', {
+      adapter,
+      heartbeat: false,
+      reconnect: { delay: 100, maxDelay: 250, jitter: false },
+      // 所有消息都序列化成 json，发送的内容解析后断言
+      serialize: data => JSON.stringify(data),
+      ...option,
+    });
+    const events: string[] = [];
+    (['open', 'close', 'reconnect'] as (keyof ISocketEvents)[]).forEach(event => {
+      socket.events.on(event, payload => events.push(`${event}:${JSON.stringify(payload)}`));
+    });
+    return { socket, events };
+  };
+
+  beforeEach(() => {
+    connections = [];
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  it('连接前发送的消息缓存到连接后按顺序发送', () => {
+    const { socket } = setup({ protocols: 'json' });
+    expect(socket.state).toBe('connecting');
+    expect(last().protocols).toEqual(['json']);
+    expect(socket.send({ n: 1 })).toBe(false);
+    expect(socket.send({ n: 2 })).toBe(false);
+    last().serverOpen();
+    expect(socket.state).toBe('open');
+    expect(socket.send({ n: 3 })).toBe(true);
+    expect(last().sent).toEqual([{ n: 1 }, { n: 2 }, { n: 3 }]);
+  });
+
+  it('超过 queueLimit 时丢弃最早的消息', () => {
+    const { socket } = setup({ queueLimit: 2 });
+    [1, 2, 3].forEach(n => socket.send({ n }));
+    last().serverOpen();
+    expect(last().sent).toEqual([{ n: 2 }, { n: 3 }]);
+  });
+
+  it('按间隔发送心跳，收到响应前不重复发送，超时后断开重连', () => {
+    const { socket, events } = setup({ heartbeat: { interval: 1000, timeout: 500 } });
+    const messages: any[] = [];
+    socket.events.on('message', ({ data }) => messages.push(data));
+    const first = last();
+    first.serverOpen();
+
+    jest.advanceTimersByTime(1000);
+    expect(first.sent).toEqual(['ping']);
+    first.serverSend('pong');
+    // 心跳响应不触发 message
+    expect(messages).toEqual([]);
+
+    jest.advanceTimersByTime(1000);
+    expect(first.sent).toEqual(['ping', 'ping']);
+    // 收到任何消息都说明连接正常
+    first.serverSend({ type: 'notice' });
+    jest.advanceTimersByTime(1000);
+    expect(first.sent).toHaveLength(3);
+    expect(first.closed).toBeUndefined();
+
+    jest.advanceTimersByTime(499);
+    expect(first.closed).toBeUndefined();
+    jest.advanceTimersByTime(1);
+    expect(first.closed).toEqual({ code: 4000, reason: 'heartbeat timeout' });
+    expect(socket.state).toBe('reconnecting');
+    expect(events.slice(-2)).toEqual([
+      'close:{"code":4000,"reason":"heartbeat timeout","manual":false}',
+      'reconnect:{"attempt":1,"delay":100}',
+    ]);
+    expect(messages).toEqual([{ type: 'notice' }]);
+  });
+
+  it('断开后按指数退避重连，连接成功后重置次数并重新订阅', () => {
+    const { socket, events } = setup({ subscribeMessage: topic => ({ type: 'subscribe', topic }) });
+    socket.subscribe('order', () => undefined);
+    last().serverOpen();
+    expect(last().sent).toEqual([{ type: 'subscribe', topic: 'order' }]);
+
+    last().serverClose();
+    jest.advanceTimersByTime(100);
+    expect(connections).toHaveLength(2);
+    // 重连失败
+    last().serverClose();
+    jest.advanceTimersByTime(199);
+    expect(connections).toHaveLength(2);
+    jest.advanceTimersByTime(1);
+    last().serverClose();
+    jest.advanceTimersByTime(250);
+    last().serverOpen();
+
+    expect(events.filter(item => item.startsWith('reconnect'))).toEqual([
+      'reconnect:{"attempt":1,"delay":100}',
+      'reconnect:{"attempt":2,"delay":200}',
+      'reconnect:{"attempt":3,"delay":250}',
+    ]);
+    expect(events[events.length - 1]).toBe('open:{"reconnected":true}');
+    expect(last().sent).toEqual([{ type: 'subscribe', topic: 'order' }]);
+
+    // 连接成功后从第一次开始计算
+    last().serverClose();
+    expect(events[events.length - 1]).toBe('reconnect:{"attempt":1,"delay":100}');
+  });
+
+  it('超过 maxAttempts 后关闭，未完成的 RPC 失败', async () => {
+    const { socket } = setup({ reconnect: { delay: 100, maxAttempts: 1, jitter: false } });
+    last().serverOpen();
+    last().serverClose();
+    const pending = socket.rpc('user.get').catch(e => e);
+    jest.advanceTimersByTime(100);
+    last().serverClose();
+    expect(socket.state).toBe('closed');
+    expect(isNetworkError(await pending)).toBe(true);
+    jest.advanceTimersByTime(10000);
+    expect(connections).toHaveLength(2);
+  });
+
+  it('RPC 按 id 匹配响应，错误响应转换成 BusinessError', async () => {
+    const { socket } = setup();
+    const messages: any[] = [];
+    socket.events.on('message', ({ data }) => messages.push(data));
+    last().serverOpen();
+    const user = socket.rpc('user.get', { id: 1 });
+    const roles = socket.rpc('role.list');
+    const failed = socket.rpc('order.pay').catch(e => e);
+    const [userCall, rolesCall, failedCall] = last().sent;
+    expect(userCall).toEqual({ id: expect.any(String), method: 'user.get', params: { id: 1 } });
+
+    last().serverSend({ id: 'unknown', result: 'x' });
+    last().serverSend({ id: rolesCall.id, result: ['admin'] });
+    last().serverSend({ id: failedCall.id, error: { code: 1001, message: '余额不足' } });
+    last().serverSend({ id: userCall.id, result: { name: 'bin' } });
+
+    expect(await user).toEqual({ name: 'bin' });
+    expect(await roles).toEqual(['admin']);
+    const error = await failed;
+    expect(error).toBeInstanceOf(BusinessError);
+    expect(error).toMatchObject({ code: 1001, message: '余额不足' });
+    // 不是 RPC 响应的消息照常触发 message
+    expect(messages).toEqual([{ id: 'unknown', result: 'x' }]);
+  });
+
+  it('RPC 超时抛出 TimeoutError，迟到的响应当作普通消息', async () => {
+    const { socket } = setup({ rpcTimeout: 1000 });
+    last().serverOpen();
+    const slow = socket.rpc('slow').catch(e => e);
+    const fast = socket.rpc('fast', undefined, { timeout: 100 }).catch(e => e);
+    jest.advanceTimersByTime(100);
+    expect(isTimeoutError(await fast)).toBe(true);
+    jest.advanceTimersByTime(900);
+    expect(isTimeoutError(await slow)).toBe(true);
+
+    const messages: any[] = [];
+    socket.events.on('message', ({ data }) => messages.push(data));
+    last().serverSend({ id: last().sent[0].id, result: 'late' });
+    expect(messages).toHaveLength(1);
+  });
+
+  it('已经发出的 RPC 在断开时失败，还没有发出的重连后发送', async () => {
+    const { socket } = setup();
+    last().serverOpen();
+    const sent = socket.rpc('sent').catch(e => e);
+    last().serverClose();
+    expect(isNetworkError(await sent)).toBe(true);
+
+    const queued = socket.rpc('queued');
+    jest.advanceTimersByTime(100);
+    last().serverOpen();
+    const [call] = last().sent;
+    expect(call.method).toBe('queued');
+    last().serverSend({ id: call.id, result: 'ok' });
+    expect(await queued).toBe('ok');
+  });
+
+  it('断开期间超时或者取消的 RPC 重连后不再发送', async () => {
+    const { socket } = setup({ rpcTimeout: 50 });
+    const timedOut = socket.rpc('timedOut').catch(e => e);
+    const controller = new AbortController();
+    const canceled = socket.rpc('canceled', undefined, { signal: controller.signal }).catch(e => e);
+    const kept = socket.rpc('kept', undefined, { timeout: 0 });
+    controller.abort();
+    expect(isCanceledError(await canceled)).toBe(true);
+    jest.advanceTimersByTime(50);
+    expect(isTimeoutError(await timedOut)).toBe(true);
+
+    last().serverOpen();
+    expect(last().sent.map(item => item.method)).toEqual(['kept']);
+    last().serverSend({ id: last().sent[0].id, result: 'ok' });
+    expect(await kept).toBe('ok');
+  });
+
+  it('订阅的主题按 topic 分发，取消最后一个订阅时发送取消订阅消息', () => {
+    const { socket } = setup({
+      subscribeMessage: topic => ({ type: 'subscribe', topic }),
+      unsubscribeMessage: topic => ({ type: 'unsubscribe', topic }),
+    });
+    last().serverOpen();
+    const received: any[] = [];
+    const off = socket.subscribe('order', message => received.push(message));
+    const offOther = socket.subscribe('order', () => undefined);
+    last().serverSend({ topic: 'order', id: 1 });
+    last().serverSend({ topic: 'user', id: 2 });
+    expect(received).toEqual([{ topic: 'order', id: 1 }]);
+    off();
+    offOther();
+    expect(last().sent).toEqual([
+      { type: 'subscribe', topic: 'order' },
+      { type: 'unsubscribe', topic: 'order' },
+    ]);
+  });
+
+  it('主动关闭后不再重连，未完成的 RPC 被取消', async () => {
+    const { socket, events } = setup();
+    last().serverOpen();
+    const pending = socket.rpc('user.get').catch(e => e);
+    socket.close(1000, 'bye');
+    expect(isCanceledError(await pending)).toBe(true);
+    expect(last().closed).toEqual({ code: 1000, reason: 'bye' });
+    expect(socket.state).toBe('closed');
+    expect(events[events.length - 1]).toBe('close:{"code":1000,"reason":"bye","manual":true}');
+    jest.advanceTimersByTime(10000);
+    expect(connections).toHaveLength(1);
+
+    // 可以重新连接
+    socket.connect();
+    expect(connections).toHaveLength(2);
+  });
+});
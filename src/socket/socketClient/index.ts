@@ -0,0 +1,691 @@
+import { Emitter } from '../../request/emitter';
+import { BusinessError, CanceledError, NetworkError, TimeoutError } from '../../request/errors';
+import asyncUtils from '../../core/asyncUtils';
+import cryptoUtils from '../../core/cryptoUtils';
+
+/**
+ * 各环境 socket 的统一封装
+ */
+export interface ISocketConnection {
+  /**
+   * 发送数据
+   */
+  send: (data: string | ArrayBuffer) => void;
+  /**
+   * 关闭连接
+   */
+  close: (code?: number, reason?: string) => void;
+  onOpen: (callback: () => void) => void;
+  onMessage: (callback: (data: string | ArrayBuffer) => void) => void;
+  onClose: (callback: (e: { code?: number; reason?: string }) => void) => void;
+  onError: (callback: (error: any) => void) => void;
+}
+
+/**
+ * 创建连接的适配器
+ */
+export type ISocketAdapter = (url: string, protocols?: string[]) => ISocketConnection;
+
+/**
+ * 使用 WebSocket 的适配器，浏览器和 Node 22+ 使用全局的 WebSocket
+ * <br />
+ * 低版本 Node 可以传入 ws 包的 WebSocket
+ * @param WebSocketImpl WebSocket 的实现，默认全局的 WebSocket
+ * @example
+ * import WebSocket from 'ws';
+ * createSocket('ws://localhost:8080', { adapter: createWebSocketAdapter(WebSocket) });
+ */
+export const createWebSocketAdapter =
+  (WebSocketImpl?: any): ISocketAdapter =>
+    (url, protocols) => {
+      const Impl = WebSocketImpl || (typeof WebSocket !== 'undefined' ? WebSocket : undefined);
+      if (!Impl) {
+        throw new Error('当前环境不支持 WebSocket');
+      }
+      const ws = new Impl(url, protocols);
+      ws.binaryType = 'arraybuffer';
+      return {
+        send: data => ws.send(data),
+        close: (code, reason) => ws.close(code, reason),
+        onOpen: callback => {
+          ws.onopen = () => callback();
+        },
+        onMessage: callback => {
+          ws.onmessage = (e: { data: string | ArrayBuffer }) => callback(e.data);
+        },
+        onClose: callback => {
+          ws.onclose = (e: { code?: number; reason?: string }) => callback({ code: e.code, reason: e.reason });
+        },
+        onError: callback => {
+          ws.onerror = (e: any) => callback(e);
+        },
+      };
+    };
+
+/**
+ * 使用 uni.connectSocket 的适配器
+ * @param url 服务器地址
+ * @param protocols 子协议
+ */
+export const uniSocketAdapter: ISocketAdapter = (url, protocols) => {
+  // 传了 complete 才会返回 SocketTask
+  const task = uni.connectSocket({ url, protocols, complete: () => { } });
+  return {
+    send: data => task.send({ data }),
+    close: (code, reason) => task.close({ code, reason }),
+    onOpen: callback => task.onOpen(() => callback()),
+    onMessage: callback => task.onMessage(res => callback(res.data)),
+    onClose: callback => task.onClose(res => callback({ code: res?.code, reason: res?.reason })),
+    onError: callback => task.onError(callback),
+  };
+};
+
+/**
+ * 根据当前环境获取适配器，非浏览器环境有 uni 时使用 uni.connectSocket
+ */
+const getDefaultAdapter = (): ISocketAdapter => {
+  if (typeof window === 'undefined' && typeof uni !== 'undefined' && typeof uni.connectSocket !== 'undefined') {
+    return uniSocketAdapter;
+  }
+  return createWebSocketAdapter();
+};
+
+/**
+ * 心跳配置
+ */
+export interface ISocketHeartbeatOption {
+  /**
+   * 发送心跳的间隔（毫秒），默认25000
+   */
+  interval?: number;
+  /**
+   * 发送心跳后等待响应的时间（毫秒），超时后断开重连，默认10000
+   */
+  timeout?: number;
+  /**
+   * 心跳消息，默认 ping
+   */
+  message?: any | (() => any);
+  /**
+   * 是否是心跳的响应，心跳响应不会触发 message 事件，默认 pong 或者 { type: 'pong' }
+   */
+  isPong?: (data: any) => boolean;
+}
+
+/**
+ * 重连配置
+ */
+export interface ISocketReconnectOption {
+  /**
+   * 最大连续重连次数，默认不限制
+   */
+  maxAttempts?: number;
+  /**
+   * 基础延迟（毫秒），按指数增长，默认1000
+   */
+  delay?: number;
+  /**
+   * 最大延迟（毫秒），默认30000
+   */
+  maxDelay?: number;
+  /**
+   * 随机抖动，和请求重试的 jitter 相同，默认 true
+   */
+  jitter?: boolean | number;
+}
+
+/**
+ * RPC 的响应
+ */
+export interface ISocketRpcReply {
+  /**
+   * 请求的 id
+   */
+  id: string;
+  /**
+   * 调用结果
+   */
+  result?: any;
+  /**
+   * 调用失败的信息
+   */
+  error?: { code?: number | string; message?: string; data?: any };
+}
+
+/**
+ * socket 配置
+ */
+export interface ISocketOption {
+  /**
+   * 子协议
+   */
+  protocols?: string | string[];
+  /**
+   * 创建连接的适配器，默认按环境选择
+   */
+  adapter?: ISocketAdapter;
+  /**
+   * 是否创建后立即连接，默认 true
+   */
+  autoConnect?: boolean;
+  /**
+   * 心跳配置，默认开启，false 关闭
+   */
+  heartbeat?: boolean | ISocketHeartbeatOption;
+  /**
+   * 断开后是否自动重连，默认开启，false 关闭
+   */
+  reconnect?: boolean | ISocketReconnectOption;
+  /**
+   * 断开期间最多缓存的消息数，超过时丢弃最早的消息，默认100，0 不缓存
+   */
+  queueLimit?: number;
+  /**
+   * 发送前的序列化，默认字符串和二进制原样发送，其他转换成 json
+   */
+  serialize?: (data: any) => string | ArrayBuffer;
+  /**
+   * 收到消息后的解析，默认字符串尝试解析 json
+   */
+  deserialize?: (data: string | ArrayBuffer) => any;
+  /**
+   * 获取消息的主题，默认 message.topic
+   */
+  getTopic?: (message: any) => string | undefined;
+  /**
+   * 订阅主题时发送给服务端的消息，不传则不发送，重连后会重新发送
+   */
+  subscribeMessage?: (topic: string) => any;
+  /**
+   * 取消订阅主题时发送给服务端的消息
+   */
+  unsubscribeMessage?: (topic: string) => any;
+  /**
+   * RPC 的超时时间（毫秒），默认10000
+   */
+  rpcTimeout?: number;
+  /**
+   * 构造 RPC 请求的消息，默认 { id, method, params }
+   */
+  buildRpc?: (id: string, method: string, params: any) => any;
+  /**
+   * 从消息中解析 RPC 响应，不是响应时返回 undefined，默认读取 id、result、error
+   */
+  parseRpcReply?: (message: any) => ISocketRpcReply | undefined;
+}
+
+/**
+ * RPC 调用配置
+ */
+export interface ISocketRpcOption {
+  /**
+   * 超时时间（毫秒），默认使用 rpcTimeout
+   */
+  timeout?: number;
+  /**
+   * 取消调用
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * 连接状态
+ */
+export type ISocketState = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+/**
+ * socket 的事件
+ */
+export type ISocketEvents = {
+  /**
+   * 连接成功，reconnected 表示是否是重连
+   */
+  open: { reconnected: boolean };
+  /**
+   * 连接断开，manual 表示是否是主动关闭
+   */
+  close: { code?: number; reason?: string; manual: boolean };
+  /**
+   * 收到消息，不包括心跳响应
+   */
+  message: { data: any; raw: string | ArrayBuffer };
+  /**
+   * 连接异常，或者订阅主题的处理方法抛出异常
+   */
+  error: { error: any };
+  /**
+   * 即将重连
+   */
+  reconnect: { attempt: number; delay: number };
+  /**
+   * 连接状态变化
+   */
+  stateChange: { state: ISocketState };
+};
+
+/**
+ * socket 客户端
+ */
+export interface ISocket {
+  /**
+   * socket 的事件
+   */
+  readonly events: Emitter<ISocketEvents>;
+  /**
+   * 当前连接状态
+   */
+  readonly state: ISocketState;
+  /**
+   * 连接，已经连接时不处理，主动关闭后可以重新连接
+   */
+  connect: () => void;
+  /**
+   * 发送消息，断开期间会缓存到重连后发送，queueLimit 为 0 时直接丢弃
+   * @returns 是否立即发送
+   */
+  send: (data: any) => boolean;
+  /**
+   * 订阅主题
+   * @returns 取消订阅的方法
+   */
+  subscribe: <T = any>(topic: string, handler: (message: T) => void) => () => void;
+  /**
+   * 发送 RPC 请求，根据 id 匹配响应
+   */
+  rpc: <T = any>(method: string, params?: any, option?: ISocketRpcOption) => Promise<T>;
+  /**
+   * 主动关闭，不再重连，未完成的 RPC 会被取消
+   */
+  close: (code?: number, reason?: string) => void;
+}
+
+type IPendingRpc = {
+  resolve: (value: any) => void;
+  reject: (error: any) => void;
+  timer?: ReturnType<typeof setTimeout>;
+  unlink?: () => void;
+  // 是否已经发出，只有发出的请求会在断开时失败
+  sent: boolean;
+};
+
+/**
+ * 默认的序列化
+ * @param data 消息
+ */
+const defaultSerialize = (data: any): string | ArrayBuffer => {
+  if (typeof data === 'string' || (typeof ArrayBuffer !== 'undefined' && data instanceof ArrayBuffer)) {
+    return data;
+  }
+  if (typeof ArrayBuffer !== 'undefined' && ArrayBuffer.isView(data)) {
+    return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+  }
+  return JSON.stringify(data);
+};
+
+/**
+ * 默认的解析
+ * @param data 收到的数据
+ */
+const defaultDeserialize = (data: string | ArrayBuffer) => {
+  if (typeof data !== 'string') {
+    return data;
+  }
+  try {
+    return JSON.parse(data);
+  } catch (e) {
+    return data;
+  }
+};
+
+/**
+ * 默认的 RPC 响应解析
+ * @param message 消息
+ */
+const defaultParseRpcReply = (message: any): ISocketRpcReply | undefined => {
+  if (!message || typeof message !== 'object' || typeof message.id === 'undefined') {
+    return undefined;
+  }
+  return { id: String(message.id), result: message.result, error: message.error };
+};
+
+/**
+ * 创建 socket 客户端，支持心跳、断线重连、断开期间缓存消息、主题订阅和 RPC
+ * @param url 服务器地址
+ * @param option socket 配置
+ * @example
+ * const socket = createSocket('wss://example.com/ws', {
+ *   subscribeMessage: topic => ({ type: 'subscribe', topic })
+ * });
+ * socket.subscribe('order', message => console.log(message));
+ * const user = await socket.rpc('user.get', { id: 1 });
+ */
+export const createSocket = (url: string, option: ISocketOption = {}): ISocket => {
+  const events = new Emitter<ISocketEvents>();
+  const adapter = option.adapter || getDefaultAdapter();
+  const protocols = typeof option.protocols === 'string' ? [option.protocols] : option.protocols;
+  const heartbeat: Required<Omit<ISocketHeartbeatOption, 'message'>> & { message: any } | undefined =
+    option.heartbeat === false
+      ? undefined
+      : {
+        interval: 25000,
+        timeout: 10000,
+        message: 'ping',
+        isPong: (data: any) => data === 'pong' || data?.type === 'pong',
+        ...(option.heartbeat === true ? {} : option.heartbeat),
+      };
+  const reconnect: ISocketReconnectOption | undefined =
+    option.reconnect === false ? undefined : option.reconnect === true ? {} : option.reconnect || {};
+  const queueLimit = option.queueLimit ?? 100;
+  const serialize = option.serialize || defaultSerialize;
+  const deserialize = option.deserialize || defaultDeserialize;
+  const getTopic = option.getTopic || ((message: any) => message?.topic);
+  const parseRpcReply = option.parseRpcReply || defaultParseRpcReply;
+
+  let state: ISocketState = 'idle';
+  let connection: ISocketConnection | undefined;
+  let attempt = 0;
+  let opened = false;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let heartbeatTimer: ReturnType<typeof setInterval> | undefined;
+  let pongTimer: ReturnType<typeof setTimeout> | undefined;
+  // 断开期间缓存的消息，rpcId 用来在发出时标记 RPC
+  let queue: { data: string | ArrayBuffer; rpcId?: string }[] = [];
+  const pending = new Map<string, IPendingRpc>();
+  const topics = new Map<string, Set<(message: any) => void>>();
+
+  const setState = (next: ISocketState) => {
+    if (state !== next) {
+      state = next;
+      events.emit('stateChange', { state });
+    }
+  };
+
+  const settle = (id: string) => {
+    const item = pending.get(id);
+    if (item) {
+      pending.delete(id);
+      clearTimeout(item.timer);
+      item.unlink?.();
+      // 超时或者取消的调用还没有发出时不再发送
+      queue = queue.filter(queued => queued.rpcId !== id);
+    }
+    return item;
+  };
+
+  const rejectPending = (createError: () => any, sentOnly: boolean) => {
+    Array.from(pending.keys()).forEach(id => {
+      if (!sentOnly || pending.get(id)!.sent) {
+        settle(id)!.reject(createError());
+      }
+    });
+    if (!sentOnly) {
+      queue = [];
+    }
+  };
+
+  const stopHeartbeat = () => {
+    clearInterval(heartbeatTimer);
+    clearTimeout(pongTimer);
+    heartbeatTimer = undefined;
+    pongTimer = undefined;
+  };
+
+  const write = (data: string | ArrayBuffer, rpcId?: string) => {
+    connection!.send(data);
+    if (rpcId && pending.has(rpcId)) {
+      pending.get(rpcId)!.sent = true;
+    }
+  };
+
+  // 缓存到重连后发送，不缓存时返回 false
+  const enqueue = (data: string | ArrayBuffer, rpcId?: string) => {
+    if (queueLimit <= 0) {
+      return false;
+    }
+    queue.push({ data, rpcId });
+    if (queue.length > queueLimit) {
+      const dropped = queue.shift()!;
+      if (dropped.rpcId) {
+        settle(dropped.rpcId)?.reject(new NetworkError({ url }));
+      }
+    }
+    return true;
+  };
+
+  const startHeartbeat = () => {
+    if (!heartbeat) {
+      return;
+    }
+    stopHeartbeat();
+    heartbeatTimer = setInterval(() => {
+      if (state !== 'open' || pongTimer) {
+        return;
+      }
+      const message = typeof heartbeat.message === 'function' ? heartbeat.message() : heartbeat.message;
+      write(serialize(message));
+      pongTimer = setTimeout(() => {
+        // 没有收到响应，认为连接已经失效
+        pongTimer = undefined;
+        connection?.close(4000, 'heartbeat timeout');
+        handleClose({ code: 4000, reason: 'heartbeat timeout' });
+      }, heartbeat.timeout);
+    }, heartbeat.interval);
+  };
+
+  const dispatch = (raw: string | ArrayBuffer) => {
+    // 收到任何消息都说明连接正常
+    clearTimeout(pongTimer);
+    pongTimer = undefined;
+    const data = deserialize(raw);
+    if (heartbeat && heartbeat.isPong(data)) {
+      return;
+    }
+    const reply = parseRpcReply(data);
+    if (reply && pending.has(reply.id)) {
+      const item = settle(reply.id)!;
+      if (reply.error) {
+        item.reject(
+          new BusinessError(reply.error.message || '调用失败', { code: reply.error.code, url, data: reply.error.data }),
+        );
+      } else {
+        item.resolve(reply.result);
+      }
+      return;
+    }
+    events.emit('message', { data, raw });
+    const topic = getTopic(data);
+    if (typeof topic !== 'undefined') {
+      topics.get(topic)?.forEach(handler => {
+        try {
+          handler(data);
+        } catch (error) {
+          events.emit('error', { error });
+        }
+      });
+    }
+  };
+
+  const scheduleReconnect = () => {
+    if (!reconnect || (typeof reconnect.maxAttempts === 'number' && attempt >= reconnect.maxAttempts)) {
+      setState('closed');
+      rejectPending(() => new NetworkError({ url }), false);
+      return;
+    }
+    attempt += 1;
+    const delay = asyncUtils.backoffDelay(attempt, {
+      backoff: 'exponential',
+      delay: reconnect.delay ?? 1000,
+      maxDelay: reconnect.maxDelay ?? 30000,
+      jitter: reconnect.jitter ?? true,
+    });
+    setState('reconnecting');
+    events.emit('reconnect', { attempt, delay });
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = undefined;
+      open();
+    }, delay);
+  };
+
+  function handleClose(e: { code?: number; reason?: string }) {
+    if (!connection) {
+      return;
+    }
+    connection = undefined;
+    stopHeartbeat();
+    // 已经发出的 RPC 不会再收到响应
+    rejectPending(() => new NetworkError({ url }), true);
+    events.emit('close', { ...e, manual: false });
+    scheduleReconnect();
+  }
+
+  function open() {
+    let current: ISocketConnection;
+    setState(opened ? 'reconnecting' : 'connecting');
+    try {
+      current = adapter(url, protocols);
+    } catch (error) {
+      events.emit('error', { error });
+      connection = undefined;
+      scheduleReconnect();
+      return;
+    }
+    connection = current;
+    // 重连后旧连接的回调不再处理
+    const isCurrent = () => connection === current;
+    current.onOpen(() => {
+      if (!isCurrent()) {
+        return;
+      }
+      const reconnected = opened;
+      opened = true;
+      attempt = 0;
+      setState('open');
+      startHeartbeat();
+      if (option.subscribeMessage) {
+        topics.forEach((_, topic) => write(serialize(option.subscribeMessage!(topic))));
+      }
+      const items = queue;
+      queue = [];
+      items.forEach(item => write(item.data, item.rpcId));
+      events.emit('open', { reconnected });
+    });
+    current.onMessage(data => {
+      if (isCurrent()) {
+        dispatch(data);
+      }
+    });
+    current.onError(error => {
+      if (isCurrent()) {
+        events.emit('error', { error });
+      }
+    });
+    current.onClose(e => {
+      if (isCurrent()) {
+        handleClose(e);
+      }
+    });
+  }
+
+  const connect = () => {
+    if (connection || reconnectTimer) {
+      return;
+    }
+    attempt = 0;
+    open();
+  };
+
+  const send = (data: any) => {
+    const payload = serialize(data);
+    if (state === 'open') {
+      write(payload);
+      return true;
+    }
+    enqueue(payload);
+    return false;
+  };
+
+  const subscribe = (topic: string, handler: (message: any) => void) => {
+    let handlers = topics.get(topic);
+    if (!handlers) {
+      handlers = new Set();
+      topics.set(topic, handlers);
+      // 连接后会统一发送订阅消息
+      if (option.subscribeMessage && state === 'open') {
+        write(serialize(option.subscribeMessage(topic)));
+      }
+    }
+    handlers.add(handler);
+    return () => {
+      const current = topics.get(topic);
+      if (!current?.delete(handler) || current.size > 0) {
+        return;
+      }
+      topics.delete(topic);
+      if (option.unsubscribeMessage && state === 'open') {
+        write(serialize(option.unsubscribeMessage(topic)));
+      }
+    };
+  };
+
+  const rpc = (method: string, params?: any, rpcOption: ISocketRpcOption = {}) =>
+    new Promise<any>((resolve, reject) => {
+      if (rpcOption.signal?.aborted) {
+        reject(new CanceledError({ url }));
+        return;
+      }
+      const id = cryptoUtils.miniUuid();
+      const payload = serialize(option.buildRpc ? option.buildRpc(id, method, params) : { id, method, params });
+      const item: IPendingRpc = { resolve, reject, sent: false };
+      const timeout = rpcOption.timeout ?? option.rpcTimeout ?? 10000;
+      if (timeout > 0) {
+        item.timer = setTimeout(() => settle(id)?.reject(new TimeoutError({ url })), timeout);
+      }
+      if (rpcOption.signal) {
+        const onAbort = () => settle(id)?.reject(new CanceledError({ url }));
+        rpcOption.signal.addEventListener('abort', onAbort);
+        item.unlink = () => rpcOption.signal!.removeEventListener('abort', onAbort);
+      }
+      pending.set(id, item);
+      try {
+        if (state === 'open') {
+          write(payload, id);
+        } else if (!enqueue(payload, id)) {
+          settle(id)?.reject(new NetworkError({ url }));
+        }
+      } catch (e) {
+        settle(id);
+        reject(e);
+      }
+    });
+
+  const close = (code = 1000, reason?: string) => {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = undefined;
+    stopHeartbeat();
+    const current = connection;
+    connection = undefined;
+    opened = false;
+    rejectPending(() => new CanceledError({ url }), false);
+    if (current) {
+      current.close(code, reason);
+      events.emit('close', { code, reason, manual: true });
+    }
+    setState('closed');
+  };
+
+  if (option.autoConnect !== false) {
+    connect();
+  }
+
+  return {
+    events,
+    get state() {
+      return state;
+    },
+    connect,
+    send,
+    subscribe,
+    rpc,
+    close,
+  };
+};
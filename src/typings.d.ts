@@ -5,13 +5,13 @@ import ReqQueue from './request/ReqQueue';
  */
 export interface IRequestOption {
   /**
-   * 请求环境，rn使用fetch，uni使用uniRequest，browser使用axios
+   * 请求环境，rn使用fetch，uni使用uniRequest，browser使用axios，mock使用模拟请求
    */
-  reqEnv?: 'browser' | 'rn' | 'uni' | 'fetch';
+  reqEnv?: 'browser' | 'rn' | 'uni' | 'fetch' | 'mock';
   /**
-   * 请求类型 sse | xhr
+   * 请求类型 sse | xhr | ndjson
    */
-  reqType?: 'sse' | 'xhr';
+  reqType?: 'sse' | 'xhr' | 'ndjson';
   signal?: any;
   /**
    * 遇到错误是否继续，不抛出异常
@@ -245,6 +245,8 @@ declare global {
       responseType?: 'text' | 'arraybuffer';
       /** 超时时间，单位 ms */
       timeout?: number;
+      /** 开启 transfer-encoding chunked */
+      enableChunked?: boolean;
       /** 接口调用成功的回调函数 */
       success?: (result: {
         /** 开发者服务器返回的数据 */
@@ -263,8 +265,155 @@ declare global {
       }) => void;
       /** 接口调用结束的回调函数（调用成功、失败都会执行） */
       complete?: (result: any) => void;
+    }) => {
+      /** 中断请求任务 */
+      abort: () => void;
+      /** 监听 HTTP Response Header 事件 */
+      onHeadersReceived?: (callback: (result: { header: Record<string, string>; statusCode?: number }) => void) => void;
+      /** 监听 Transfer-Encoding Chunk Received 事件，开启 enableChunked 时有效 */
+      onChunkReceived?: (callback: (result: { data: ArrayBuffer | string }) => void) => void;
+    };
+
+    /**
+     * 上传本地文件
+     * @param options 上传配置
+     */
+    uploadFile: (options: {
+      /** 开发者服务器 url */
+      url: string;
+      /** 要上传文件资源的路径 */
+      filePath: string;
+      /** 文件对应的 key */
+      name: string;
+      /** HTTP 请求 Header */
+      header?: Record<string, string>;
+      /** HTTP 请求中其他额外的 form data */
+      formData?: Record<string, any>;
+      /** 超时时间，单位 ms */
+      timeout?: number;
+      /** 接口调用结束的回调函数（调用成功、失败都会执行） */
+      complete?: (result: any) => void;
+    }) => {
+      /** 中断上传任务 */
+      abort: () => void;
+      /** 监听上传进度变化 */
+      onProgressUpdate: (
+        callback: (result: { progress: number; totalBytesSent: number; totalBytesExpectedToSend: number }) => void
+      ) => void;
+    };
+
+    /**
+     * 下载文件资源到本地，返回临时路径
+     * @param options 下载配置
+     */
+    downloadFile: (options: {
+      /** 下载资源的 url */
+      url: string;
+      /** HTTP 请求 Header */
+      header?: Record<string, string>;
+      /** 超时时间，单位 ms */
+      timeout?: number;
+      /** 接口调用成功的回调函数 */
+      success?: (result: { tempFilePath: string; statusCode: number }) => void;
+      /** 接口调用失败的回调函数 */
+      fail?: (error: { errMsg: string }) => void;
+    }) => {
+      /** 中断下载任务 */
+      abort: () => void;
+      /** 监听下载进度变化 */
+      onProgressUpdate: (
+        callback: (result: { progress: number; totalBytesWritten: number; totalBytesExpectedToWrite: number }) => void
+      ) => void;
+    };
+
+    /**
+     * 保存文件到本地
+     * @param options 保存配置
+     */
+    saveFile: (options: {
+      /** 需要保存的文件的临时路径 */
+      tempFilePath: string;
+      /** 接口调用成功的回调函数 */
+      success?: (result: { savedFilePath: string }) => void;
+      /** 接口调用失败的回调函数 */
+      fail?: (error: { errMsg: string }) => void;
     }) => void;
 
+    /**
+     * 监听应用切到前台
+     * @param callback 回调函数
+     */
+    onAppShow: (callback: (result?: any) => void) => void;
+
+    /**
+     * 取消监听应用切到前台
+     * @param callback 回调函数
+     */
+    offAppShow: (callback: (result?: any) => void) => void;
+
+    /**
+     * 监听应用切到后台
+     * @param callback 回调函数
+     */
+    onAppHide: (callback: () => void) => void;
+
+    /**
+     * 取消监听应用切到后台
+     * @param callback 回调函数
+     */
+    offAppHide: (callback: () => void) => void;
+
+    /**
+     * 获取网络类型
+     * @param options 获取配置
+     */
+    getNetworkType: (options: {
+      /** 接口调用成功的回调函数 */
+      success?: (result: { networkType: string }) => void;
+      /** 接口调用失败的回调函数 */
+      fail?: (error: { errMsg: string }) => void;
+    }) => void;
+
+    /**
+     * 监听网络状态变化
+     * @param callback 回调函数
+     */
+    onNetworkStatusChange: (callback: (result: { isConnected: boolean; networkType: string }) => void) => void;
+
+    /**
+     * 取消监听网络状态变化
+     * @param callback 回调函数
+     */
+    offNetworkStatusChange?: (callback: (result: { isConnected: boolean; networkType: string }) => void) => void;
+
+    /**
+     * 创建 WebSocket 连接，传了回调函数时才会返回 SocketTask
+     * @param options 连接配置
+     */
+    connectSocket: (options: {
+      /** 服务器地址 */
+      url: string;
+      /** HTTP Header */
+      header?: Record<string, string>;
+      /** 子协议 */
+      protocols?: string[];
+      /** 接口调用结束的回调函数（调用成功、失败都会执行） */
+      complete?: (result: any) => void;
+    }) => {
+      /** 发送数据 */
+      send: (options: { data: string | ArrayBuffer; fail?: (error: { errMsg: string }) => void }) => void;
+      /** 关闭连接 */
+      close: (options: { code?: number; reason?: string }) => void;
+      /** 监听连接打开 */
+      onOpen: (callback: (result: any) => void) => void;
+      /** 监听连接关闭 */
+      onClose: (callback: (result: { code?: number; reason?: string }) => void) => void;
+      /** 监听连接错误 */
+      onError: (callback: (error: { errMsg: string }) => void) => void;
+      /** 监听收到服务器的消息 */
+      onMessage: (callback: (result: { data: string | ArrayBuffer }) => void) => void;
+    };
+
     /**
      * 显示消息提示框
      * @param options 提示配置
@@ -458,6 +607,19 @@ declare global {
      */
     removeStorageSync: (key: string) => void;
 
+    /**
+     * 同步获取当前 storage 的相关信息
+     * @returns storage 信息
+     */
+    getStorageInfoSync: () => {
+      /** 当前 storage 中所有的 key */
+      keys: string[];
+      /** 当前占用的空间大小, 单位：kb */
+      currentSize: number;
+      /** 限制的空间大小，单位：kb */
+      limitSize: number;
+    };
+
     /**
      * 清理本地数据缓存
      * @param options 清理配置
@@ -1,4 +1,5 @@
 import { handleError, safeGetResponseData } from "../uniUtils"
+import { IResponseProtocol, parseResponse } from "../../request/protocol"
 
 /**
  * 云函数调用参数接口
@@ -23,6 +24,21 @@ type ICallParams<T> = {
    * 失败时的提示
    */
   errorMessage?: string,
+  /**
+   * 云函数返回结果的约定，默认 { code: 0, result, message }
+   */
+  protocol?: IResponseProtocol,
+}
+
+/**
+ * 云函数默认的返回结果约定
+ */
+const cloudProtocol: IResponseProtocol = {
+  codePath: 'code',
+  successCode: 0,
+  strictCode: true,
+  dataPath: 'result',
+  messagePath: 'message',
 }
 
 /**
@@ -48,10 +64,10 @@ export const cloudUtils = {
       })
       // 提示信息处理
       if(params.successMessage){
-        return cloudUtils.handleResponse(result.result, params.successMessage)
+        return cloudUtils.handleResponse(result.result, params.successMessage, params.protocol)
       }
       // 使用 safeGetResponseData 确保返回安全的数据结构
-      return safeGetResponseData(result.result, params.errorDefault) as T
+      return safeGetResponseData(result.result, params.errorDefault, params.protocol) as T
     } catch (error) {
       handleError(error, `调用云函数 ${params.function} 失败`)
     }
@@ -99,19 +115,21 @@ export const cloudUtils = {
    * 处理响应
    * @param data 云函数返回结果
    * @param successMessage 成功提示消息
+   * @param protocol 返回结果的约定，默认 { code: 0, result, message }
    * @returns 处理后的结果数据
    */
-  handleResponse(data: any, successMessage?: string) {
-    if (data?.code === 0) {
+  handleResponse(data: any, successMessage?: string, protocol: IResponseProtocol = cloudProtocol) {
+    const parsed = parseResponse(data, protocol)
+    if (data && parsed.success) {
       if (successMessage) {
         uni.showToast({
           title: successMessage,
           icon: 'success'
         })
       }
-      return data.result
+      return parsed.data
     } else {
-      const errorMessage = data?.message || '操作失败'
+      const errorMessage = parsed.message || '操作失败'
       uni.showToast({
         title: errorMessage,
         icon: 'none'
@@ -1,5 +1,12 @@
+import { IResponseProtocol, parseResponse, responseProtocols } from '../../request/protocol'
+
 // ==================== 响应处理工具函数 ====================
 
+/**
+ * 默认的响应约定，业务码必须严格等于 0
+ */
+const strictProtocol: IResponseProtocol = { ...responseProtocols.default, strictCode: true }
+
 /**
  * 标准响应结构
  */
@@ -10,12 +17,13 @@ export interface StandardResponse<T = any> {
 }
 
 /**
- * 处理成功响应 - 检查响应码是否为0
+ * 处理成功响应 - 默认检查响应码是否为0
  * @param data 响应数据
+ * @param protocol 响应约定，默认 { code: 0, result, msg }，业务码严格等于 0 才算成功
  * @returns 是否成功
  */
-export const handleSuccess = (data: any): boolean => {
-  if (data && data.code === 0) {
+export const handleSuccess = (data: any, protocol: IResponseProtocol = strictProtocol): boolean => {
+  if (data && parseResponse(data, protocol).success) {
     return true
   }
   return false
@@ -36,12 +44,16 @@ export const handleError = (error: any, context?: string): void => {
  * 安全获取响应数据 - 失败时返回默认值
  * @param response 响应对象
  * @param defaultValue 默认值
+ * @param protocol 响应约定，默认 { code: 0, result, msg }，业务码严格等于 0 才算成功
  * @returns 响应数据或默认值
  */
-export const safeGetResponseData = <T>(response: any, defaultValue: T): T => {
+export const safeGetResponseData = <T>(response: any, defaultValue: T, protocol: IResponseProtocol = strictProtocol): T => {
   let data = null
-  if (response && response.code === 0) {
-    data = response.result
+  if (response) {
+    const parsed = parseResponse(response, protocol)
+    if (parsed.success) {
+      data = parsed.data
+    }
   }
   return data !== null ? data : defaultValue
 }